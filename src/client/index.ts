@@ -0,0 +1,1357 @@
+/**
+ * Shopify Theme Manager API client
+ *
+ * Generated by src/scripts/generate-client.ts from the OpenAPI document
+ * (GET /openapi.json). Do not edit: run npm run generate:client instead.
+ */
+
+export interface StandardAPIResponse {
+  success: boolean;
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+export interface ValidationErrorResponse {
+  success: false;
+  message: string;
+  data: {
+    errors: {
+      location: 'body' | 'params' | 'query';
+      field: string;
+      message: string;
+    }[];
+  };
+}
+
+export interface ThemeDownloadRequest {
+  /** Numeric Shopify theme ID */
+  theme_id: string;
+  /** Defaults to the session's store, then the default store */
+  store_id?: string;
+  /** Defaults to the store's session, then SESSION_ID */
+  session_id?: string;
+}
+
+export interface ThemePushRequest {
+  /** Environment whose files are pushed */
+  env_id?: string;
+  /** Ignored when env_id is given */
+  store_id?: string;
+  session_id?: string;
+  /** Only push files matching these patterns (not starting with "-") */
+  only?: string[];
+  /** Skip files matching these patterns (not starting with "-") */
+  ignore?: string[];
+  /** Publish the theme after pushing */
+  publish?: boolean;
+}
+
+export interface ChatRequest {
+  env_id: string;
+  prompt: string;
+  model?: string;
+  /** Defaults to the session the environment was created for */
+  session_id?: string;
+  /** Respond 409 instead of queueing behind a running turn */
+  reject_if_busy?: boolean;
+  /** Built-in output schema, or a JSON Schema the final response must follow; the parsed response is sent as structured */
+  output_schema?: 'change_summary' | 'section_plan' | 'theme_audit' | CustomOutputSchema;
+}
+
+export interface ChatStreamingRequest {
+  env_id: string;
+  prompt: string;
+  model?: string;
+  /** Defaults to the session the environment was created for */
+  session_id?: string;
+  /** Respond 409 instead of queueing behind a running turn */
+  reject_if_busy?: boolean;
+  /** Built-in output schema, or a JSON Schema the final response must follow; the parsed response is sent as structured */
+  output_schema?: 'change_summary' | 'section_plan' | 'theme_audit' | CustomOutputSchema;
+  /** Send events arriving within this window as one events.batch webhook (0 = one per event) */
+  batch_window_ms?: number;
+  /** Which events are forwarded; unset lists use the server defaults */
+  events?: {
+    include?: ChatStreamingEventSelector;
+    exclude?: ChatStreamingEventSelector;
+  };
+}
+
+export interface ChatStreamingEventSelector {
+  /** Event types, e.g. item.completed ("*" = any) */
+  types?: string[];
+  /** Item types of item.* events, e.g. command_execution ("*" = any) */
+  item_types?: string[];
+}
+
+export interface ChatCancelRequest {
+  /** Queued or running turn (job ID); defaults to the running turn */
+  turn_id?: string;
+}
+
+export interface CodexThreadRequest {
+  /** Folder inside THEME_DOWNLOAD_PATH */
+  workingDirectory?: string;
+  skipGitRepoCheck?: boolean;
+  model?: string;
+  /** danger-full-access sandbox without approvals */
+  yoloMode?: boolean;
+  approvalMode?: 'untrusted' | 'on-request' | 'on-failure' | 'never';
+  sandboxMode?: 'read-only' | 'workspace-write' | 'danger-full-access';
+}
+
+export interface CodexResumeRequest {
+  /** Folder inside THEME_DOWNLOAD_PATH */
+  workingDirectory?: string;
+  skipGitRepoCheck?: boolean;
+  model?: string;
+  /** danger-full-access sandbox without approvals */
+  yoloMode?: boolean;
+  approvalMode?: 'untrusted' | 'on-request' | 'on-failure' | 'never';
+  sandboxMode?: 'read-only' | 'workspace-write' | 'danger-full-access';
+  /** Codex thread ID to resume */
+  sessionId: string;
+}
+
+export interface CodexRunRequest {
+  threadId: string;
+  prompt: string;
+  model?: string;
+  /** JSON Schema for the final response */
+  outputSchema?: Record<string, unknown>;
+}
+
+export interface CodexStreamRequest {
+  threadId: string;
+  prompt: string;
+  model?: string;
+}
+
+export interface CodexQuickRunRequest {
+  prompt: string;
+  /** Folder inside THEME_DOWNLOAD_PATH */
+  workingDirectory?: string;
+  skipGitRepoCheck?: boolean;
+  model?: string;
+  /** danger-full-access sandbox without approvals */
+  yoloMode?: boolean;
+  /** JSON Schema for the final response */
+  outputSchema?: Record<string, unknown>;
+}
+
+export interface CodexEnvironmentRunRequest {
+  prompt: string;
+  model?: string;
+  /** Respond 409 instead of queueing behind a running turn */
+  rejectIfBusy?: boolean;
+}
+
+export interface RollbackRequest {
+  /** Snapshot to restore */
+  commit?: string;
+  /** Or: number of snapshots to go back (default: 1, i.e. undo the last change) */
+  steps?: number;
+}
+
+/** A limit that is left out is not enforced for the session */
+export interface SessionBudgetRequest {
+  max_cost_usd?: number;
+  max_tokens?: number;
+}
+
+export interface ThemeJobResponse {
+  success: boolean;
+  message: string;
+  data: {
+    /** Poll with GET /jobs/{id}; the result is also sent to the theme webhook */
+    job_id: string;
+    store_id: string;
+    /** Webhooks go to {WEBHOOK_URL}/theme/{session_id} */
+    session_id: string;
+  };
+}
+
+export interface HealthResponse {
+  status: string;
+}
+
+export interface ChatAcceptedResponse {
+  success: boolean;
+  message: string;
+  data: {
+    /** Also the turn ID, for /chat/{envId}/cancel */
+    job_id: string;
+    /** Turns ahead of this one (0 = starts immediately) */
+    queue_position: number;
+    session_id: string;
+  };
+}
+
+export interface ChatQueuedTurn {
+  turn_id: string;
+  /** 0 = running, 1 = next in line, ... */
+  position: number;
+  status: 'running' | 'queued';
+  prompt?: string;
+  enqueued_at: string;
+  started_at?: string;
+}
+
+export interface ChatQueueResponse {
+  success: boolean;
+  message: string;
+  data: {
+    env_id: string;
+    queue_depth: number;
+    turns: ChatQueuedTurn[];
+  };
+}
+
+export interface ChatCancelResponse {
+  success: boolean;
+  message: string;
+  data: {
+    env_id: string;
+    turn_id?: string;
+    /** State of the turn when it was cancelled */
+    status: 'running' | 'queued';
+  };
+}
+
+export interface ChatQueuedTurnCancelResponse {
+  success: boolean;
+  message: string;
+  data: {
+    env_id: string;
+    turn_id: string;
+  };
+}
+
+export interface JobInfo {
+  id: string;
+  type: 'theme.download' | 'theme.push' | 'chat' | 'chat.streaming';
+  status: 'queued' | 'running' | 'succeeded' | 'failed';
+  env_id?: string;
+  theme_id?: string;
+  created_at: string;
+  started_at?: string;
+  finished_at?: string;
+  /** Webhook payload of the job once it has succeeded */
+  result?: Record<string, unknown>;
+  error?: string;
+}
+
+export interface JobListResponse {
+  success: boolean;
+  message: string;
+  data: {
+    jobs: JobInfo[];
+    count: number;
+  };
+}
+
+export interface JobResponse {
+  success: boolean;
+  message: string;
+  data: JobInfo;
+}
+
+export interface EnvHistoryResponse {
+  success: boolean;
+  message: string;
+  data: {
+    env_id: string;
+    /** Newest first */
+    snapshots: {
+      commit: string;
+      message: string;
+      created_at: string;
+    }[];
+  };
+}
+
+export interface EnvDiffResponse {
+  success: boolean;
+  message: string;
+  data: {
+    env_id: string;
+    from: string;
+    /** Commit, or "working-tree" for the current theme files */
+    to: string;
+    totals: {
+      files: number;
+      added: number;
+      removed: number;
+    };
+    files: FileChangeSummary[];
+    /** Unified diff, left out with summary=true */
+    diff?: string;
+  };
+}
+
+export interface EnvRollbackResponse {
+  success: boolean;
+  message: string;
+  data: {
+    env_id: string;
+    /** Snapshot whose files were restored */
+    restored: string;
+    /** Snapshot recording the rollback, null if the theme already matched */
+    commit: string | null;
+  };
+}
+
+export interface DevServerResponse {
+  success: boolean;
+  message: string;
+  data: {
+    env_id: string;
+    theme_id: string;
+    status: 'running' | 'restarting' | 'stopped' | 'crashed';
+    running: boolean;
+    pid?: number;
+    port: number;
+    /** Only while running */
+    uptime_seconds?: number;
+    started_at: string;
+    /** Automatic restarts since the last manual start */
+    restarts: number;
+    last_exit_code?: number | null;
+    last_exit_signal?: string | null;
+    last_exit_at?: string;
+    next_restart_at?: string;
+  };
+}
+
+export interface DevServerLogsResponse {
+  success: boolean;
+  message: string;
+  data: {
+    env_id: string;
+    lines: {
+      stream: 'stdout' | 'stderr';
+      line: string;
+      at: string;
+    }[];
+  };
+}
+
+export interface TranscriptTurn {
+  /** Job ID of the chat request */
+  turn_id: string;
+  mode: 'chat' | 'chat.streaming';
+  prompt: string;
+  model?: string;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  final_response?: string;
+  items?: Record<string, unknown>[];
+  usage?: Record<string, unknown>;
+  error?: string;
+  /** Theme snapshot after the turn */
+  commit?: string;
+  created_at: string;
+  started_at?: string;
+  completed_at?: string;
+}
+
+export interface TranscriptPageResponse {
+  success: boolean;
+  message: string;
+  data: {
+    env_id: string;
+    total: number;
+    offset: number;
+    limit: number;
+    /** Oldest first */
+    turns: TranscriptTurn[];
+  };
+}
+
+export interface SessionBudget {
+  session_id: string;
+  max_cost_usd?: number;
+  max_tokens?: number;
+  /** Set for this session rather than the default budget */
+  custom: boolean;
+  spent_cost_usd: number;
+  spent_tokens: number;
+  exceeded: boolean;
+}
+
+export interface UsageSummaryResponse {
+  success: boolean;
+  message: string;
+  data: {
+    totals: {
+      turns: number;
+      input_tokens: number;
+      cached_input_tokens: number;
+      output_tokens: number;
+      total_tokens: number;
+      cost_usd: number;
+      /** Turns whose model has no price (not included in cost_usd) */
+      unpriced_turns: number;
+    };
+    by_env: Record<string, {
+      turns: number;
+      input_tokens: number;
+      cached_input_tokens: number;
+      output_tokens: number;
+      total_tokens: number;
+      cost_usd: number;
+      /** Turns whose model has no price (not included in cost_usd) */
+      unpriced_turns: number;
+    }>;
+    by_session: Record<string, {
+      turns: number;
+      input_tokens: number;
+      cached_input_tokens: number;
+      output_tokens: number;
+      total_tokens: number;
+      cost_usd: number;
+      /** Turns whose model has no price (not included in cost_usd) */
+      unpriced_turns: number;
+    }>;
+    by_model: Record<string, {
+      turns: number;
+      input_tokens: number;
+      cached_input_tokens: number;
+      output_tokens: number;
+      total_tokens: number;
+      cost_usd: number;
+      /** Turns whose model has no price (not included in cost_usd) */
+      unpriced_turns: number;
+    }>;
+    /** Most recent first */
+    turns: {
+      turn_id: string;
+      env_id: string;
+      session_id: string;
+      model: string;
+      input_tokens: number;
+      cached_input_tokens: number;
+      output_tokens: number;
+      /** null when the model has no configured price */
+      cost_usd: number | null;
+      recorded_at: string;
+    }[];
+    budget?: SessionBudget;
+  };
+}
+
+export interface SessionBudgetResponse {
+  success: boolean;
+  message: string;
+  data: SessionBudget;
+}
+
+export interface DeadLetterDelivery {
+  id: string;
+  url: string;
+  /** Sent as Idempotency-Key, unchanged on replay */
+  idempotency_key: string;
+  attempts: number;
+  created_at: string;
+  last_attempt_at?: string;
+  next_attempt_at?: string;
+  /** HTTP status of the last attempt, if the receiver answered */
+  last_status?: number;
+  last_error?: string;
+  dead_at?: string;
+  /** Webhook payload */
+  payload: unknown;
+}
+
+export interface DeadLetterListResponse {
+  success: boolean;
+  message: string;
+  data: {
+    /** Newest first */
+    deliveries: DeadLetterDelivery[];
+    count: number;
+  };
+}
+
+export interface DeadLetterReplayResponse {
+  success: boolean;
+  message: string;
+  data: {
+    delivered: boolean;
+    delivery: DeadLetterDelivery;
+  };
+}
+
+export interface CodexMessageResponse {
+  success: boolean;
+  message: string;
+}
+
+export interface CodexThreadResponse {
+  success: boolean;
+  threadId: string;
+  config: CodexThreadRequest;
+}
+
+export interface CodexResumeResponse {
+  success: boolean;
+  threadId: string;
+  sessionId: string;
+}
+
+export interface CodexRunResponse {
+  success: boolean;
+  threadId: string;
+  /** Final response of the turn */
+  response: string;
+  items: Record<string, unknown>[];
+}
+
+export interface CodexEnvironmentRunResponse {
+  success: boolean;
+  envId: string;
+  /** Final response of the turn */
+  response: string;
+  items: Record<string, unknown>[];
+}
+
+export interface CodexQuickRunResponse {
+  success: boolean;
+  /** Final response of the turn */
+  response: string;
+  items: Record<string, unknown>[];
+}
+
+export interface CodexThreadListResponse {
+  success: boolean;
+  threads: string[];
+  count: number;
+}
+
+export interface CodexEnvironmentInfo {
+  envId: string;
+  workingDirectory: string;
+  model: string;
+  storeId?: string;
+  sessionId?: string;
+  createdAt: string;
+}
+
+export interface CodexEnvironmentResponse {
+  success: boolean;
+  environment: CodexEnvironmentInfo;
+}
+
+export interface CodexEnvironmentListResponse {
+  success: boolean;
+  environments: CodexEnvironmentInfo[];
+  count: number;
+}
+
+export interface CodexStreamEvent {
+  /** thread.started, turn.started, item.*, turn.completed, turn.failed or error */
+  type: string;
+  [key: string]: unknown;
+}
+
+/** What the turn changed in the theme */
+export interface ChangeSummaryOutput {
+  /** One or two sentences for the merchant */
+  summary: string;
+  changes: {
+    /** File path relative to the theme root */
+    path: string;
+    description: string;
+  }[];
+  /** Suggested next steps */
+  follow_ups: string[];
+}
+
+/** Sections to build or change, without editing files yet */
+export interface SectionPlanOutput {
+  sections: {
+    name: string;
+    /** e.g. sections/newsletter-signup.liquid */
+    file: string;
+    purpose: string;
+    /** IDs of the section's settings */
+    settings: string[];
+    /** Block types */
+    blocks: string[];
+  }[];
+  /** Templates the sections are added to */
+  templates: string[];
+  notes: string;
+}
+
+/** Issues found in the theme */
+export interface ThemeAuditOutput {
+  summary: string;
+  issues: {
+    path: string;
+    severity: 'low' | 'medium' | 'high';
+    category: 'performance' | 'accessibility' | 'seo' | 'code';
+    description: string;
+    suggestion: string;
+  }[];
+}
+
+/** JSON Schema limited to the keywords the server validates */
+export interface OutputJsonSchema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null' | ('string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null')[];
+  title?: string;
+  description?: string;
+  enum?: unknown[];
+  minLength?: number;
+  maxLength?: number;
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  items?: OutputJsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, OutputJsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | OutputJsonSchema;
+  anyOf?: OutputJsonSchema[];
+  default?: unknown;
+  examples?: unknown[];
+}
+
+/** JSON Schema of the final response (an object), limited to the keywords the server validates */
+export interface CustomOutputSchema {
+  type: 'object';
+  title?: string;
+  description?: string;
+  enum?: unknown[];
+  minLength?: number;
+  maxLength?: number;
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  items?: OutputJsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, OutputJsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | OutputJsonSchema;
+  anyOf?: OutputJsonSchema[];
+  default?: unknown;
+  examples?: unknown[];
+  $schema?: string;
+}
+
+export interface ThemeInfo {
+  name: string;
+  id: string;
+  role: string;
+}
+
+export interface ThemeListWebhookPayload {
+  success: boolean;
+  store_id?: string;
+  themes: ThemeInfo[];
+  error?: string;
+}
+
+export interface ThemeProgressWebhookPayload {
+  type: 'duplicate.started' | 'duplicate.progress' | 'duplicate.completed' | 'pull.attempt' | 'pull.completed' | 'codex.ready' | 'dev.started';
+  job_id?: string;
+  store_id?: string;
+  source_theme_id: string;
+  /** The duplicate, once created */
+  theme_id?: string;
+  /** From codex.ready on */
+  env_id?: string;
+  /** Since the download started */
+  elapsed_ms: number;
+  /** Of the finished stage */
+  duration_ms?: number;
+  /** pull.attempt */
+  attempt?: number;
+  /** pull.attempt */
+  max_attempts?: number;
+  /** duplicate.progress */
+  progress?: number;
+  /** duplicate.progress */
+  processing?: boolean;
+  /** duplicate.progress */
+  asset_count?: number;
+  /** duplicate.progress */
+  source_asset_count?: number;
+  /** pull.completed */
+  file_count?: number;
+  /** dev.started */
+  dev_server_port?: number;
+}
+
+export interface ThemeDownloadWebhookPayload {
+  success: boolean;
+  job_id?: string;
+  store_id?: string;
+  /** The duplicate the environment works on */
+  theme_id?: string;
+  env_id?: string;
+  dev_server_port?: number;
+  /** Path on the preview proxy that serves this environment's dev server */
+  preview_path?: string;
+  error?: string;
+}
+
+export interface ThemePushWebhookPayload {
+  success: boolean;
+  job_id?: string;
+  store_id?: string;
+  theme_id?: string;
+  env_id?: string;
+  published?: boolean;
+  error?: string;
+}
+
+export interface ChatUsage {
+  input_tokens: number;
+  cached_input_tokens: number;
+  output_tokens: number;
+  /** null when the model has no configured price */
+  cost_usd: number | null;
+}
+
+export interface FileChangeSummary {
+  path: string;
+  status: 'added' | 'modified' | 'deleted';
+  added: number;
+  removed: number;
+  binary?: boolean;
+}
+
+export interface ChatWebhookPayload {
+  success: boolean;
+  job_id?: string;
+  env_id?: string;
+  /** Final response of the turn */
+  response?: string;
+  /** Final response parsed as JSON, when output_schema was given and it matches */
+  structured?: Record<string, unknown>;
+  items?: Record<string, unknown>[];
+  error?: string;
+  cancelled?: boolean;
+  /** Snapshot of the theme after the turn, usable with /env/{envId}/rollback */
+  commit?: string;
+  /** Files changed by the turn */
+  changes?: FileChangeSummary[];
+  usage?: ChatUsage;
+}
+
+export interface AgentMessageItem {
+  id: string;
+  type: 'agent_message';
+  /** Natural-language text, or JSON when structured output is requested */
+  text: string;
+}
+
+export interface ReasoningItem {
+  id: string;
+  type: 'reasoning';
+  /** Reasoning summary */
+  text: string;
+}
+
+export interface CommandExecutionItem {
+  id: string;
+  type: 'command_execution';
+  command: string;
+  /** stdout and stderr captured so far */
+  aggregated_output: string;
+  /** Set once the command has exited */
+  exit_code?: number;
+  status: 'in_progress' | 'completed' | 'failed';
+}
+
+export interface FileChangeItem {
+  id: string;
+  type: 'file_change';
+  changes: {
+    path: string;
+    kind: 'add' | 'delete' | 'update';
+  }[];
+  status: 'completed' | 'failed';
+}
+
+export interface McpToolCallItem {
+  id: string;
+  type: 'mcp_tool_call';
+  server: string;
+  tool: string;
+  arguments: unknown;
+  result?: {
+    content: unknown[];
+    structured_content: unknown;
+  };
+  error?: {
+    message: string;
+  };
+  status: 'in_progress' | 'completed' | 'failed';
+}
+
+export interface WebSearchItem {
+  id: string;
+  type: 'web_search';
+  query: string;
+}
+
+export interface TodoListItem {
+  id: string;
+  type: 'todo_list';
+  /** Updated as steps are done; completed when the turn ends */
+  items: {
+    text: string;
+    completed: boolean;
+  }[];
+}
+
+export interface ErrorItem {
+  id: string;
+  type: 'error';
+  /** Non-fatal error */
+  message: string;
+}
+
+export type ChatStreamingItem = AgentMessageItem | ReasoningItem | CommandExecutionItem | FileChangeItem | McpToolCallItem | WebSearchItem | TodoListItem | ErrorItem;
+
+export interface ChatStreamingWebhookPayload {
+  success: boolean;
+  job_id?: string;
+  env_id?: string;
+  /** Increases across turns of the environment */
+  event_number?: number;
+  timestamp?: string;
+  /** thread.started, item.updated, turn.cancelled, events.batch, stream.completed, ... */
+  type?: string;
+  /** thread.started */
+  thread_id?: string;
+  item?: ChatStreamingItem;
+  /** turn.completed; ChatUsage for stream.completed */
+  usage?: unknown;
+  /** turn.failed and error */
+  error?: unknown;
+  /** error */
+  message?: string;
+  /** events.batch: the batched events */
+  events?: Record<string, unknown>[];
+  /** events.batch and stream.completed */
+  first_event_number?: number;
+  /** events.batch and stream.completed */
+  last_event_number?: number;
+  /** stream.completed */
+  total_events?: number;
+  /** stream.completed */
+  duration_ms?: number;
+  /** stream.completed, when output_schema was given and the final response matches */
+  structured?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export interface ThemeAgentClientOptions {
+  /** Base URL of the server, e.g. http://localhost:8000 */
+  baseUrl: string;
+  /** API key, sent as "Authorization: Bearer <key>" */
+  apiKey?: string;
+  /** Or: SERVICE_USERNAME and SERVICE_PASSWORD, sent as Basic Auth */
+  username?: string;
+  password?: string;
+  /** Headers added to every request */
+  headers?: Record<string, string>;
+  /** fetch implementation, defaults to the global fetch */
+  fetch?: typeof fetch;
+}
+
+interface RequestOptions {
+  query?: Record<string, string | number | boolean | undefined>;
+  body?: unknown;
+}
+
+/**
+ * A response with an error status. message is the message (or error) of the
+ * response body when it has one.
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly body: unknown
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export class ThemeAgentClient {
+  private readonly baseUrl: string;
+  private readonly headers: Record<string, string>;
+  private readonly fetch: typeof fetch;
+
+  constructor(options: ThemeAgentClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.headers = { ...options.headers };
+    this.fetch = options.fetch || ((input, init) => fetch(input, init));
+
+    if (options.apiKey) {
+      this.headers.Authorization = `Bearer ${options.apiKey}`;
+    } else if (options.username) {
+      this.headers.Authorization = `Basic ${btoa(`${options.username}:${options.password || ''}`)}`;
+    }
+  }
+
+  /**
+   * Duplicate, pull and set up a theme of a store
+   *
+   * `POST /selected-theme`
+   */
+  selectedTheme(body: ThemeDownloadRequest): Promise<ThemeJobResponse> {
+    return this.request('post', '/selected-theme', { body });
+  }
+
+  /**
+   * Push the local theme files, optionally publishing the theme
+   *
+   * `POST /theme/{themeId}/push`
+   */
+  themePush(themeId: string, body: ThemePushRequest = {}): Promise<ThemeJobResponse> {
+    return this.request('post', `/theme/${encodeURIComponent(themeId)}/push`, { body });
+  }
+
+  /**
+   * Health check
+   *
+   * `GET /health`
+   */
+  health(): Promise<HealthResponse> {
+    return this.request('get', '/health', {});
+  }
+
+  /**
+   * Chat with a Codex environment; the result is sent to the chat webhook
+   *
+   * `POST /chat`
+   */
+  chat(body: ChatRequest): Promise<ChatAcceptedResponse> {
+    return this.request('post', '/chat', { body });
+  }
+
+  /**
+   * Chat with a Codex environment; events are sent to the streaming webhook
+   *
+   * `POST /chat-streaming`
+   */
+  chatStreaming(body: ChatStreamingRequest): Promise<ChatAcceptedResponse> {
+    return this.request('post', '/chat-streaming', { body });
+  }
+
+  /**
+   * Running and queued turns of an environment
+   *
+   * `GET /chat/{envId}/queue`
+   */
+  chatQueue(envId: string): Promise<ChatQueueResponse> {
+    return this.request('get', `/chat/${encodeURIComponent(envId)}/queue`, {});
+  }
+
+  /**
+   * Cancel the running turn, or a specific turn
+   *
+   * `POST /chat/{envId}/cancel`
+   */
+  chatCancel(envId: string, body: ChatCancelRequest = {}): Promise<ChatCancelResponse> {
+    return this.request('post', `/chat/${encodeURIComponent(envId)}/cancel`, { body });
+  }
+
+  /**
+   * Cancel a queued prompt before it starts
+   *
+   * `DELETE /chat/{envId}/queue/{turnId}`
+   */
+  chatQueuedTurnCancel(envId: string, turnId: string): Promise<ChatQueuedTurnCancelResponse> {
+    return this.request('delete', `/chat/${encodeURIComponent(envId)}/queue/${encodeURIComponent(turnId)}`, {});
+  }
+
+  /**
+   * List background jobs, newest first
+   *
+   * `GET /jobs`
+   */
+  jobs(query: {
+    type?: 'theme.download' | 'theme.push' | 'chat' | 'chat.streaming';
+    status?: 'queued' | 'running' | 'succeeded' | 'failed';
+    env_id?: string;
+  } = {}): Promise<JobListResponse> {
+    return this.request('get', '/jobs', { query });
+  }
+
+  /**
+   * Status, timestamps and result or error of a job
+   *
+   * `GET /jobs/{id}`
+   */
+  job(id: string): Promise<JobResponse> {
+    return this.request('get', `/jobs/${encodeURIComponent(id)}`, {});
+  }
+
+  /**
+   * Theme snapshots of an environment, newest first
+   *
+   * `GET /env/{envId}/history`
+   */
+  envHistory(envId: string, query: {
+    /** Maximum number of snapshots (default: 50) */
+    limit?: number;
+  } = {}): Promise<EnvHistoryResponse> {
+    return this.request('get', `/env/${encodeURIComponent(envId)}/history`, { query });
+  }
+
+  /**
+   * Unified diff and per-file summary of what the agent changed
+   *
+   * `GET /env/{envId}/diff`
+   */
+  envDiff(envId: string, query: {
+    /** Base snapshot (default: the pulled baseline) */
+    from?: string;
+    /** Target snapshot (default: the current theme files) */
+    to?: string;
+    /** Show only the changes of one snapshot (overrides from/to) */
+    turn?: string;
+    /** Omit the unified diff text */
+    summary?: boolean;
+  } = {}): Promise<EnvDiffResponse> {
+    return this.request('get', `/env/${encodeURIComponent(envId)}/diff`, { query });
+  }
+
+  /**
+   * Restore the theme to an earlier snapshot; without a body, undo the last change
+   *
+   * `POST /env/{envId}/rollback`
+   */
+  envRollback(envId: string, body: RollbackRequest = {}): Promise<EnvRollbackResponse> {
+    return this.request('post', `/env/${encodeURIComponent(envId)}/rollback`, { body });
+  }
+
+  /**
+   * Status of the theme dev server of an environment
+   *
+   * `GET /env/{envId}/dev-server`
+   */
+  devServer(envId: string): Promise<DevServerResponse> {
+    return this.request('get', `/env/${encodeURIComponent(envId)}/dev-server`, {});
+  }
+
+  /**
+   * Restart the theme dev server; also starts a stopped or crashed server
+   *
+   * `POST /env/{envId}/dev-server/restart`
+   */
+  devServerRestart(envId: string): Promise<DevServerResponse> {
+    return this.request('post', `/env/${encodeURIComponent(envId)}/dev-server/restart`, {});
+  }
+
+  /**
+   * Stop the theme dev server until it is restarted
+   *
+   * `POST /env/{envId}/dev-server/stop`
+   */
+  devServerStop(envId: string): Promise<DevServerResponse> {
+    return this.request('post', `/env/${encodeURIComponent(envId)}/dev-server/stop`, {});
+  }
+
+  /**
+   * Recent output of the theme dev server
+   *
+   * `GET /env/{envId}/dev-server/logs`
+   */
+  devServerLogs(envId: string, query: {
+    /** Default: both, interleaved */
+    stream?: 'stdout' | 'stderr';
+    /** Maximum number of lines (default: 200) */
+    limit?: number;
+  } = {}): Promise<DevServerLogsResponse> {
+    return this.request('get', `/env/${encodeURIComponent(envId)}/dev-server/logs`, { query });
+  }
+
+  /**
+   * Chat turns of an environment, oldest first
+   *
+   * `GET /env/{envId}/transcript`
+   */
+  envTranscript(envId: string, query: {
+    /** Turns to skip (default: 0) */
+    offset?: number;
+    /** Maximum number of turns (default: 50) */
+    limit?: number;
+    /** Download the whole transcript as a file instead of a page */
+    format?: 'json' | 'markdown';
+  } = {}): Promise<TranscriptPageResponse> {
+    return this.request('get', `/env/${encodeURIComponent(envId)}/transcript`, { query });
+  }
+
+  /**
+   * Live streaming chat events of an environment (Server-Sent Events)
+   *
+   * `GET /env/{envId}/events`
+   */
+  envEvents(envId: string, query: {
+    /** Replay events after this number, for clients that cannot send Last-Event-ID */
+    last_event_id?: string;
+  } = {}): AsyncGenerator<ChatStreamingWebhookPayload> {
+    return this.stream('get', `/env/${encodeURIComponent(envId)}/events`, { query });
+  }
+
+  /**
+   * Token usage and cost, overall and per environment, session and model
+   *
+   * `GET /usage`
+   */
+  usage(query: {
+    env_id?: string;
+    /** Also returns the budget of the session */
+    session_id?: string;
+    model?: string;
+    /** Only count turns recorded from then on */
+    since?: string;
+    /** Most recent turns to list (default: 50) */
+    limit?: number;
+  } = {}): Promise<UsageSummaryResponse> {
+    return this.request('get', '/usage', { query });
+  }
+
+  /**
+   * Budget of a session and how much of it is spent
+   *
+   * `GET /usage/budgets/{sessionId}`
+   */
+  sessionBudget(sessionId: string): Promise<SessionBudgetResponse> {
+    return this.request('get', `/usage/budgets/${encodeURIComponent(sessionId)}`, {});
+  }
+
+  /**
+   * Set a session's own budget
+   *
+   * `PUT /usage/budgets/{sessionId}`
+   */
+  sessionBudgetSet(sessionId: string, body: SessionBudgetRequest = {}): Promise<SessionBudgetResponse> {
+    return this.request('put', `/usage/budgets/${encodeURIComponent(sessionId)}`, { body });
+  }
+
+  /**
+   * Remove a session's own budget so the default budget applies again
+   *
+   * `DELETE /usage/budgets/{sessionId}`
+   */
+  sessionBudgetDelete(sessionId: string): Promise<SessionBudgetResponse> {
+    return this.request('delete', `/usage/budgets/${encodeURIComponent(sessionId)}`, {});
+  }
+
+  /**
+   * Webhooks given up on after all retries, newest first
+   *
+   * `GET /webhooks/dead-letter`
+   */
+  deadLetters(): Promise<DeadLetterListResponse> {
+    return this.request('get', '/webhooks/dead-letter', {});
+  }
+
+  /**
+   * Send a dead-letter webhook again with a fresh retry budget
+   *
+   * `POST /webhooks/dead-letter/{id}/replay`
+   */
+  deadLetterReplay(id: string): Promise<DeadLetterReplayResponse> {
+    return this.request('post', `/webhooks/dead-letter/${encodeURIComponent(id)}/replay`, {});
+  }
+
+  /**
+   * Create a Codex thread
+   *
+   * `POST /api/codex/thread`
+   */
+  codexThread(body: CodexThreadRequest = {}): Promise<CodexThreadResponse> {
+    return this.request('post', '/api/codex/thread', { body });
+  }
+
+  /**
+   * Run a prompt on a thread
+   *
+   * `POST /api/codex/run`
+   */
+  codexRun(body: CodexRunRequest): Promise<CodexRunResponse> {
+    return this.request('post', '/api/codex/run', { body });
+  }
+
+  /**
+   * Run a prompt on a thread, streaming events (Server-Sent Events)
+   *
+   * `POST /api/codex/stream`
+   */
+  codexStream(body: CodexStreamRequest): AsyncGenerator<CodexStreamEvent> {
+    return this.stream('post', '/api/codex/stream', { body });
+  }
+
+  /**
+   * Cancel the turn running on a thread
+   *
+   * `POST /api/codex/thread/{threadId}/cancel`
+   */
+  codexThreadCancel(threadId: string): Promise<CodexMessageResponse> {
+    return this.request('post', `/api/codex/thread/${encodeURIComponent(threadId)}/cancel`, {});
+  }
+
+  /**
+   * Resume an existing Codex thread
+   *
+   * `POST /api/codex/resume`
+   */
+  codexResume(body: CodexResumeRequest): Promise<CodexResumeResponse> {
+    return this.request('post', '/api/codex/resume', { body });
+  }
+
+  /**
+   * Delete a thread
+   *
+   * `DELETE /api/codex/thread/{threadId}`
+   */
+  codexThreadDelete(threadId: string): Promise<CodexMessageResponse> {
+    return this.request('delete', `/api/codex/thread/${encodeURIComponent(threadId)}`, {});
+  }
+
+  /**
+   * List threads
+   *
+   * `GET /api/codex/threads`
+   */
+  codexThreads(): Promise<CodexThreadListResponse> {
+    return this.request('get', '/api/codex/threads', {});
+  }
+
+  /**
+   * List environments
+   *
+   * `GET /api/codex/environments`
+   */
+  codexEnvironments(): Promise<CodexEnvironmentListResponse> {
+    return this.request('get', '/api/codex/environments', {});
+  }
+
+  /**
+   * Get an environment
+   *
+   * `GET /api/codex/environment/{envId}`
+   */
+  codexEnvironment(envId: string): Promise<CodexEnvironmentResponse> {
+    return this.request('get', `/api/codex/environment/${encodeURIComponent(envId)}`, {});
+  }
+
+  /**
+   * Remove an environment
+   *
+   * `DELETE /api/codex/environment/{envId}`
+   */
+  codexEnvironmentDelete(envId: string): Promise<CodexMessageResponse> {
+    return this.request('delete', `/api/codex/environment/${encodeURIComponent(envId)}`, {});
+  }
+
+  /**
+   * Run a prompt on an environment
+   *
+   * `POST /api/codex/environment/{envId}/run`
+   */
+  codexEnvironmentRun(envId: string, body: CodexEnvironmentRunRequest): Promise<CodexEnvironmentRunResponse> {
+    return this.request('post', `/api/codex/environment/${encodeURIComponent(envId)}/run`, { body });
+  }
+
+  /**
+   * Create a thread, run a prompt and return the result
+   *
+   * `POST /api/codex/quick-run`
+   */
+  codexQuickRun(body: CodexQuickRunRequest): Promise<CodexQuickRunResponse> {
+    return this.request('post', '/api/codex/quick-run', { body });
+  }
+  private async send(method: string, path: string, options: RequestOptions): Promise<Response> {
+    const url = new URL(this.baseUrl + path);
+
+    for (const [key, value] of Object.entries(options.query || {})) {
+      if (value !== undefined) {
+        url.searchParams.set(key, String(value));
+      }
+    }
+
+    const headers = { ...this.headers };
+
+    if (options.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    const response = await this.fetch(url.toString(), {
+      method: method.toUpperCase(),
+      headers,
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      let body: unknown = text;
+
+      try {
+        body = JSON.parse(text);
+      } catch {
+        // Not JSON, keep the text
+      }
+
+      const detail = typeof body === 'object' && body !== null ? (body as { message?: string; error?: string }) : {};
+      throw new ApiError(detail.message || detail.error || `${response.status} ${response.statusText}`, response.status, body);
+    }
+
+    return response;
+  }
+
+  private async request<T>(method: string, path: string, options: RequestOptions): Promise<T> {
+    const response = await this.send(method, path, options);
+    return (await response.json()) as T;
+  }
+
+  /**
+   * Events of a Server-Sent Events response, one per "data:" field
+   */
+  private async *stream<T>(method: string, path: string, options: RequestOptions): AsyncGenerator<T> {
+    const response = await this.send(method, path, options);
+
+    if (!response.body) {
+      return;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const events = buffer.split('\n\n');
+      buffer = done ? '' : events.pop() || '';
+
+      for (const event of events) {
+        const data = event
+          .split('\n')
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.substring(5).trimStart())
+          .join('\n');
+
+        if (data) {
+          yield JSON.parse(data) as T;
+        }
+      }
+
+      if (done) {
+        return;
+      }
+    }
+  }
+}
@@ -1,7 +1,15 @@
 import dotenv from 'dotenv';
+import logger from '../utils/logger';
+import { CodexApprovalMode, CodexSandboxMode } from '../types/theme.types';
 
 dotenv.config();
 
+// Codex sandbox modes, least to most access
+export const SANDBOX_MODES: CodexSandboxMode[] = ['read-only', 'workspace-write', 'danger-full-access'];
+
+// Codex approval modes, most to least supervision
+export const APPROVAL_MODES: CodexApprovalMode[] = ['untrusted', 'on-request', 'on-failure', 'never'];
+
 interface Config {
   THEME_DOWNLOAD_PATH: string;
   PORT: number;
@@ -10,11 +18,72 @@ interface Config {
   SESSION_ID: string;
   THEME_PULL_MAX_RETRIES: number;
   THEME_PULL_RETRY_DELAY_SECONDS: number;
-  THEME_DUPLICATE_WAIT_SECONDS: number;
+  THEME_DUPLICATE_TIMEOUT_SECONDS: number;
+  THEME_DUPLICATE_POLL_INITIAL_SECONDS: number;
+  THEME_DUPLICATE_POLL_MAX_SECONDS: number;
+  THEME_DUPLICATE_MIN_WAIT_SECONDS: number;
   WEBHOOK_USERNAME: string;
   WEBHOOK_PASSWORD: string;
   WEBHOOK_URL: string;
+  WEBHOOK_SIGNING_SECRET: string;
+  WEBHOOK_OUTBOX_PATH: string;
+  WEBHOOK_MAX_ATTEMPTS: number;
+  WEBHOOK_RETRY_BASE_SECONDS: number;
+  WEBHOOK_RETRY_MAX_SECONDS: number;
+  WEBHOOK_DEAD_LETTER_MAX: number;
+  WEBHOOK_DEAD_LETTER_TTL_DAYS: number;
+  AUTH_REQUIRED: boolean;
+  API_CLIENTS_PATH?: string;
+  AUTH_HMAC_TOLERANCE_SECONDS: number;
+  CHAT_STREAMING_BATCH_WINDOW_MS: number;
+  CHAT_STREAMING_BATCH_MAX_EVENTS: number;
+  CHAT_STREAMING_INCLUDE_EVENTS: string[];
+  CHAT_STREAMING_INCLUDE_ITEMS: string[];
+  CHAT_STREAMING_EXCLUDE_EVENTS: string[];
+  CHAT_STREAMING_EXCLUDE_ITEMS: string[];
+  ENV_EVENT_LOG_SIZE: number;
   CODEX_MODEL: string;
+  CODEX_USER_MAX_SANDBOX_MODE: CodexSandboxMode;
+  CODEX_USER_MIN_APPROVAL_MODE: CodexApprovalMode;
+  CODEX_ADMIN_MAX_SANDBOX_MODE: CodexSandboxMode;
+  CODEX_ADMIN_MIN_APPROVAL_MODE: CodexApprovalMode;
+  ENVIRONMENT_STORE_PATH: string;
+  TRANSCRIPT_STORE_PATH: string;
+  USAGE_STORE_PATH: string;
+  MODEL_PRICES_PATH?: string;
+  SESSION_BUDGET_USD?: number;
+  SESSION_BUDGET_TOKENS?: number;
+  STORES_CONFIG_PATH?: string;
+  DEV_SERVER_PORT_START: number;
+  DEV_SERVER_PORT_END: number;
+  DEV_SERVER_REGISTRY_PATH: string;
+  DEV_SERVER_LOG_LINES: number;
+  DEV_SERVER_MAX_RESTARTS: number;
+  PREVIEW_PROXY_PORT: number;
+  THEME_BACKEND: 'cli' | 'admin-api';
+  SHOPIFY_ADMIN_API_VERSION: string;
+  SHOPIFY_ADMIN_ACCESS_TOKEN: string;
+  SHOPIFY_ADMIN_API_URL?: string;
+}
+
+/**
+ * Parse a comma-separated list, e.g. "thread.started, turn.completed"
+ */
+function parseList(value: string): string[] {
+  return value.split(',').map((entry) => entry.trim()).filter(Boolean);
+}
+
+/**
+ * Read an environment variable that must be one of a list of values
+ */
+function parseChoice<T extends string>(name: string, choices: T[], defaultValue: T): T {
+  const value = process.env[name] || defaultValue;
+
+  if (!choices.includes(value as T)) {
+    throw new Error(`${name} must be one of: ${choices.join(', ')}`);
+  }
+
+  return value as T;
 }
 
 function validateEnvironment(): Config {
@@ -26,16 +95,20 @@ function validateEnvironment(): Config {
   
   const webhookPassword = process.env.SERVICE_PASSWORD;
   const webhookUrl = process.env.WEBHOOK_URL;
+  const webhookSigningSecret = process.env.WEBHOOK_SIGNING_SECRET;
+  const storesConfigPath = process.env.STORES_CONFIG_PATH;
+  const themeBackend = process.env.THEME_BACKEND || 'cli';
 
   if (!themeDownloadPath) {
     throw new Error('THEME_DOWNLOAD_PATH environment variable is required');
   }
 
-  if (!storeName) {
+  // The env store credentials are optional when additional stores are configured in a file
+  if (!storeName && !storesConfigPath) {
     throw new Error('SHOPIFY_STORE_URL environment variable is required');
   }
 
-  if (!shopifyThemePassword) {
+  if (storeName && !shopifyThemePassword) {
     throw new Error('SHOPIFY_THEME_PASSWORD environment variable is required');
   }
 
@@ -55,19 +128,75 @@ function validateEnvironment(): Config {
     throw new Error('WEBHOOK_URL environment variable is required');
   }
 
+  // SERVICE_PASSWORD also authenticates inbound requests, so anyone who can verify a webhook can call the API.
+  // Earlier versions signed with it, so existing installs keep working until a secret is set.
+  if (!webhookSigningSecret || webhookSigningSecret === webhookPassword) {
+    logger.warn('Webhooks are signed with SERVICE_PASSWORD, which also grants API access; set WEBHOOK_SIGNING_SECRET to a separate secret');
+  }
+
+  if (themeBackend !== 'cli' && themeBackend !== 'admin-api') {
+    throw new Error('THEME_BACKEND must be "cli" or "admin-api"');
+  }
+
   return {
     THEME_DOWNLOAD_PATH: themeDownloadPath || './themes',
     PORT: parseInt(process.env.PORT || '8000', 10),
-    SHOPIFY_STORE_URL: storeName,
-    SHOPIFY_THEME_PASSWORD: shopifyThemePassword,
+    SHOPIFY_STORE_URL: storeName || '',
+    SHOPIFY_THEME_PASSWORD: shopifyThemePassword || '',
     SESSION_ID: sessionId,
     THEME_PULL_MAX_RETRIES:  3,
     THEME_PULL_RETRY_DELAY_SECONDS:  10,
-    THEME_DUPLICATE_WAIT_SECONDS: 10,
+    THEME_DUPLICATE_TIMEOUT_SECONDS: parseInt(process.env.THEME_DUPLICATE_TIMEOUT_SECONDS || '300', 10),
+    THEME_DUPLICATE_POLL_INITIAL_SECONDS: parseFloat(process.env.THEME_DUPLICATE_POLL_INITIAL_SECONDS || '2'),
+    THEME_DUPLICATE_POLL_MAX_SECONDS: parseFloat(process.env.THEME_DUPLICATE_POLL_MAX_SECONDS || '30'),
+    // Backends that cannot count files (the CLI) wait at least this long, like the former fixed wait
+    THEME_DUPLICATE_MIN_WAIT_SECONDS: parseFloat(process.env.THEME_DUPLICATE_MIN_WAIT_SECONDS || '10'),
     WEBHOOK_USERNAME: webhookUsername,
     WEBHOOK_PASSWORD: webhookPassword,
     WEBHOOK_URL: webhookUrl,
-    CODEX_MODEL: process.env.CODEX_MODEL || 'gpt-5.1-codex-max'
+    WEBHOOK_SIGNING_SECRET: webhookSigningSecret || webhookPassword,
+    WEBHOOK_OUTBOX_PATH: process.env.WEBHOOK_OUTBOX_PATH || './data/webhook-outbox.jsonl',
+    WEBHOOK_MAX_ATTEMPTS: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '6', 10),
+    WEBHOOK_RETRY_BASE_SECONDS: parseFloat(process.env.WEBHOOK_RETRY_BASE_SECONDS || '2'),
+    WEBHOOK_RETRY_MAX_SECONDS: parseFloat(process.env.WEBHOOK_RETRY_MAX_SECONDS || '300'),
+    WEBHOOK_DEAD_LETTER_MAX: parseInt(process.env.WEBHOOK_DEAD_LETTER_MAX || '1000', 10),
+    WEBHOOK_DEAD_LETTER_TTL_DAYS: parseFloat(process.env.WEBHOOK_DEAD_LETTER_TTL_DAYS || '30'),
+    // Inbound requests need credentials unless explicitly turned off (e.g. behind a trusted gateway)
+    AUTH_REQUIRED: process.env.AUTH_REQUIRED !== 'false',
+    API_CLIENTS_PATH: process.env.API_CLIENTS_PATH || undefined,
+    AUTH_HMAC_TOLERANCE_SECONDS: parseInt(process.env.AUTH_HMAC_TOLERANCE_SECONDS || '300', 10),
+    CHAT_STREAMING_BATCH_WINDOW_MS: parseInt(process.env.CHAT_STREAMING_BATCH_WINDOW_MS || '0', 10),
+    CHAT_STREAMING_BATCH_MAX_EVENTS: parseInt(process.env.CHAT_STREAMING_BATCH_MAX_EVENTS || '50', 10),
+    CHAT_STREAMING_INCLUDE_EVENTS: parseList(
+      process.env.CHAT_STREAMING_INCLUDE_EVENTS
+        || 'thread.started,turn.completed,turn.cancelled,item.started,item.updated,item.completed'
+    ),
+    CHAT_STREAMING_INCLUDE_ITEMS: parseList(process.env.CHAT_STREAMING_INCLUDE_ITEMS || 'agent_message,reasoning'),
+    CHAT_STREAMING_EXCLUDE_EVENTS: parseList(process.env.CHAT_STREAMING_EXCLUDE_EVENTS || ''),
+    CHAT_STREAMING_EXCLUDE_ITEMS: parseList(process.env.CHAT_STREAMING_EXCLUDE_ITEMS || ''),
+    ENV_EVENT_LOG_SIZE: parseInt(process.env.ENV_EVENT_LOG_SIZE || '1000', 10),
+    CODEX_MODEL: process.env.CODEX_MODEL || 'gpt-5.1-codex-max',
+    CODEX_USER_MAX_SANDBOX_MODE: parseChoice('CODEX_USER_MAX_SANDBOX_MODE', SANDBOX_MODES, 'workspace-write'),
+    CODEX_USER_MIN_APPROVAL_MODE: parseChoice('CODEX_USER_MIN_APPROVAL_MODE', APPROVAL_MODES, 'on-request'),
+    CODEX_ADMIN_MAX_SANDBOX_MODE: parseChoice('CODEX_ADMIN_MAX_SANDBOX_MODE', SANDBOX_MODES, 'danger-full-access'),
+    CODEX_ADMIN_MIN_APPROVAL_MODE: parseChoice('CODEX_ADMIN_MIN_APPROVAL_MODE', APPROVAL_MODES, 'never'),
+    ENVIRONMENT_STORE_PATH: process.env.ENVIRONMENT_STORE_PATH || './data/environments.json',
+    TRANSCRIPT_STORE_PATH: process.env.TRANSCRIPT_STORE_PATH || './data/transcripts',
+    USAGE_STORE_PATH: process.env.USAGE_STORE_PATH || './data/usage.json',
+    MODEL_PRICES_PATH: process.env.MODEL_PRICES_PATH || undefined,
+    SESSION_BUDGET_USD: process.env.SESSION_BUDGET_USD ? parseFloat(process.env.SESSION_BUDGET_USD) : undefined,
+    SESSION_BUDGET_TOKENS: process.env.SESSION_BUDGET_TOKENS ? parseInt(process.env.SESSION_BUDGET_TOKENS, 10) : undefined,
+    STORES_CONFIG_PATH: storesConfigPath,
+    DEV_SERVER_PORT_START: parseInt(process.env.DEV_SERVER_PORT_START || '9292', 10),
+    DEV_SERVER_PORT_END: parseInt(process.env.DEV_SERVER_PORT_END || '9391', 10),
+    DEV_SERVER_REGISTRY_PATH: process.env.DEV_SERVER_REGISTRY_PATH || './data/dev-servers.json',
+    DEV_SERVER_LOG_LINES: parseInt(process.env.DEV_SERVER_LOG_LINES || '500', 10),
+    DEV_SERVER_MAX_RESTARTS: parseInt(process.env.DEV_SERVER_MAX_RESTARTS || '5', 10),
+    PREVIEW_PROXY_PORT: parseInt(process.env.PREVIEW_PROXY_PORT || '3005', 10),
+    THEME_BACKEND: themeBackend,
+    SHOPIFY_ADMIN_API_VERSION: process.env.SHOPIFY_ADMIN_API_VERSION || '2024-10',
+    SHOPIFY_ADMIN_ACCESS_TOKEN: process.env.SHOPIFY_ADMIN_ACCESS_TOKEN || '',
+    SHOPIFY_ADMIN_API_URL: process.env.SHOPIFY_ADMIN_API_URL
   };
 }
 
@@ -5,9 +5,12 @@
  * and don't block the server.
  */
 
-import axios from 'axios';
+import { ThemeAgentClient } from '../client';
 
-const BASE_URL = 'http://localhost:8000';
+const client = new ThemeAgentClient({
+  baseUrl: process.env.API_BASE_URL || 'http://localhost:8000',
+  apiKey: process.env.API_KEY
+});
 
 /**
  * Test that requests return immediately while processing in background
@@ -28,7 +31,7 @@ async function testBackgroundExecution() {
 
   try {
     // Send chat request
-    const response = await axios.post(`${BASE_URL}/chat`, {
+    const response = await client.chat({
       env_id: envId,
       prompt: 'This is a test prompt that will take some time to process'
     });
@@ -37,7 +40,7 @@ async function testBackgroundExecution() {
 
     console.log('✓ Response received');
     console.log(`  Response time: ${responseTime}ms`);
-    console.log(`  Message: ${response.data.message}`);
+    console.log(`  Message: ${response.message}`);
     console.log();
 
     if (responseTime < 1000) {
@@ -73,15 +76,15 @@ async function testConcurrentRequests() {
   try {
     // Send 3 requests at the same time
     const promises = [
-      axios.post(`${BASE_URL}/chat`, {
+      client.chat({
         env_id: envId,
         prompt: 'Request 1: Count files'
       }),
-      axios.post(`${BASE_URL}/chat`, {
+      client.chat({
         env_id: envId,
         prompt: 'Request 2: List templates'
       }),
-      axios.post(`${BASE_URL}/chat`, {
+      client.chat({
         env_id: envId,
         prompt: 'Request 3: Analyze structure'
       })
@@ -105,7 +108,7 @@ async function testConcurrentRequests() {
     console.log();
 
     responses.forEach((response, index) => {
-      console.log(`Request ${index + 1}: ${response.data.message}`);
+      console.log(`Request ${index + 1}: ${response.message}`);
     });
     console.log();
 
@@ -131,7 +134,7 @@ async function testStreamingBackground() {
   const startTime = Date.now();
 
   try {
-    const response = await axios.post(`${BASE_URL}/chat-streaming`, {
+    const response = await client.chatStreaming({
       env_id: envId,
       prompt: 'This is a long-running streaming test'
     });
@@ -140,7 +143,7 @@ async function testStreamingBackground() {
 
     console.log('✓ Response received');
     console.log(`  Response time: ${responseTime}ms`);
-    console.log(`  Message: ${response.data.message}`);
+    console.log(`  Message: ${response.message}`);
     console.log();
 
     if (responseTime < 1000) {
@@ -174,7 +177,7 @@ async function visualDemo() {
     console.log('00:00.000 - Sending chat request...');
     const startTime = Date.now();
 
-    const response = await axios.post(`${BASE_URL}/chat`, {
+    const response = await client.chat({
       env_id: envId,
       prompt: 'Add a newsletter section'
     });
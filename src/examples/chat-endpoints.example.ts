@@ -2,13 +2,29 @@
  * Example: Using Chat Endpoints
  *
  * Demonstrates how to use /chat and /chat-streaming endpoints
- * that send webhook notifications on completion
+ * that send webhook notifications on completion, through the
+ * generated client (src/client)
  */
 
-import axios from 'axios';
+import { ApiError, ThemeAgentClient } from '../client';
 import { config } from '../config/environment';
 
-const BASE_URL = 'http://localhost:8000';
+const client = new ThemeAgentClient({
+  baseUrl: process.env.API_BASE_URL || 'http://localhost:8000',
+  apiKey: process.env.API_KEY
+});
+
+/**
+ * Log an error of the client, with the response body for API errors
+ */
+function logError(error: unknown) {
+  if (error instanceof ApiError) {
+    console.error(`❌ Error ${error.status}:`, error.message);
+    console.error('Response:', error.body);
+  } else {
+    console.error('❌ Error:', (error as Error).message);
+  }
+}
 
 /**
  * Example 1: Using /chat endpoint (non-streaming)
@@ -28,32 +44,30 @@ async function chatExample() {
     console.log('Prompt: "Add a newsletter signup section to the footer"');
     console.log();
 
-    const response = await axios.post(`${BASE_URL}/chat`, {
+    const response = await client.chat({
       env_id: envId,
       prompt: 'Add a newsletter signup section to the footer',
       model: 'gpt-5.1-codex-max' // Optional
     });
 
     console.log('✓ Chat request accepted');
-    console.log('Response:', response.data);
+    console.log('Response:', response);
     console.log();
     console.log('Webhook will be sent to:');
-    console.log(`  ${config.WEBHOOK_URL}/chat/${config.SESSION_ID}`);
+    console.log(`  ${config.WEBHOOK_URL}/chat/${response.data.session_id}`);
     console.log();
-    console.log('Expected webhook payload:');
+    console.log('Expected webhook payload (ChatWebhookPayload):');
     console.log(`  {
     "success": true,
+    "job_id": "${response.data.job_id}",
     "env_id": "${envId}",
     "response": "I've added a newsletter signup section...",
     "items": [...]
   }`);
     console.log();
 
-  } catch (error: any) {
-    console.error('❌ Error:', error.message);
-    if (error.response) {
-      console.error('Response:', error.response.data);
-    }
+  } catch (error) {
+    logError(error);
   }
 }
 
@@ -74,37 +88,37 @@ async function chatStreamingExample() {
     console.log('Prompt: "Analyze the theme structure and suggest improvements"');
     console.log();
 
-    const response = await axios.post(`${BASE_URL}/chat-streaming`, {
+    const response = await client.chatStreaming({
       env_id: envId,
       prompt: 'Analyze the theme structure and suggest improvements',
-      model: 'gpt-5.1-codex-max' // Optional
+      model: 'gpt-5.1-codex-max', // Optional
+      events: { include: { types: ['item.completed', 'turn.completed'] } } // Optional
     });
 
     console.log('✓ Streaming chat request accepted');
-    console.log('Response:', response.data);
+    console.log('Response:', response);
     console.log();
-    console.log('Webhook will be sent to:');
-    console.log(`  ${config.WEBHOOK_URL}/chat-streaming/${config.SESSION_ID}`);
+    console.log('Webhooks will be sent to:');
+    console.log(`  ${config.WEBHOOK_URL}/chat-streaming/${response.data.session_id}`);
     console.log();
-    console.log('Expected webhook payload:');
+    console.log('Last webhook payload (ChatStreamingWebhookPayload):');
     console.log(`  {
     "success": true,
+    "job_id": "${response.data.job_id}",
     "env_id": "${envId}",
-    "events_count": 42,
-    "final_response": "Based on my analysis..."
+    "type": "stream.completed",
+    "total_events": 42,
+    "duration_ms": 53120
   }`);
     console.log();
 
-  } catch (error: any) {
-    console.error('❌ Error:', error.message);
-    if (error.response) {
-      console.error('Response:', error.response.data);
-    }
+  } catch (error) {
+    logError(error);
   }
 }
 
 /**
- * Example 3: Error handling - Invalid environment
+ * Example 3: Error handling
  */
 async function errorHandlingExample() {
   console.log('='.repeat(70));
@@ -112,19 +126,32 @@ async function errorHandlingExample() {
   console.log('='.repeat(70));
   console.log();
 
+  console.log('Sending request with an empty prompt...');
+
   try {
-    console.log('Sending request with invalid env_id...');
+    await client.chat({
+      env_id: 'themes_123456789',
+      prompt: ''
+    });
+  } catch (error) {
+    // ApiError 400: Invalid request: body.prompt must not be empty
+    logError(error);
+  }
+  console.log();
+
+  console.log('Sending request with invalid env_id...');
 
-    const response = await axios.post(`${BASE_URL}/chat`, {
+  try {
+    const response = await client.chat({
       env_id: 'invalid_env_id',
       prompt: 'Test prompt'
     });
 
     console.log('✓ Request accepted (will fail in background)');
-    console.log('Response:', response.data);
+    console.log('Response:', response);
     console.log();
     console.log('Error webhook will be sent to:');
-    console.log(`  ${config.WEBHOOK_URL}/chat/${config.SESSION_ID}`);
+    console.log(`  ${config.WEBHOOK_URL}/chat/${response.data.session_id}`);
     console.log();
     console.log('Expected error webhook payload:');
     console.log(`  {
@@ -134,8 +161,8 @@ async function errorHandlingExample() {
   }`);
     console.log();
 
-  } catch (error: any) {
-    console.error('❌ Error:', error.message);
+  } catch (error) {
+    logError(error);
   }
 }
 
@@ -153,16 +180,16 @@ async function completeWorkflowExample() {
     console.log('Step 1: List available environments');
     console.log('-'.repeat(70));
 
-    const envResponse = await axios.get(`${BASE_URL}/api/codex/environments`);
-    console.log('Environments:', envResponse.data);
+    const { environments } = await client.codexEnvironments();
+    console.log('Environments:', environments);
     console.log();
 
-    if (envResponse.data.environments.length === 0) {
+    if (environments.length === 0) {
       console.log('⚠️  No environments found. Download a theme first.');
       return;
     }
 
-    const envId = envResponse.data.environments[0].envId;
+    const envId = environments[0].envId;
     console.log(`Using environment: ${envId}`);
     console.log();
 
@@ -170,20 +197,24 @@ async function completeWorkflowExample() {
     console.log('Step 2: Send chat request');
     console.log('-'.repeat(70));
 
-    const chatResponse = await axios.post(`${BASE_URL}/chat`, {
+    const chatResponse = await client.chat({
       env_id: envId,
       prompt: 'List all liquid template files in the theme'
     });
 
     console.log('✓ Chat request sent');
-    console.log('Response:', chatResponse.data);
+    console.log('Response:', chatResponse);
     console.log();
 
-    // Step 3: Wait for webhook (in production, webhook receiver handles this)
-    console.log('Step 3: Webhook notification');
+    // Step 3: Follow the job (the webhook receiver gets the same result)
+    console.log('Step 3: Job status');
     console.log('-'.repeat(70));
+
+    const { data: job } = await client.job(chatResponse.data.job_id);
+    console.log(`Job ${job.id} is ${job.status}`);
+    console.log();
     console.log('Webhook will be sent to:');
-    console.log(`  ${config.WEBHOOK_URL}/chat/${config.SESSION_ID}`);
+    console.log(`  ${config.WEBHOOK_URL}/chat/${chatResponse.data.session_id}`);
     console.log();
     console.log('Your webhook endpoint should:');
     console.log('  1. Receive POST request');
@@ -192,11 +223,8 @@ async function completeWorkflowExample() {
     console.log('  4. Process payload.response or handle payload.error');
     console.log();
 
-  } catch (error: any) {
-    console.error('❌ Error:', error.message);
-    if (error.response) {
-      console.error('Response:', error.response.data);
-    }
+  } catch (error) {
+    logError(error);
   }
 }
 
@@ -213,6 +241,7 @@ function webhookReceiverExample() {
   console.log();
   console.log(`
 import express from 'express';
+import { ChatStreamingWebhookPayload, ChatWebhookPayload } from 'shopify-theme-agent-client';
 
 const app = express();
 app.use(express.json());
@@ -220,14 +249,14 @@ app.use(express.json());
 // Webhook endpoint for /chat
 app.post('/chat/:sessionId', (req, res) => {
   const { sessionId } = req.params;
-  const payload = req.body;
+  const payload: ChatWebhookPayload = req.body;
 
   console.log('Chat webhook received:', sessionId);
 
   if (payload.success) {
     console.log('Environment:', payload.env_id);
     console.log('Response:', payload.response);
-    console.log('Items:', payload.items);
+    console.log('Changed files:', payload.changes);
 
     // Process the response
     // e.g., save to database, send to client, etc.
@@ -244,20 +273,18 @@ app.post('/chat/:sessionId', (req, res) => {
 // Webhook endpoint for /chat-streaming
 app.post('/chat-streaming/:sessionId', (req, res) => {
   const { sessionId } = req.params;
-  const payload = req.body;
+  const payload: ChatStreamingWebhookPayload = req.body;
 
-  console.log('Streaming chat webhook received:', sessionId);
+  console.log('Streaming chat webhook received:', sessionId, payload.type);
 
-  if (payload.success) {
-    console.log('Environment:', payload.env_id);
-    console.log('Events count:', payload.events_count);
-    console.log('Final response:', payload.final_response);
+  if (payload.item?.type === 'agent_message') {
+    console.log('Agent:', payload.item.text);
+  }
 
-    // Process the response
-  } else {
+  if (payload.type === 'stream.completed') {
+    console.log('Events:', payload.total_events);
+  } else if (!payload.success) {
     console.error('Streaming chat failed:', payload.error);
-
-    // Handle error
   }
 
   res.json({ received: true });
@@ -280,21 +307,21 @@ async function differentModelsExample() {
   const envId = 'themes_123456789';
 
   console.log('Using gpt-5-codex-mini for quick tasks:');
-  const quickResponse = await axios.post(`${BASE_URL}/chat`, {
+  const quickResponse = await client.chat({
     env_id: envId,
     prompt: 'Count the number of sections in the theme',
     model: 'gpt-5-codex-mini'
   });
-  console.log('✓', quickResponse.data.message);
+  console.log('✓', quickResponse.message);
   console.log();
 
   console.log('Using gpt-5.1-codex-max for complex tasks:');
-  const complexResponse = await axios.post(`${BASE_URL}/chat`, {
+  const complexResponse = await client.chat({
     env_id: envId,
     prompt: 'Refactor the theme to improve performance and SEO',
     model: 'gpt-5.1-codex-max'
   });
-  console.log('✓', complexResponse.data.message);
+  console.log('✓', complexResponse.message);
   console.log();
 }
 
@@ -309,9 +336,10 @@ async function main() {
   console.log();
 
   console.log('Note: These examples assume:');
-  console.log('  1. Server is running on http://localhost:8000');
-  console.log('  2. At least one theme environment exists');
-  console.log('  3. WEBHOOK_URL and SESSION_ID are configured');
+  console.log('  1. Server is running on API_BASE_URL (default http://localhost:8000)');
+  console.log('  2. API_KEY is a key with the chat and codex-admin scopes');
+  console.log('  3. At least one theme environment exists');
+  console.log('  4. WEBHOOK_URL is configured');
   console.log();
   console.log('Press Ctrl+C to exit, or uncomment examples below to run.');
   console.log();
@@ -4,20 +4,51 @@ import { config } from './config/environment';
 import themeRoutes from './routes/theme.routes';
 import codexRoutes from './routes/codex.routes';
 import chatRoutes from './routes/chat.routes';
+import jobRoutes from './routes/job.routes';
+import envRoutes from './routes/env.routes';
+import storeRoutes from './routes/store.routes';
+import webhookRoutes from './routes/webhook.routes';
+import usageRoutes from './routes/usage.routes';
+import openapiRoutes from './routes/openapi.routes';
+import { attachEnvironmentEventSocket } from './routes/env-events.socket';
+import { authenticate, captureRawBody, requireScope } from './middleware/auth.middleware';
+import codexService from './services/codex.instance';
+import webhookDispatcher from './services/webhook-dispatcher.instance';
 
 const app = express();
 
 // Middleware
-app.use(express.json());
+app.use(express.json({ verify: captureRawBody }));
+app.use(authenticate);
 
 // Routes
 app.use('/', themeRoutes);
-app.use('/api', codexRoutes);
+app.use('/api', requireScope('codex-admin'), codexRoutes);
 app.use('/', chatRoutes);
+app.use('/', jobRoutes);
+app.use('/', envRoutes);
+app.use('/', storeRoutes);
+app.use('/', webhookRoutes);
+app.use('/', usageRoutes);
+app.use('/', openapiRoutes);
 
 // Start server
 const PORT = config.PORT;
 
-app.listen(PORT, () => {
-  logger.info(`Shopify Theme Manager running on port ${PORT}`);
+// Resume webhooks that were still being retried when the server stopped
+webhookDispatcher.restore().catch((error) => {
+  logger.error(`Error restoring webhook outbox: ${error.message}`);
 });
+
+codexService.restoreEnvironments()
+  .catch((error) => {
+    logger.error(`Error restoring Codex environments: ${error.message}`);
+  })
+  .finally(() => {
+    const server = app.listen(PORT, () => {
+      logger.info(`Shopify Theme Manager running on port ${PORT}`);
+    });
+
+    // WebSocket subscriptions to environment events share the HTTP port
+    attachEnvironmentEventSocket(server);
+  });
@@ -0,0 +1,132 @@
+/**
+ * Auth Middleware
+ *
+ * Authenticates inbound requests (see ApiAuthService) and checks the scopes
+ * of the calling client per route
+ */
+
+import { IncomingMessage, ServerResponse } from 'http';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import logger from '../utils/logger';
+import { config } from '../config/environment';
+import apiAuthService from '../services/api-auth.instance';
+import { API_SCOPES, ApiClient, ApiScope } from '../services/api-auth.service';
+import { StandardAPIResponse } from '../types/theme.types';
+
+// Routes that answer without credentials
+const PUBLIC_PATHS = ['/health', '/openapi.json'];
+
+// Event streams are opened by EventSource/WebSocket clients that cannot set headers,
+// so only these accept the api_key query parameter
+const QUERY_KEY_PATH_PATTERN = /^\/env\/[^/]+\/events(\/ws)?$/;
+
+// Used for every request when AUTH_REQUIRED=false; unauthenticated callers get the thread policy caps of users
+const ANONYMOUS_CLIENT: ApiClient = { clientId: 'anonymous', scopes: [...API_SCOPES], role: 'user' };
+
+export interface RawBodyRequest extends IncomingMessage {
+  rawBody?: Buffer;
+}
+
+/**
+ * express.json verify hook keeping the raw body for HMAC signatures
+ */
+export function captureRawBody(req: IncomingMessage, _res: ServerResponse, buf: Buffer): void {
+  (req as RawBodyRequest).rawBody = buf;
+}
+
+/**
+ * Client of a request that went through authenticate
+ */
+export function getApiClient(res: Response): ApiClient | undefined {
+  return res.locals.apiClient;
+}
+
+/**
+ * Identify the client of a WebSocket upgrade request
+ * @param req - Upgrade request
+ * @returns The client, or null if the request carries no valid credentials
+ */
+export function authenticateUpgrade(req: IncomingMessage): ApiClient | null {
+  if (!config.AUTH_REQUIRED) {
+    return ANONYMOUS_CLIENT;
+  }
+
+  const url = new URL(req.url || '/', 'http://localhost');
+
+  return apiAuthService.authenticate({
+    method: req.method || 'GET',
+    url: req.url || '/',
+    headers: req.headers,
+    queryApiKey: QUERY_KEY_PATH_PATTERN.test(url.pathname) ? url.searchParams.get('api_key') || undefined : undefined,
+  });
+}
+
+/**
+ * Reject requests without valid credentials (401) and keep the client
+ * in res.locals.apiClient for requireScope
+ */
+export function authenticate(req: Request, res: Response, next: NextFunction) {
+  if (!config.AUTH_REQUIRED) {
+    res.locals.apiClient = ANONYMOUS_CLIENT;
+    return next();
+  }
+
+  if (PUBLIC_PATHS.includes(req.path)) {
+    return next();
+  }
+
+  const queryApiKey = QUERY_KEY_PATH_PATTERN.test(req.path) && typeof req.query.api_key === 'string'
+    ? req.query.api_key
+    : undefined;
+
+  const client = apiAuthService.authenticate({
+    method: req.method,
+    url: req.originalUrl,
+    headers: req.headers,
+    rawBody: (req as RawBodyRequest).rawBody,
+    queryApiKey,
+  });
+
+  if (!client) {
+    logger.warn('Rejected unauthenticated request', { method: req.method, path: req.path, ip: req.ip });
+
+    const response: StandardAPIResponse = {
+      success: false,
+      message: 'Authentication required: provide an API key, a signed request or the service credentials'
+    };
+
+    res.setHeader('WWW-Authenticate', 'Bearer realm="shopify-theme-manager", Basic realm="shopify-theme-manager"');
+    return res.status(401).json(response);
+  }
+
+  res.locals.apiClient = client;
+  next();
+}
+
+/**
+ * Only let clients through that have at least one of the scopes (403 otherwise)
+ * @param scopes - Accepted scopes
+ */
+export function requireScope(...scopes: ApiScope[]): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const client = getApiClient(res);
+
+    if (client && scopes.some((scope) => client.scopes.includes(scope))) {
+      return next();
+    }
+
+    logger.warn('Rejected request without required scope', {
+      clientId: client?.clientId,
+      method: req.method,
+      path: req.path,
+      scopes,
+    });
+
+    const response: StandardAPIResponse = {
+      success: false,
+      message: `Missing scope: requires ${scopes.join(' or ')}`
+    };
+
+    res.status(403).json(response);
+  };
+}
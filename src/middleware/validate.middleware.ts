@@ -0,0 +1,69 @@
+/**
+ * Validation Middleware
+ *
+ * Checks path parameters, query strings and bodies against the schemas of
+ * a route (see schemas/api-routes.ts) before the handler runs
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import logger from '../utils/logger';
+import { coerceParameters, validateSchema } from '../utils/json-schema';
+import { ApiRouteDefinition } from '../schemas/api-routes';
+import { StandardAPIResponse } from '../types/theme.types';
+
+export type RequestLocation = 'params' | 'query' | 'body';
+
+/**
+ * A field of a request that does not match the route's schema
+ */
+export interface RequestFieldError {
+  location: RequestLocation;
+  field: string;        // Path within the location, e.g. "events.include.types[0]"
+  message: string;
+}
+
+/**
+ * Respond 400 with field-level errors when a request does not match its route's schemas
+ * @param route - Route definition with params, query and body schemas
+ */
+export function validateRequest(route: ApiRouteDefinition): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const errors: RequestFieldError[] = [];
+
+    const check = (location: RequestLocation, value: unknown) => {
+      const schema = route[location];
+
+      if (!schema) {
+        return;
+      }
+
+      // Query strings and path parameters are always strings
+      const coerced = location === 'body' ? value : coerceParameters(schema, value as Record<string, unknown>);
+
+      for (const error of validateSchema(schema, coerced)) {
+        errors.push({ location, field: error.path, message: error.message });
+      }
+    };
+
+    check('params', req.params);
+    check('query', req.query);
+    check('body', req.body ?? {});
+
+    if (errors.length === 0) {
+      return next();
+    }
+
+    const [first] = errors;
+    const more = errors.length > 1 ? ` (and ${errors.length - 1} more)` : '';
+
+    logger.warn('Rejected invalid request', { method: req.method, path: req.path, errors });
+
+    const response: StandardAPIResponse = {
+      success: false,
+      message: `Invalid request: ${first.location}${first.field ? `.${first.field}` : ''} ${first.message}${more}`,
+      data: { errors }
+    };
+
+    res.status(400).json(response);
+  };
+}
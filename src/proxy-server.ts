@@ -1,11 +1,103 @@
 import express from 'express';
 import axios from 'axios';
 import logger from './utils/logger';
+import { config } from './config/environment';
 import { Agent } from 'http';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { DevServerRegistryEntry } from './services/dev-server.manager';
 
 const app = express();
-const PROXY_PORT = 3005;
-const SHOPIFY_DEV_PORT = 9292; // Default Shopify theme dev port
+const PROXY_PORT = config.PREVIEW_PROXY_PORT;
+const FALLBACK_DEV_PORT = config.DEV_SERVER_PORT_START; // Used while no dev server is registered
+const PREVIEW_COOKIE = 'preview_env';
+const REGISTRY_PATH = path.resolve(config.DEV_SERVER_REGISTRY_PATH);
+
+// Dev servers written by the theme server, re-read whenever the file changes
+let registryCache: { mtimeMs: number; servers: Record<string, DevServerRegistryEntry> } | null = null;
+
+function readRegistry(): Record<string, DevServerRegistryEntry> {
+  try {
+    const { mtimeMs } = fs.statSync(REGISTRY_PATH);
+
+    if (!registryCache || registryCache.mtimeMs !== mtimeMs) {
+      registryCache = { mtimeMs, servers: JSON.parse(fs.readFileSync(REGISTRY_PATH, 'utf-8')) };
+    }
+
+    return registryCache.servers;
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      logger.error(`Error reading dev server registry: ${error.message}`);
+    }
+    return registryCache?.servers || {};
+  }
+}
+
+/**
+ * Error for a request that cannot be routed, answered with its status
+ */
+class PreviewRequestError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'PreviewRequestError';
+  }
+}
+
+/**
+ * Decode a URL-encoded environment ID from a path or cookie
+ */
+function decodeEnvId(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw new PreviewRequestError('Malformed environment ID', 400);
+  }
+}
+
+function getCookie(cookieHeader: string | undefined, name: string): string | undefined {
+  const match = (cookieHeader || '')
+    .split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith(`${name}=`));
+
+  return match ? decodeEnvId(match.substring(name.length + 1)) : undefined;
+}
+
+/**
+ * Pick the dev server for a request:
+ *   /preview/:envId/... - the environment's server (and remember it in a cookie)
+ *   anything else       - the server remembered in the cookie, else the newest server
+ */
+function resolveTarget(req: express.Request): { port: number; path: string; cookie?: string } | null {
+  const servers = readRegistry();
+  const previewMatch = req.originalUrl.match(/^\/preview\/([^/?]+)(.*)$/);
+
+  if (previewMatch) {
+    const envId = decodeEnvId(previewMatch[1]);
+    const server = servers[envId];
+
+    if (!server) {
+      return null;
+    }
+
+    const rest = previewMatch[2] || '/';
+    return {
+      port: server.port,
+      path: rest.startsWith('/') ? rest : `/${rest}`,
+      cookie: `${PREVIEW_COOKIE}=${encodeURIComponent(envId)}; Path=/; SameSite=None; Secure`,
+    };
+  }
+
+  const cookieEnv = getCookie(req.headers.cookie, PREVIEW_COOKIE);
+  if (cookieEnv && servers[cookieEnv]) {
+    return { port: servers[cookieEnv].port, path: req.originalUrl };
+  }
+
+  const newest = Object.values(servers)
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt))[0];
+
+  return { port: newest ? newest.port : FALLBACK_DEV_PORT, path: req.originalUrl };
+}
 
 // Create HTTP agent with keep-alive for better connection handling
 const httpAgent = new Agent({
@@ -17,11 +109,28 @@ const httpAgent = new Agent({
 });
 
 // Middleware to handle all requests
-app.use('*', async (req, res) => {
+app.use(async (req, res) => {
+  let target: ReturnType<typeof resolveTarget>;
+
   try {
-    const targetUrl = `http://127.0.0.1:${SHOPIFY_DEV_PORT}${req.originalUrl}`;
+    target = resolveTarget(req);
+  } catch (error: any) {
+    if (error instanceof PreviewRequestError) {
+      res.status(error.status).send(error.message);
+      return;
+    }
+    throw error;
+  }
 
-    logger.info(`Proxying request: ${req.method} ${req.originalUrl}`);
+  if (!target) {
+    res.status(404).send('No Shopify dev server is running for this environment');
+    return;
+  }
+
+  try {
+    const targetUrl = `http://127.0.0.1:${target.port}${target.path}`;
+
+    logger.info(`Proxying request: ${req.method} ${req.originalUrl} -> port ${target.port}`);
 
     // Forward the request to Shopify dev server
     const response = await axios({
@@ -29,7 +138,7 @@ app.use('*', async (req, res) => {
       url: targetUrl,
       headers: {
         ...req.headers,
-        host: `127.0.0.1:${SHOPIFY_DEV_PORT}`,
+        host: `127.0.0.1:${target.port}`,
       },
       data: req.body,
       responseType: 'arraybuffer',
@@ -55,6 +164,12 @@ app.use('*', async (req, res) => {
       }
     });
 
+    // Remember which environment this browser previews
+    if (target.cookie) {
+      const upstreamCookies = response.headers['set-cookie'] || [];
+      res.setHeader('Set-Cookie', [...upstreamCookies, target.cookie]);
+    }
+
     // Set permissive headers for iframe embedding
     res.setHeader('X-Frame-Options', 'ALLOWALL');
     res.removeHeader('Content-Security-Policy');
@@ -65,7 +180,7 @@ app.use('*', async (req, res) => {
     logger.error(`Proxy error: ${error.message}`);
 
     if (error.code === 'ECONNREFUSED') {
-      res.status(503).send('Shopify dev server is not running on port ' + SHOPIFY_DEV_PORT);
+      res.status(503).send('Shopify dev server is not running on port ' + target.port);
     } else if (error.code === 'ECONNRESET' || error.message.includes('socket hang up')) {
       res.status(502).send('Connection to Shopify dev server was reset');
     } else if (error.code === 'ETIMEDOUT' || error.message.includes('timeout')) {
@@ -79,8 +194,8 @@ app.use('*', async (req, res) => {
 // Start the proxy server
 app.listen(PROXY_PORT, () => {
   logger.info(`Proxy server running on port ${PROXY_PORT}`);
-  logger.info(`Forwarding requests to Shopify dev server on port ${SHOPIFY_DEV_PORT}`);
-  logger.info(`Access your theme through: http://localhost:${PROXY_PORT}`);
+  logger.info(`Forwarding requests to the dev servers listed in ${REGISTRY_PATH} (fallback port ${FALLBACK_DEV_PORT})`);
+  logger.info(`Access a theme through: http://localhost:${PROXY_PORT}/preview/<envId>/`);
 });
 
 export default app;
@@ -6,185 +6,482 @@
  */
 
 import { Router, Request, Response } from 'express';
-import axios from 'axios';
+import { requireScope } from '../middleware/auth.middleware';
+import { validateRequest } from '../middleware/validate.middleware';
+import { apiRoutes } from '../schemas/api-routes';
+import { MAX_BATCH_WINDOW_MS } from '../schemas/request.schemas';
 import logger from '../utils/logger';
 import { config } from '../config/environment';
-import { BasicAuthService } from '../services/auth.service';
+import { GitService } from '../services/git.service';
 import codexService from '../services/codex.instance';
+import { CodexEvent, TurnCancelledError } from '../services/codex.service';
+import jobService from '../services/job.instance';
+import storeRegistry from '../services/store.instance';
+import webhookDispatcher from '../services/webhook-dispatcher.instance';
+import environmentEventLog from '../services/event-log.instance';
+import transcriptStore from '../services/transcript.instance';
+import usageTracker from '../services/usage.instance';
+import { CodexUsage, SessionBudgetStatus } from '../services/usage.tracker';
+import { TranscriptTurnMode } from '../services/transcript.store';
+import { StreamingWebhookBatcher } from '../services/streaming-webhook.batcher';
 import {
+  ResolvedEventFilter,
+  matchesEventFilter,
+  resolveEventFilter
+} from '../services/streaming-event.filter';
+import {
+  checkStructuredOutput,
+  resolveOutputSchema,
+  StructuredOutputError,
+  StructuredOutputResult
+} from '../services/structured-output';
+import { JsonSchema } from '../utils/json-schema';
+import {
+  ChatAcceptedData,
+  ChatCancelData,
+  ChatQueueData,
+  ChatQueuedTurn,
+  ChatQueuedTurnCancelData,
   ChatRequest,
   ChatStreamingRequest,
+  ChatCancelRequest,
+  ChatUsage,
   ChatWebhookPayload,
   ChatStreamingWebhookPayload,
+  FileChangeSummary,
   StandardAPIResponse
 } from '../types/theme.types';
 
 const router = Router();
-const authService = new BasicAuthService();
+const gitService = new GitService();
+
+/**
+ * Resolve the session that receives webhooks for a chat:
+ * the request's session_id, else the session the environment was created for
+ */
+function resolveChatSession(envId: string, sessionId?: string): string {
+  const environment = codexService.getEnvironment(envId);
+
+  return storeRegistry.resolve({
+    storeId: environment?.storeId,
+    sessionId: sessionId || environment?.sessionId
+  }).sessionId;
+}
+
+/**
+ * Send the result of a non-streaming chat to {WEBHOOK_URL}/chat/{session_id}
+ */
+async function sendChatWebhook(sessionId: string, payload: ChatWebhookPayload): Promise<void> {
+  const webhookUrl = `${config.WEBHOOK_URL}/chat/${encodeURIComponent(sessionId)}`;
+  await webhookDispatcher.dispatch(webhookUrl, payload, { idempotencyKey: `${payload.job_id}:result` });
+}
+
+/**
+ * Answer 402 when the session has used up its budget
+ * @returns true if the request was rejected
+ */
+async function rejectIfOverBudget(sessionId: string, res: Response): Promise<boolean> {
+  let status: SessionBudgetStatus;
+
+  try {
+    status = await usageTracker.getBudgetStatus(sessionId);
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: `Failed to read budget: ${error.message}`
+    });
+    return true;
+  }
+
+  if (!status.exceeded) {
+    return false;
+  }
+
+  logger.warn('Chat rejected, session budget exceeded', { sessionId, spentCostUsd: status.spentCostUsd, spentTokens: status.spentTokens });
+
+  res.status(402).json({
+    success: false,
+    message: `Budget of session ${sessionId} is exceeded`,
+    data: {
+      session_id: sessionId,
+      max_cost_usd: status.budget.maxCostUsd,
+      max_tokens: status.budget.maxTokens,
+      spent_cost_usd: status.spentCostUsd,
+      spent_tokens: status.spentTokens
+    }
+  });
+  return true;
+}
+
+/**
+ * Record the usage of a completed turn for accounting and budgets
+ * @returns Usage with cost for webhooks, or undefined if Codex reported none
+ */
+async function recordUsage(
+  envId: string,
+  sessionId: string,
+  jobId: string,
+  model: string | undefined,
+  usage: CodexUsage | null | undefined
+): Promise<ChatUsage | undefined> {
+  if (!usage) {
+    return undefined;
+  }
+
+  const record = await usageTracker.record({
+    turnId: jobId,
+    envId,
+    sessionId,
+    model: model || codexService.getEnvironment(envId)?.model || config.CODEX_MODEL
+  }, usage);
+
+  return {
+    input_tokens: record.inputTokens,
+    cached_input_tokens: record.cachedInputTokens,
+    output_tokens: record.outputTokens,
+    cost_usd: record.costUsd
+  };
+}
+
+/**
+ * Add a queued chat turn to the environment's transcript. Called right after
+ * the turn joined the queue, without waiting: the transcript applies changes
+ * in call order, so later updates of the turn find it.
+ * Turns on unknown environments are not recorded.
+ */
+function recordQueuedTurn(
+  envId: string,
+  jobId: string,
+  mode: TranscriptTurnMode,
+  prompt: string,
+  model: string | undefined
+): void {
+  const environment = codexService.getEnvironment(envId);
+
+  if (!environment) {
+    return;
+  }
+
+  transcriptStore.addTurn({
+    turnId: jobId,
+    envId,
+    mode,
+    prompt,
+    model: model || environment.model,
+    status: 'queued'
+  }).catch((error) => {
+    logger.error('Error updating transcript', { envId, jobId, error: error.message });
+  });
+}
+
+/**
+ * onStart callback of a chat turn: mark its job and transcript entry running
+ * once it leaves the turn queue
+ */
+function markTurnRunning(envId: string, jobId: string): void {
+  jobService.markRunning(jobId);
+  transcriptStore.updateTurn(envId, jobId, { status: 'running' }).catch((error) => {
+    logger.error('Error updating transcript', { envId, jobId, error: error.message });
+  });
+}
 
 /**
  * Background function to handle chat and send webhook notification
  */
-async function handleChat(envId: string, prompt: string, model?: string): Promise<void> {
+async function handleChat(
+  envId: string,
+  prompt: string,
+  model: string | undefined,
+  sessionId: string,
+  jobId: string,
+  outputSchema?: JsonSchema
+): Promise<ChatWebhookPayload> {
+  let turn: any;
+  let commit: string | null = null;
+  let changes: FileChangeSummary[] = [];
+  let outputCheck: StructuredOutputResult = {};
+  let usage: ChatUsage | undefined;
+
+  const environment = codexService.getEnvironment(envId);
+
+  // Join the turn queue before anything is awaited, so the job ID the client
+  // already has can be listed and cancelled right away
+  const turnPromise = environment && codexService.runExclusive(
+    envId,
+    async (signal) => {
+      // Accepted on the spending at request time; earlier turns in the queue may have used up the budget since
+      await usageTracker.assertWithinBudget(sessionId);
+      let reportedUsage: CodexUsage | undefined;
+      let result: any;
+      try {
+        result = await codexService.run(environment.thread, prompt, {
+          model,
+          signal,
+          outputSchema,
+          onUsage: (turnUsage) => { reportedUsage = turnUsage; }
+        });
+      } finally {
+        // Recorded before the next queued turn checks the budget, also when the turn failed or was cancelled
+        usage = await recordUsage(envId, sessionId, jobId, model, reportedUsage);
+      }
+      // Snapshot the turn before the next one can start
+      commit = await gitService.commitTurn(environment.workingDirectory, prompt);
+      return result;
+    },
+    { turnId: jobId, prompt, onStart: () => markTurnRunning(envId, jobId) }
+  );
+  recordQueuedTurn(envId, jobId, 'chat', prompt, model);
+
   try {
     logger.info('Starting chat', { envId, prompt: prompt.substring(0, 50) });
 
-    // Get the environment
-    const environment = codexService.getEnvironment(envId);
-
-    if (!environment) {
+    if (!environment || !turnPromise) {
       throw new Error(`Environment not found: ${envId}`);
     }
 
-    // Run the prompt
-    const turn = await codexService.run(environment.thread, prompt, { model });
-
-    // Prepare success payload
-    const payload: ChatWebhookPayload = {
-      success: true,
-      env_id: envId,
-      response: turn.finalResponse,
-      items: turn.items,
-    };
+    // Runs once every earlier turn on this environment has finished
+    turn = await turnPromise;
+    await codexService.recordThreadId(envId);
 
-    // Send webhook notification
-    const webhookUrl = `${config.WEBHOOK_URL}/chat/${config.SESSION_ID}`;
-    await axios.post(webhookUrl, payload, {
-      timeout: 10000,
-      headers: authService.getAuthHeaders()
-    });
+    if (commit) {
+      changes = await gitService.getCommitSummary(environment.workingDirectory, commit);
+    }
 
-    logger.info('Chat completed and webhook sent', { envId });
+    // The turn ran (and was committed) either way; a response that does not follow the schema fails the job
+    if (outputSchema) {
+      outputCheck = checkStructuredOutput(turn.finalResponse, outputSchema);
+    }
 
   } catch (error: any) {
     logger.error('Error in chat', { error: error.message, envId });
 
-    // Prepare error payload
-    const errorPayload: ChatWebhookPayload = {
-      success: false,
-      env_id: envId,
+    await transcriptStore.updateTurn(envId, jobId, {
+      status: error instanceof TurnCancelledError ? 'cancelled' : 'failed',
+      usage,
       error: error.message
-    };
+    });
 
     // Try to send error webhook
-    try {
-      const webhookUrl = `${config.WEBHOOK_URL}/chat/${config.SESSION_ID}`;
-      await axios.post(webhookUrl, errorPayload, {
-        timeout: 10000,
-        headers: authService.getAuthHeaders()
-      });
-    } catch (webhookError: any) {
-      logger.error('Webhook error', { error: webhookError.message });
-    }
+    await sendChatWebhook(sessionId, {
+      success: false,
+      job_id: jobId,
+      env_id: envId,
+      error: error.message,
+      cancelled: error instanceof TurnCancelledError || undefined,
+      usage
+    });
+    throw error;
+  }
+
+  const { structured, error } = outputCheck;
+
+  // Prepare payload
+  const payload: ChatWebhookPayload = {
+    success: !error,
+    job_id: jobId,
+    env_id: envId,
+    response: turn.finalResponse,
+    structured,
+    items: turn.items,
+    error: error?.message,
+    commit: commit || undefined,
+    changes,
+    usage,
+  };
+
+  await transcriptStore.updateTurn(envId, jobId, {
+    status: error ? 'failed' : 'completed',
+    finalResponse: turn.finalResponse,
+    items: turn.items,
+    usage,
+    commit: commit || undefined,
+    error: error?.message
+  });
+
+  // Send webhook notification
+  await sendChatWebhook(sessionId, payload);
+
+  if (error) {
+    logger.warn('Chat response does not match its output schema', { envId, error: error.message });
+    throw error;
   }
+
+  logger.info('Chat completed and webhook sent', { envId });
+
+  return payload;
 }
 
 /**
- * Background function to handle streaming chat and send webhook for EACH event
+ * Background function to handle streaming chat and send webhooks for its events.
+ * Events are numbered per environment and sent in order, batched when a window is set;
+ * SSE/WebSocket subscribers of the environment get them as they happen.
  */
-async function handleChatStreaming(envId: string, prompt: string, model?: string): Promise<void> {
-  const webhookUrl = `${config.WEBHOOK_URL}/chat-streaming/${config.SESSION_ID}`;
+async function handleChatStreaming(
+  envId: string,
+  prompt: string,
+  model: string | undefined,
+  sessionId: string,
+  jobId: string,
+  batchWindowMs: number,
+  eventFilter: ResolvedEventFilter,
+  outputSchema?: JsonSchema
+): Promise<Record<string, any>> {
+  let cancelledEventSent = false;
+
+  const batcher = new StreamingWebhookBatcher(webhookDispatcher, {
+    url: `${config.WEBHOOK_URL}/chat-streaming/${encodeURIComponent(sessionId)}`,
+    jobId,
+    envId,
+    windowMs: batchWindowMs,
+    maxBatchSize: config.CHAT_STREAMING_BATCH_MAX_EVENTS,
+    // The environment may be gone (or never existed) when the error payload is sent
+    nextEventNumber: () => codexService.getEnvironment(envId) ? codexService.nextEventNumber(envId) : undefined,
+    publish: (event) => environmentEventLog.publish(envId, event)
+  });
 
-  try {
-    logger.info('Starting streaming chat', { envId, prompt: prompt.substring(0, 50) });
+  // Every completed item goes to the transcript, whether or not it is forwarded
+  const completedItems: any[] = [];
+  let commit: string | null = null;
+  let usage: ChatUsage | undefined;
+
+  const onEvent = async (event: CodexEvent) => {
+    if (event.type === 'item.completed') {
+      completedItems.push(event.item);
+    }
+
+    if (!matchesEventFilter(event, eventFilter)) {
+      return;
+    }
+
+    cancelledEventSent = cancelledEventSent || event.type === 'turn.cancelled';
+
+    // Queued for delivery without waiting, so slow receivers do not hold up the stream
+    batcher.push(event);
+  };
+
+  const environment = codexService.getEnvironment(envId);
+
+  // Join the turn queue before anything is awaited, so the job ID the client
+  // already has can be listed and cancelled right away
+  const turnPromise = environment && codexService.runExclusive(
+    envId,
+    async (signal) => {
+      // Accepted on the spending at request time; earlier turns in the queue may have used up the budget since
+      await usageTracker.assertWithinBudget(sessionId);
+      let reportedUsage: CodexUsage | undefined;
+      let finalTurn: any;
+      try {
+        finalTurn = await codexService.runStreamWithHandler(environment.thread, prompt, onEvent, {
+          model,
+          signal,
+          outputSchema,
+          onUsage: (turnUsage) => { reportedUsage = turnUsage; }
+        });
+      } finally {
+        // Recorded before the next queued turn checks the budget, also when the turn failed or was cancelled
+        usage = await recordUsage(envId, sessionId, jobId, model, reportedUsage);
+      }
+      // Snapshot the turn before the next one can start
+      commit = await gitService.commitTurn(environment.workingDirectory, prompt);
+      return finalTurn;
+    },
+    { turnId: jobId, prompt, onStart: () => markTurnRunning(envId, jobId) }
+  );
+  recordQueuedTurn(envId, jobId, 'chat.streaming', prompt, model);
 
-    // Get the environment
-    const environment = codexService.getEnvironment(envId);
+  try {
+    logger.info('Starting streaming chat', { envId, prompt: prompt.substring(0, 50), batchWindowMs });
 
-    if (!environment) {
+    if (!environment || !turnPromise) {
       throw new Error(`Environment not found: ${envId}`);
     }
 
-    // Run the prompt with streaming
-    let eventCount = 0;
-    const isAgentMessageOrReasoning = (event: any) =>
-      event?.item?.type === 'agent_message' || event?.item?.type === 'reasoning';
-    const isAllowedNonItemEvent = (event: any) =>
-      event?.type === 'thread.started' || event?.type === 'turn.completed';
-
-    const result = await codexService.runStreamWithHandler(
-      environment.thread,
-      prompt,
-      async (event) => {
-        if (event?.type?.startsWith('item.')) {
-          if (!isAgentMessageOrReasoning(event)) {
-            return;
-          }
-        } else if (!isAllowedNonItemEvent(event)) {
-          return;
-        }
-
-        eventCount++;
-
-        // Send webhook for EACH event
-        try {
-          // Spread event properties directly into payload (cleaner, no nesting)
-          const eventPayload = {
-            success: true,
-            env_id: envId,
-            event_number: eventCount,
-            timestamp: new Date().toISOString(),
-            ...event  // Spreads: type, delta, item, usage, etc.
-          };
-
-          await axios.post(webhookUrl, eventPayload, {
-            timeout: 10000,
-            headers: authService.getAuthHeaders()
-          });
-
-          logger.debug('Streaming event webhook sent', {
-            envId,
-            type: event.type,
-            eventNumber: eventCount
-          });
-
-        } catch (webhookError: any) {
-          logger.error('Error sending event webhook', {
-            error: webhookError.message,
-            eventType: event.type
-          });
-          // Continue processing even if webhook fails
-        }
-      },
-      { model }
-    );
-
-    logger.info('Streaming chat completed', { envId, totalEvents: eventCount });
+    // Runs the prompt with streaming once every earlier turn on this environment has finished
+    await turnPromise;
+
+    await codexService.recordThreadId(envId);
+
+    const changes = commit ? await gitService.getCommitSummary(environment.workingDirectory, commit) : [];
+
+    // The last agent message is the turn's answer, as in a non-streaming run
+    const finalResponse = [...completedItems].reverse().find((item) => item?.type === 'agent_message')?.text;
+    const { structured, error } = outputSchema ? checkStructuredOutput(finalResponse ?? '', outputSchema) : {};
+
+    await transcriptStore.updateTurn(envId, jobId, {
+      status: error ? 'failed' : 'completed',
+      finalResponse,
+      items: completedItems,
+      usage,
+      commit: commit || undefined,
+      error: error?.message
+    });
+
+    await batcher.complete({ success: !error, usage, commit, changes, structured, error: error?.message });
+
+    if (error) {
+      logger.warn('Streaming chat response does not match its output schema', { envId, error: error.message });
+      throw error;
+    }
+
+    logger.info('Streaming chat completed', { envId, totalEvents: batcher.getTotalEvents() });
+
+    return {
+      env_id: envId,
+      total_events: batcher.getTotalEvents(),
+      usage,
+      commit,
+      changes,
+      structured
+    };
 
   } catch (error: any) {
-    logger.error('Error in streaming chat', { error: error.message, envId });
-
-    // Send error webhook
-    try {
-      const errorPayload = {
-        success: false,
-        env_id: envId,
-        error: error.message,
-        timestamp: new Date().toISOString()
-      };
-
-      await axios.post(webhookUrl, errorPayload, {
-        timeout: 10000,
-        headers: authService.getAuthHeaders()
-      });
-    } catch (webhookError: any) {
-      logger.error('Webhook error', { error: webhookError.message });
+    // Already reported by stream.completed
+    if (error instanceof StructuredOutputError) {
+      throw error;
+    }
+
+    // A stream that already ended with a turn.cancelled event needs no error payload
+    if (!cancelledEventSent) {
+      logger.error('Error in streaming chat', { error: error.message, envId });
+
+      batcher.push({
+        // Turns cancelled while still queued never reach the stream
+        type: error instanceof TurnCancelledError ? 'turn.cancelled' : undefined,
+        error: error.message
+      }, false);
     }
+
+    await transcriptStore.updateTurn(envId, jobId, {
+      status: error instanceof TurnCancelledError ? 'cancelled' : 'failed',
+      items: completedItems,
+      usage,
+      error: error.message
+    });
+
+    await batcher.complete({
+      success: false,
+      usage,
+      error: error.message,
+      cancelled: error instanceof TurnCancelledError || undefined
+    });
+
+    throw error;
   }
 }
 
 /**
  * POST /chat
  * Chat with a Codex environment (non-streaming)
- * Sends result to webhook: {WEBHOOK_URL}/chat/{SESSION_ID}
+ * Sends result to webhook: {WEBHOOK_URL}/chat/{session_id}
  */
-router.post('/chat', (req: Request, res: Response) => {
+router.post('/chat', requireScope('chat'), validateRequest(apiRoutes.chat), async (req: Request, res: Response) => {
   const request: ChatRequest = req.body;
 
-  if (!request.env_id || !request.prompt) {
-    return res.status(400).json({
+  if (request.reject_if_busy && codexService.isEnvironmentBusy(request.env_id)) {
+    return res.status(409).json({
       success: false,
-      message: 'Missing required fields: env_id and prompt'
+      message: `A turn is already running for environment ${request.env_id}`,
+      data: { queue_depth: codexService.getQueueDepth(request.env_id) }
     });
   }
 
@@ -194,14 +491,32 @@ router.post('/chat', (req: Request, res: Response) => {
     model: request.model
   });
 
-  // Trigger background task (don't await) - wrapped to catch any unhandled errors
-  handleChat(request.env_id, request.prompt, request.model).catch((error) => {
-    logger.error('Unhandled error in background chat task', { error: error.message });
-  });
+  let sessionId: string;
+  try {
+    sessionId = resolveChatSession(request.env_id, request.session_id);
+  } catch (error: any) {
+    return res.status(404).json({
+      success: false,
+      message: error.message
+    });
+  }
+
+  if (await rejectIfOverBudget(sessionId, res)) {
+    return;
+  }
 
-  const response: StandardAPIResponse = {
+  const queuePosition = codexService.getQueueDepth(request.env_id);
+
+  // Trigger background job (don't await) - failures are recorded on the job
+  const job = jobService.enqueue('chat', { envId: request.env_id }, ({ id: jobId }) =>
+    handleChat(request.env_id, request.prompt, request.model, sessionId, jobId, resolveOutputSchema(request.output_schema)),
+    { deferStart: true }
+  );
+
+  const response: StandardAPIResponse<ChatAcceptedData> = {
     success: true,
-    message: `Chat request accepted for environment ${request.env_id}. Results will be sent to webhook.`
+    message: `Chat request accepted for environment ${request.env_id}. Results will be sent to webhook.`,
+    data: { job_id: job.id, queue_position: queuePosition, session_id: sessionId }
   };
 
   res.json(response);
@@ -210,15 +525,30 @@ router.post('/chat', (req: Request, res: Response) => {
 /**
  * POST /chat-streaming
  * Chat with a Codex environment (streaming)
- * Sends result to webhook: {WEBHOOK_URL}/chat-streaming/{SESSION_ID}
+ * Sends result to webhook: {WEBHOOK_URL}/chat-streaming/{session_id}
  */
-router.post('/chat-streaming', (req: Request, res: Response) => {
+router.post('/chat-streaming', requireScope('chat'), validateRequest(apiRoutes.chatStreaming), async (req: Request, res: Response) => {
   const request: ChatStreamingRequest = req.body;
 
-  if (!request.env_id || !request.prompt) {
+  const batchWindowMs = request.batch_window_ms ?? config.CHAT_STREAMING_BATCH_WINDOW_MS;
+
+  if (!Number.isInteger(batchWindowMs) || batchWindowMs < 0 || batchWindowMs > MAX_BATCH_WINDOW_MS) {
     return res.status(400).json({
       success: false,
-      message: 'Missing required fields: env_id and prompt'
+      message: `batch_window_ms must be an integer between 0 and ${MAX_BATCH_WINDOW_MS}`
+    });
+  }
+
+  const eventFilter = resolveEventFilter(request.events, {
+    include: { types: config.CHAT_STREAMING_INCLUDE_EVENTS, item_types: config.CHAT_STREAMING_INCLUDE_ITEMS },
+    exclude: { types: config.CHAT_STREAMING_EXCLUDE_EVENTS, item_types: config.CHAT_STREAMING_EXCLUDE_ITEMS }
+  });
+
+  if (request.reject_if_busy && codexService.isEnvironmentBusy(request.env_id)) {
+    return res.status(409).json({
+      success: false,
+      message: `A turn is already running for environment ${request.env_id}`,
+      data: { queue_depth: codexService.getQueueDepth(request.env_id) }
     });
   }
 
@@ -228,14 +558,130 @@ router.post('/chat-streaming', (req: Request, res: Response) => {
     model: request.model
   });
 
-  // Trigger background task (don't await) - wrapped to catch any unhandled errors
-  handleChatStreaming(request.env_id, request.prompt, request.model).catch((error) => {
-    logger.error('Unhandled error in background streaming chat task', { error: error.message });
-  });
+  let sessionId: string;
+  try {
+    sessionId = resolveChatSession(request.env_id, request.session_id);
+  } catch (error: any) {
+    return res.status(404).json({
+      success: false,
+      message: error.message
+    });
+  }
+
+  if (await rejectIfOverBudget(sessionId, res)) {
+    return;
+  }
+
+  const queuePosition = codexService.getQueueDepth(request.env_id);
+
+  // Trigger background job (don't await) - failures are recorded on the job
+  const job = jobService.enqueue('chat.streaming', { envId: request.env_id }, ({ id: jobId }) =>
+    handleChatStreaming(request.env_id, request.prompt, request.model, sessionId, jobId, batchWindowMs, eventFilter,
+      resolveOutputSchema(request.output_schema)),
+    { deferStart: true }
+  );
+
+  const response: StandardAPIResponse<ChatAcceptedData> = {
+    success: true,
+    message: `Streaming chat request accepted for environment ${request.env_id}. Results will be sent to webhook.`,
+    data: { job_id: job.id, queue_position: queuePosition, session_id: sessionId }
+  };
+
+  res.json(response);
+});
+
+/**
+ * GET /chat/:envId/queue
+ * Running and queued turns of an environment
+ */
+router.get('/chat/:envId/queue', requireScope('chat'), validateRequest(apiRoutes.chatQueue), (req: Request, res: Response) => {
+  const { envId } = req.params;
+
+  if (!codexService.getEnvironment(envId)) {
+    return res.status(404).json({
+      success: false,
+      message: `Environment not found: ${envId}`
+    });
+  }
+
+  const turns = codexService.getTurnQueue(envId).map((turn): ChatQueuedTurn => ({
+    turn_id: turn.turnId,
+    position: turn.position,
+    status: turn.position === 0 ? 'running' : 'queued',
+    prompt: turn.prompt,
+    enqueued_at: turn.enqueuedAt.toISOString(),
+    started_at: turn.startedAt?.toISOString()
+  }));
+
+  const response: StandardAPIResponse<ChatQueueData> = {
+    success: true,
+    message: `${turns.length} turns for environment ${envId}`,
+    data: { env_id: envId, queue_depth: turns.length, turns }
+  };
+
+  res.json(response);
+});
+
+/**
+ * POST /chat/:envId/cancel
+ * Cancel the running turn of an environment, or a specific turn via body.turn_id
+ * Streaming chats end with a turn.cancelled event sent to {WEBHOOK_URL}/chat-streaming/{session_id}
+ */
+router.post('/chat/:envId/cancel', requireScope('chat'), validateRequest(apiRoutes.chatCancel), (req: Request, res: Response) => {
+  const { envId } = req.params;
+  const { turn_id: turnId }: ChatCancelRequest = req.body || {};
+
+  const cancelled = codexService.cancelTurn(envId, turnId);
+
+  if (!cancelled) {
+    return res.status(404).json({
+      success: false,
+      message: turnId
+        ? `Turn ${turnId} is not running or queued for environment ${envId}`
+        : `No turn is running for environment ${envId}`
+    });
+  }
+
+  const response: StandardAPIResponse<ChatCancelData> = {
+    success: true,
+    message: cancelled === 'running'
+      ? `Cancelling running turn for environment ${envId}`
+      : `Queued turn ${turnId} cancelled`,
+    data: { env_id: envId, turn_id: turnId, status: cancelled }
+  };
+
+  res.json(response);
+});
+
+/**
+ * DELETE /chat/:envId/queue/:turnId
+ * Cancel a queued prompt before it starts (turn IDs are the job IDs returned by /chat and /chat-streaming)
+ */
+router.delete('/chat/:envId/queue/:turnId', requireScope('chat'), validateRequest(apiRoutes.chatQueuedTurnCancel), (req: Request, res: Response) => {
+  const { envId, turnId } = req.params;
+
+  const position = codexService.getTurnQueue(envId).find((turn) => turn.turnId === turnId)?.position;
+
+  if (position === undefined) {
+    return res.status(404).json({
+      success: false,
+      message: `Turn ${turnId} is not queued for environment ${envId}`
+    });
+  }
+
+  if (position === 0) {
+    return res.status(409).json({
+      success: false,
+      message: `Turn ${turnId} is already running`
+    });
+  }
+
+  codexService.cancelQueuedTurn(envId, turnId);
 
-  const response: StandardAPIResponse = {
+  const response: StandardAPIResponse<ChatQueuedTurnCancelData> = {
     success: true,
-    message: `Streaming chat request accepted for environment ${request.env_id}. Results will be sent to webhook.`
+    message: `Turn ${turnId} cancelled`,
+    data: { env_id: envId, turn_id: turnId }
   };
 
   res.json(response);
@@ -6,19 +6,115 @@
  */
 
 import { Router, Request, Response } from 'express';
-import codexService from '../services/codex.instance';
+import codexService, { environmentStore } from '../services/codex.instance';
+import { CodexEvent, CodexThreadOptions, TurnCancelledError } from '../services/codex.service';
+import { ThreadPolicyError } from '../services/codex-thread.policy';
+import { GitService } from '../services/git.service';
+import { getApiClient } from '../middleware/auth.middleware';
+import { validateRequest } from '../middleware/validate.middleware';
+import { apiRoutes } from '../schemas/api-routes';
 import logger from '../utils/logger';
+import {
+  CodexEnvironmentRunRequest,
+  CodexQuickRunRequest,
+  CodexResumeRequest,
+  CodexRunRequest,
+  CodexStreamRequest,
+  CodexThreadRequest
+} from '../types/theme.types';
 
 const router = Router();
+const gitService = new GitService();
 
-// Store active threads (in production, use a database)
+// Live thread objects, backed by the persistent environment store
 const activeThreads = new Map<string, any>();
 
+// Abort controllers of turns currently running on a thread
+const runningTurns = new Map<string, AbortController>();
+
+/**
+ * Run a turn on a thread with an abort controller registered for /codex/thread/:threadId/cancel
+ */
+async function runCancellable<T>(threadId: string, task: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  runningTurns.set(threadId, controller);
+
+  try {
+    return await task(controller.signal);
+  } finally {
+    if (runningTurns.get(threadId) === controller) {
+      runningTurns.delete(threadId);
+    }
+  }
+}
+
+/**
+ * Answer a request whose thread options violate the thread policy
+ */
+function rejectByPolicy(res: Response, error: ThreadPolicyError) {
+  return res.status(403).json({
+    success: false,
+    error: 'Thread policy violation',
+    message: error.message,
+  });
+}
+
+/**
+ * Register a thread and persist it so it can be rehydrated after a restart
+ */
+async function saveThread(
+  threadId: string,
+  thread: any,
+  options: CodexThreadOptions | undefined,
+  codexThreadId: string | null = thread.id
+): Promise<void> {
+  activeThreads.set(threadId, thread);
+  await environmentStore.saveThread({
+    threadId,
+    codexThreadId,
+    options,
+    createdAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Look up a thread, rehydrating it from the store if it is not in memory
+ */
+async function getThread(threadId: string): Promise<any | undefined> {
+  const cached = activeThreads.get(threadId);
+  if (cached) {
+    return cached;
+  }
+
+  const record = await environmentStore.getThread(threadId);
+  if (!record) {
+    return undefined;
+  }
+
+  const thread = record.codexThreadId
+    ? await codexService.resumeThread(record.codexThreadId, record.options)
+    : await codexService.startThread(record.options);
+
+  activeThreads.set(threadId, thread);
+  return thread;
+}
+
+/**
+ * Persist the Codex thread ID once the SDK has assigned one (after the first turn)
+ */
+async function recordCodexThreadId(threadId: string, thread: any): Promise<void> {
+  const record = await environmentStore.getThread(threadId);
+
+  if (record && thread.id && record.codexThreadId !== thread.id) {
+    await environmentStore.saveThread({ ...record, codexThreadId: thread.id });
+  }
+}
+
 /**
  * POST /codex/thread
  * Create a new Codex thread
  */
-router.post('/codex/thread', async (req: Request, res: Response) => {
+router.post('/codex/thread', validateRequest(apiRoutes.codexThread), async (req: Request, res: Response) => {
   try {
     const {
       workingDirectory,
@@ -27,7 +123,7 @@ router.post('/codex/thread', async (req: Request, res: Response) => {
       yoloMode = false,
       approvalMode,
       sandboxMode,
-    } = req.body;
+    }: CodexThreadRequest = req.body;
 
     logger.info('Creating new Codex thread', {
       workingDirectory,
@@ -35,20 +131,23 @@ router.post('/codex/thread', async (req: Request, res: Response) => {
       yoloMode,
     });
 
-    const thread = await codexService.startThread({
+    const threadOptions: CodexThreadOptions = {
       workingDirectory,
       skipGitRepoCheck,
       model,
       yoloMode,
       approvalMode,
       sandboxMode,
-    });
+      role: getApiClient(res)?.role,
+    };
+
+    const thread = await codexService.startThread(threadOptions);
 
     // Generate a thread ID (in production, use UUID)
     const threadId = `thread_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
     // Store the thread
-    activeThreads.set(threadId, thread);
+    await saveThread(threadId, thread, threadOptions);
 
     res.json({
       success: true,
@@ -63,6 +162,10 @@ router.post('/codex/thread', async (req: Request, res: Response) => {
       },
     });
   } catch (error) {
+    if (error instanceof ThreadPolicyError) {
+      return rejectByPolicy(res, error);
+    }
+
     logger.error('Error creating Codex thread', { error });
     res.status(500).json({
       success: false,
@@ -76,18 +179,11 @@ router.post('/codex/thread', async (req: Request, res: Response) => {
  * POST /codex/run
  * Run a prompt on a thread
  */
-router.post('/codex/run', async (req: Request, res: Response) => {
+router.post('/codex/run', validateRequest(apiRoutes.codexRun), async (req: Request, res: Response) => {
   try {
-    const { threadId, prompt, model, outputSchema } = req.body;
-
-    if (!threadId || !prompt) {
-      return res.status(400).json({
-        success: false,
-        error: 'Missing required fields: threadId and prompt',
-      });
-    }
+    const { threadId, prompt, model, outputSchema }: CodexRunRequest = req.body;
 
-    const thread = activeThreads.get(threadId);
+    const thread = await getThread(threadId);
     if (!thread) {
       return res.status(404).json({
         success: false,
@@ -97,10 +193,14 @@ router.post('/codex/run', async (req: Request, res: Response) => {
 
     logger.info('Running Codex prompt', { threadId, prompt: prompt.substring(0, 50) });
 
-    const turn = await codexService.run(thread, prompt, {
-      model,
-      outputSchema,
-    });
+    const turn = await runCancellable(threadId, (signal) =>
+      codexService.run(thread, prompt, {
+        model,
+        outputSchema,
+        signal,
+      })
+    );
+    await recordCodexThreadId(threadId, thread);
 
     res.json({
       success: true,
@@ -109,6 +209,18 @@ router.post('/codex/run', async (req: Request, res: Response) => {
       items: turn.items,
     });
   } catch (error) {
+    if (error instanceof TurnCancelledError) {
+      return res.status(409).json({
+        success: false,
+        error: 'Turn cancelled',
+        message: error.message,
+      });
+    }
+
+    if (error instanceof ThreadPolicyError) {
+      return rejectByPolicy(res, error);
+    }
+
     logger.error('Error running Codex prompt', { error });
     res.status(500).json({
       success: false,
@@ -122,18 +234,11 @@ router.post('/codex/run', async (req: Request, res: Response) => {
  * POST /codex/stream
  * Run a prompt with streaming (uses Server-Sent Events)
  */
-router.post('/codex/stream', async (req: Request, res: Response) => {
+router.post('/codex/stream', validateRequest(apiRoutes.codexStream), async (req: Request, res: Response) => {
   try {
-    const { threadId, prompt, model } = req.body;
-
-    if (!threadId || !prompt) {
-      return res.status(400).json({
-        success: false,
-        error: 'Missing required fields: threadId and prompt',
-      });
-    }
+    const { threadId, prompt, model }: CodexStreamRequest = req.body;
 
-    const thread = activeThreads.get(threadId);
+    const thread = await getThread(threadId);
     if (!thread) {
       return res.status(404).json({
         success: false,
@@ -148,9 +253,7 @@ router.post('/codex/stream', async (req: Request, res: Response) => {
 
     logger.info('Starting Codex stream', { threadId, prompt: prompt.substring(0, 50) });
 
-    const events = await codexService.runStream(thread, prompt, { model });
-
-    for await (const event of events) {
+    const onEvent = (event: CodexEvent) => {
       // Send event to client
       res.write(`data: ${JSON.stringify(event)}\n\n`);
 
@@ -158,10 +261,26 @@ router.post('/codex/stream', async (req: Request, res: Response) => {
       if (event.type === 'turn.completed') {
         logger.info('Codex stream completed', { threadId });
       }
-    }
+    };
+
+    await runCancellable(threadId, (signal) =>
+      codexService.runStreamWithHandler(thread, prompt, onEvent, { model, signal })
+    );
+
+    await recordCodexThreadId(threadId, thread);
 
     res.end();
   } catch (error) {
+    if (error instanceof TurnCancelledError) {
+      // The stream already ended with a turn.cancelled event
+      logger.info('Codex stream cancelled', { threadId: req.body.threadId });
+      return res.end();
+    }
+
+    if (error instanceof ThreadPolicyError && !res.headersSent) {
+      return rejectByPolicy(res, error);
+    }
+
     logger.error('Error streaming Codex prompt', { error });
     res.status(500).json({
       success: false,
@@ -171,30 +290,66 @@ router.post('/codex/stream', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /codex/thread/:threadId/cancel
+ * Cancel the turn currently running on a thread
+ * Streams started with /codex/stream end with a turn.cancelled event
+ */
+router.post('/codex/thread/:threadId/cancel', validateRequest(apiRoutes.codexThreadCancel), (req: Request, res: Response) => {
+  const { threadId } = req.params;
+  const controller = runningTurns.get(threadId);
+
+  if (!controller) {
+    return res.status(404).json({
+      success: false,
+      error: 'No turn is running on this thread',
+    });
+  }
+
+  controller.abort();
+  logger.info('Cancelling Codex turn', { threadId });
+
+  res.json({
+    success: true,
+    message: 'Turn cancellation requested',
+  });
+});
+
 /**
  * POST /codex/resume
- * Resume an existing thread
+ * Resume an existing thread in a working directory
  */
-router.post('/codex/resume', async (req: Request, res: Response) => {
+router.post('/codex/resume', validateRequest(apiRoutes.codexResume), async (req: Request, res: Response) => {
   try {
-    const { sessionId } = req.body;
-
-    if (!sessionId) {
-      return res.status(400).json({
-        success: false,
-        error: 'Missing required field: sessionId',
-      });
-    }
+    const {
+      sessionId,
+      workingDirectory,
+      skipGitRepoCheck = true,
+      model,
+      yoloMode = false,
+      approvalMode,
+      sandboxMode,
+    }: CodexResumeRequest = req.body;
 
     logger.info('Resuming Codex thread', { sessionId });
 
-    const thread = await codexService.resumeThread(sessionId);
+    const threadOptions: CodexThreadOptions = {
+      workingDirectory,
+      skipGitRepoCheck,
+      model,
+      yoloMode,
+      approvalMode,
+      sandboxMode,
+      role: getApiClient(res)?.role,
+    };
+
+    const thread = await codexService.resumeThread(sessionId, threadOptions);
 
     // Generate a new thread ID for this session
     const threadId = `thread_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
     // Store the resumed thread
-    activeThreads.set(threadId, thread);
+    await saveThread(threadId, thread, threadOptions, sessionId);
 
     res.json({
       success: true,
@@ -202,6 +357,10 @@ router.post('/codex/resume', async (req: Request, res: Response) => {
       sessionId,
     });
   } catch (error) {
+    if (error instanceof ThreadPolicyError) {
+      return rejectByPolicy(res, error);
+    }
+
     logger.error('Error resuming Codex thread', { error });
     res.status(500).json({
       success: false,
@@ -215,11 +374,13 @@ router.post('/codex/resume', async (req: Request, res: Response) => {
  * DELETE /codex/thread/:threadId
  * Delete a thread from active threads
  */
-router.delete('/codex/thread/:threadId', (req: Request, res: Response) => {
+router.delete('/codex/thread/:threadId', validateRequest(apiRoutes.codexThreadDelete), async (req: Request, res: Response) => {
   const { threadId } = req.params;
 
-  if (activeThreads.has(threadId)) {
-    activeThreads.delete(threadId);
+  const wasActive = activeThreads.delete(threadId);
+  const wasStored = await environmentStore.removeThread(threadId);
+
+  if (wasActive || wasStored) {
     logger.info('Deleted Codex thread', { threadId });
 
     res.json({
@@ -238,8 +399,9 @@ router.delete('/codex/thread/:threadId', (req: Request, res: Response) => {
  * GET /codex/threads
  * List all active threads
  */
-router.get('/codex/threads', (req: Request, res: Response) => {
-  const threads = Array.from(activeThreads.keys());
+router.get('/codex/threads', async (req: Request, res: Response) => {
+  const records = await environmentStore.listThreads();
+  const threads = records.map((record) => record.threadId);
 
   res.json({
     success: true,
@@ -262,6 +424,8 @@ router.get('/codex/environments', (req: Request, res: Response) => {
         envId: env.envId,
         workingDirectory: env.workingDirectory,
         model: env.model,
+        storeId: env.storeId,
+        sessionId: env.sessionId,
         createdAt: env.createdAt,
       })),
       count: environments.length,
@@ -280,7 +444,7 @@ router.get('/codex/environments', (req: Request, res: Response) => {
  * GET /codex/environment/:envId
  * Get specific environment details
  */
-router.get('/codex/environment/:envId', (req: Request, res: Response) => {
+router.get('/codex/environment/:envId', validateRequest(apiRoutes.codexEnvironment), (req: Request, res: Response) => {
   try {
     const { envId } = req.params;
     const environment = codexService.getEnvironment(envId);
@@ -298,6 +462,8 @@ router.get('/codex/environment/:envId', (req: Request, res: Response) => {
         envId,
         workingDirectory: environment.workingDirectory,
         model: environment.model,
+        storeId: environment.storeId,
+        sessionId: environment.sessionId,
         createdAt: environment.createdAt,
       },
     });
@@ -315,17 +481,10 @@ router.get('/codex/environment/:envId', (req: Request, res: Response) => {
  * POST /codex/environment/:envId/run
  * Run a prompt on a specific environment
  */
-router.post('/codex/environment/:envId/run', async (req: Request, res: Response) => {
+router.post('/codex/environment/:envId/run', validateRequest(apiRoutes.codexEnvironmentRun), async (req: Request, res: Response) => {
   try {
     const { envId } = req.params;
-    const { prompt, model } = req.body;
-
-    if (!prompt) {
-      return res.status(400).json({
-        success: false,
-        error: 'Missing required field: prompt',
-      });
-    }
+    const { prompt, model, rejectIfBusy = false }: CodexEnvironmentRunRequest = req.body;
 
     const environment = codexService.getEnvironment(envId);
     if (!environment) {
@@ -335,9 +494,26 @@ router.post('/codex/environment/:envId/run', async (req: Request, res: Response)
       });
     }
 
+    if (rejectIfBusy && codexService.isEnvironmentBusy(envId)) {
+      return res.status(409).json({
+        success: false,
+        error: 'A turn is already running for this environment',
+        queueDepth: codexService.getQueueDepth(envId),
+      });
+    }
+
     logger.info('Running prompt on environment', { envId, prompt: prompt.substring(0, 50) });
 
-    const turn = await codexService.run(environment.thread, prompt, { model });
+    const turn = await codexService.runExclusive(
+      envId,
+      async (signal) => {
+        const result = await codexService.run(environment.thread, prompt, { model, signal });
+        await gitService.commitTurn(environment.workingDirectory, prompt);
+        return result;
+      },
+      { prompt }
+    );
+    await codexService.recordThreadId(envId);
 
     res.json({
       success: true,
@@ -346,6 +522,14 @@ router.post('/codex/environment/:envId/run', async (req: Request, res: Response)
       items: turn.items,
     });
   } catch (error) {
+    if (error instanceof TurnCancelledError) {
+      return res.status(409).json({
+        success: false,
+        error: 'Turn cancelled',
+        message: error.message,
+      });
+    }
+
     logger.error('Error running prompt on environment', { error });
     res.status(500).json({
       success: false,
@@ -359,7 +543,7 @@ router.post('/codex/environment/:envId/run', async (req: Request, res: Response)
  * DELETE /codex/environment/:envId
  * Remove an environment
  */
-router.delete('/codex/environment/:envId', (req: Request, res: Response) => {
+router.delete('/codex/environment/:envId', validateRequest(apiRoutes.codexEnvironmentDelete), (req: Request, res: Response) => {
   try {
     const { envId } = req.params;
     const deleted = codexService.removeEnvironment(envId);
@@ -389,7 +573,7 @@ router.delete('/codex/environment/:envId', (req: Request, res: Response) => {
  * POST /codex/quick-run
  * Quick run: Create thread, run prompt, and return result
  */
-router.post('/codex/quick-run', async (req: Request, res: Response) => {
+router.post('/codex/quick-run', validateRequest(apiRoutes.codexQuickRun), async (req: Request, res: Response) => {
   try {
     const {
       prompt,
@@ -398,14 +582,7 @@ router.post('/codex/quick-run', async (req: Request, res: Response) => {
       model = 'gpt-5-codex',
       yoloMode = false,
       outputSchema,
-    } = req.body;
-
-    if (!prompt) {
-      return res.status(400).json({
-        success: false,
-        error: 'Missing required field: prompt',
-      });
-    }
+    }: CodexQuickRunRequest = req.body;
 
     logger.info('Quick run Codex prompt', { prompt: prompt.substring(0, 50) });
 
@@ -416,6 +593,7 @@ router.post('/codex/quick-run', async (req: Request, res: Response) => {
         skipGitRepoCheck,
         model,
         yoloMode,
+        role: getApiClient(res)?.role,
       },
       {
         outputSchema,
@@ -428,6 +606,10 @@ router.post('/codex/quick-run', async (req: Request, res: Response) => {
       items: turn.items,
     });
   } catch (error) {
+    if (error instanceof ThreadPolicyError) {
+      return rejectByPolicy(res, error);
+    }
+
     logger.error('Error in quick run', { error });
     res.status(500).json({
       success: false,
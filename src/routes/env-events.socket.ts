@@ -0,0 +1,114 @@
+/**
+ * Environment Event Socket
+ *
+ * WebSocket endpoint for following the chat events of an environment:
+ * ws://host/env/{envId}/events/ws[?last_event_id=N][&api_key=KEY]
+ * Requires a client with the chat scope.
+ */
+
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { WebSocket, WebSocketServer } from 'ws';
+import logger from '../utils/logger';
+import codexService from '../services/codex.instance';
+import environmentEventLog from '../services/event-log.instance';
+import { parseLastEventId } from '../services/environment-event.log';
+import { authenticateUpgrade } from '../middleware/auth.middleware';
+
+const SOCKET_PATH_PATTERN = /^\/env\/([^/]+)\/events\/ws$/;
+const PING_INTERVAL_MS = 30000;
+
+/**
+ * Refuse an upgrade request with a plain HTTP response
+ */
+function rejectUpgrade(socket: Duplex, status: number, reason: string): void {
+  socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+  socket.destroy();
+}
+
+/**
+ * Serve environment event WebSockets on an HTTP server.
+ * Every message is one event as JSON, the same payload as the streaming
+ * webhook. A client that reconnects with the last event_number it saw
+ * (Last-Event-ID header or last_event_id query) first receives the events
+ * it missed from the buffer.
+ * @param server - HTTP server returned by app.listen
+ * @returns The WebSocket server
+ */
+export function attachEnvironmentEventSocket(server: Server): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const match = url.pathname.match(SOCKET_PATH_PATTERN);
+
+    if (!match) {
+      return rejectUpgrade(socket, 404, 'Not Found');
+    }
+
+    const client = authenticateUpgrade(req);
+    if (!client) {
+      return rejectUpgrade(socket, 401, 'Unauthorized');
+    }
+
+    if (!client.scopes.includes('chat')) {
+      return rejectUpgrade(socket, 403, 'Forbidden');
+    }
+
+    let envId: string;
+    try {
+      envId = decodeURIComponent(match[1]);
+    } catch {
+      return rejectUpgrade(socket, 400, 'Bad Request');
+    }
+
+    if (!codexService.getEnvironment(envId)) {
+      return rejectUpgrade(socket, 404, 'Not Found');
+    }
+
+    const lastEventId = parseLastEventId(req.headers['last-event-id'] ?? url.searchParams.get('last_event_id') ?? undefined);
+    if (lastEventId === null) {
+      return rejectUpgrade(socket, 400, 'Bad Request');
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      let alive = true;
+
+      const unsubscribe = environmentEventLog.follow(envId, lastEventId, (event) => {
+        if (ws.readyState === WebSocket.OPEN) {
+          ws.send(JSON.stringify(event));
+        }
+      });
+
+      // Drop connections that stopped answering pings
+      const ping = setInterval(() => {
+        if (!alive) {
+          ws.terminate();
+          return;
+        }
+        alive = false;
+        ws.ping();
+      }, PING_INTERVAL_MS);
+
+      ws.on('pong', () => {
+        alive = true;
+      });
+
+      ws.on('close', () => {
+        clearInterval(ping);
+        unsubscribe();
+        logger.info('WebSocket client disconnected from environment events', { envId });
+      });
+
+      ws.on('error', (error) => {
+        logger.warn('Environment event socket error', { envId, error: error.message });
+      });
+
+      logger.info('WebSocket client subscribed to environment events', { envId, lastEventId });
+    });
+  });
+
+  return wss;
+}
+
+export default attachEnvironmentEventSocket;
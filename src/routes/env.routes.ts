@@ -0,0 +1,500 @@
+/**
+ * Environment Routes
+ *
+ * Endpoints for inspecting and restoring the theme of a Codex environment,
+ * for managing its theme dev server and for following and reading its chats
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireScope } from '../middleware/auth.middleware';
+import { validateRequest } from '../middleware/validate.middleware';
+import { apiRoutes } from '../schemas/api-routes';
+import logger from '../utils/logger';
+import codexService from '../services/codex.instance';
+import { GitService } from '../services/git.service';
+import devServerManager from '../services/dev-server.instance';
+import { DevServerInfo, DevServerStream } from '../services/dev-server.manager';
+import environmentEventLog from '../services/event-log.instance';
+import { parseLastEventId } from '../services/environment-event.log';
+import transcriptStore from '../services/transcript.instance';
+import { TranscriptTurn, formatTranscriptMarkdown } from '../services/transcript.store';
+import {
+  DevServerData,
+  DevServerLogsData,
+  EnvDiffData,
+  EnvHistoryData,
+  EnvRollbackData,
+  RollbackRequest,
+  StandardAPIResponse,
+  TranscriptPageData,
+  TranscriptTurnData
+} from '../types/theme.types';
+
+const router = Router();
+const gitService = new GitService();
+
+const SSE_HEARTBEAT_MS = 25000;
+const SSE_RETRY_MS = 3000;
+
+function formatDevServer(info: DevServerInfo): DevServerData {
+  return {
+    env_id: info.envId,
+    theme_id: info.themeId,
+    status: info.status,
+    running: info.status === 'running',
+    pid: info.pid,
+    port: info.port,
+    uptime_seconds: info.uptimeSeconds,
+    started_at: info.startedAt.toISOString(),
+    restarts: info.restarts,
+    last_exit_code: info.lastExitCode,
+    last_exit_signal: info.lastExitSignal,
+    last_exit_at: info.lastExitAt?.toISOString(),
+    next_restart_at: info.nextRestartAt?.toISOString()
+  };
+}
+
+function formatTranscriptTurn(turn: TranscriptTurn): TranscriptTurnData {
+  return {
+    turn_id: turn.turnId,
+    mode: turn.mode,
+    prompt: turn.prompt,
+    model: turn.model,
+    status: turn.status,
+    final_response: turn.finalResponse,
+    items: turn.items,
+    usage: turn.usage,
+    error: turn.error,
+    commit: turn.commit,
+    created_at: turn.createdAt,
+    started_at: turn.startedAt,
+    completed_at: turn.completedAt
+  };
+}
+
+/**
+ * GET /env/:envId/history
+ * List the theme snapshots of an environment, newest first
+ * One snapshot is committed for the pulled baseline and for each completed chat turn
+ */
+router.get('/env/:envId/history', requireScope('theme'), validateRequest(apiRoutes.envHistory), async (req: Request, res: Response) => {
+  const { envId } = req.params;
+  const limit = req.query.limit ? Number(req.query.limit) : 50;
+
+  const environment = codexService.getEnvironment(envId);
+  if (!environment) {
+    return res.status(404).json({
+      success: false,
+      message: `Environment not found: ${envId}`
+    });
+  }
+
+  try {
+    const snapshots = await gitService.getHistory(environment.workingDirectory, limit);
+
+    const response: StandardAPIResponse<EnvHistoryData> = {
+      success: true,
+      message: `Found ${snapshots.length} snapshots for environment ${envId}`,
+      data: {
+        env_id: envId,
+        snapshots: snapshots.map((snapshot) => ({
+          commit: snapshot.commit,
+          message: snapshot.message,
+          created_at: snapshot.createdAt
+        }))
+      }
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    logger.error('Error reading environment history', { envId, error: error.message });
+    res.status(500).json({
+      success: false,
+      message: `Failed to read history: ${error.message}`
+    });
+  }
+});
+
+/**
+ * GET /env/:envId/diff
+ * Unified diff plus per-file summary of what the agent changed
+ * Query:
+ *   from    - Base snapshot (default: the pulled baseline)
+ *   to      - Target snapshot (default: the current theme files)
+ *   turn    - Show only the changes of one snapshot (overrides from/to)
+ *   summary - "true" to omit the unified diff text
+ */
+router.get('/env/:envId/diff', requireScope('theme'), validateRequest(apiRoutes.envDiff), async (req: Request, res: Response) => {
+  const { envId } = req.params;
+  const { from, to, turn, summary } = req.query;
+
+  const environment = codexService.getEnvironment(envId);
+  if (!environment) {
+    return res.status(404).json({
+      success: false,
+      message: `Environment not found: ${envId}`
+    });
+  }
+
+  const workingDirectory = environment.workingDirectory;
+
+  try {
+    let fromCommit: string | null;
+    let toCommit: string | null = null;
+
+    if (typeof turn === 'string') {
+      toCommit = await gitService.resolveCommit(workingDirectory, turn);
+      fromCommit = toCommit && await gitService.resolveCommit(workingDirectory, `${toCommit}~1`);
+    } else {
+      fromCommit = typeof from === 'string'
+        ? await gitService.resolveCommit(workingDirectory, from)
+        : await gitService.getBaselineCommit(workingDirectory);
+
+      if (typeof to === 'string') {
+        toCommit = await gitService.resolveCommit(workingDirectory, to);
+        if (!toCommit) {
+          return res.status(404).json({
+            success: false,
+            message: `Snapshot not found: ${to}`
+          });
+        }
+      }
+    }
+
+    if (!fromCommit) {
+      return res.status(404).json({
+        success: false,
+        message: typeof turn === 'string'
+          ? `Snapshot not found or has no parent: ${turn}`
+          : `Snapshot not found: ${from || 'baseline'}`
+      });
+    }
+
+    const [files, diff] = await Promise.all([
+      gitService.getDiffSummary(workingDirectory, fromCommit, toCommit || undefined),
+      summary === 'true'
+        ? Promise.resolve(undefined)
+        : gitService.getDiff(workingDirectory, fromCommit, toCommit || undefined)
+    ]);
+
+    const response: StandardAPIResponse<EnvDiffData> = {
+      success: true,
+      message: `${files.length} files changed in environment ${envId}`,
+      data: {
+        env_id: envId,
+        from: fromCommit,
+        to: toCommit || 'working-tree',
+        totals: {
+          files: files.length,
+          added: files.reduce((sum, file) => sum + file.added, 0),
+          removed: files.reduce((sum, file) => sum + file.removed, 0)
+        },
+        files,
+        diff
+      }
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    logger.error('Error computing environment diff', { envId, error: error.message });
+    res.status(500).json({
+      success: false,
+      message: `Failed to compute diff: ${error.message}`
+    });
+  }
+});
+
+/**
+ * POST /env/:envId/rollback
+ * Restore the theme to an earlier snapshot, either by commit or by number of steps back
+ * Without a body this undoes the last change
+ */
+router.post('/env/:envId/rollback', requireScope('theme'), validateRequest(apiRoutes.envRollback), async (req: Request, res: Response) => {
+  const { envId } = req.params;
+  const request: RollbackRequest = req.body || {};
+
+  const environment = codexService.getEnvironment(envId);
+  if (!environment) {
+    return res.status(404).json({
+      success: false,
+      message: `Environment not found: ${envId}`
+    });
+  }
+
+  if (codexService.isEnvironmentBusy(envId)) {
+    return res.status(409).json({
+      success: false,
+      message: `A turn is running for environment ${envId}; cancel it or wait before rolling back`
+    });
+  }
+
+  const target = request.commit || `HEAD~${request.steps ?? 1}`;
+  const workingDirectory = environment.workingDirectory;
+
+  try {
+    const commit = await gitService.resolveCommit(workingDirectory, target);
+    if (!commit) {
+      return res.status(404).json({
+        success: false,
+        message: `Snapshot not found: ${target}`
+      });
+    }
+
+    // Hold the environment's turn queue so no prompt runs mid-rollback
+    const rollbackCommit = await codexService.runExclusive(
+      envId,
+      () => gitService.rollback(workingDirectory, commit),
+      { prompt: `Rollback to ${commit}` }
+    );
+
+    logger.info('Rolled back environment', { envId, commit });
+
+    const response: StandardAPIResponse<EnvRollbackData> = {
+      success: true,
+      message: `Environment ${envId} restored to ${commit.substring(0, 7)}`,
+      data: { env_id: envId, restored: commit, commit: rollbackCommit }
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    logger.error('Error rolling back environment', { envId, error: error.message });
+    res.status(500).json({
+      success: false,
+      message: `Failed to roll back: ${error.message}`
+    });
+  }
+});
+
+/**
+ * GET /env/:envId/dev-server
+ * Status of the environment's theme dev server
+ */
+router.get('/env/:envId/dev-server', requireScope('theme'), validateRequest(apiRoutes.devServer), (req: Request, res: Response) => {
+  const { envId } = req.params;
+
+  const info = devServerManager.get(envId);
+  if (!info) {
+    return res.status(404).json({
+      success: false,
+      message: `No dev server for environment: ${envId}`
+    });
+  }
+
+  const response: StandardAPIResponse<DevServerData> = {
+    success: true,
+    message: `Dev server for environment ${envId} is ${info.status}`,
+    data: formatDevServer(info)
+  };
+
+  res.json(response);
+});
+
+/**
+ * POST /env/:envId/dev-server/restart
+ * Restart the theme dev server on its port; also starts a stopped or crashed server
+ */
+router.post('/env/:envId/dev-server/restart', requireScope('theme'), validateRequest(apiRoutes.devServerRestart), async (req: Request, res: Response) => {
+  const { envId } = req.params;
+
+  try {
+    const info = await devServerManager.restart(envId);
+    if (!info) {
+      return res.status(404).json({
+        success: false,
+        message: `No dev server for environment: ${envId}`
+      });
+    }
+
+    const response: StandardAPIResponse<DevServerData> = {
+      success: true,
+      message: `Dev server for environment ${envId} restarted on port ${info.port}`,
+      data: formatDevServer(info)
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    logger.error('Error restarting dev server', { envId, error: error.message });
+    res.status(500).json({
+      success: false,
+      message: `Failed to restart dev server: ${error.message}`
+    });
+  }
+});
+
+/**
+ * POST /env/:envId/dev-server/stop
+ * Stop the theme dev server; it is not restarted until requested
+ */
+router.post('/env/:envId/dev-server/stop', requireScope('theme'), validateRequest(apiRoutes.devServerStop), async (req: Request, res: Response) => {
+  const { envId } = req.params;
+
+  try {
+    const stopped = await devServerManager.stop(envId);
+    if (!stopped) {
+      return res.status(404).json({
+        success: false,
+        message: `No dev server for environment: ${envId}`
+      });
+    }
+
+    const response: StandardAPIResponse<DevServerData> = {
+      success: true,
+      message: `Dev server for environment ${envId} stopped`,
+      data: formatDevServer(devServerManager.get(envId)!)
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    logger.error('Error stopping dev server', { envId, error: error.message });
+    res.status(500).json({
+      success: false,
+      message: `Failed to stop dev server: ${error.message}`
+    });
+  }
+});
+
+/**
+ * GET /env/:envId/dev-server/logs
+ * Recent output of the theme dev server
+ * Query:
+ *   stream - "stdout" or "stderr" (default: both, interleaved)
+ *   limit  - Maximum number of lines (default: 200)
+ */
+router.get('/env/:envId/dev-server/logs', requireScope('theme'), validateRequest(apiRoutes.devServerLogs), (req: Request, res: Response) => {
+  const { envId } = req.params;
+  const stream = req.query.stream as DevServerStream | undefined;
+  const limit = req.query.limit ? Number(req.query.limit) : 200;
+
+  const lines = devServerManager.getLogs(envId, { stream, limit });
+  if (!lines) {
+    return res.status(404).json({
+      success: false,
+      message: `No dev server for environment: ${envId}`
+    });
+  }
+
+  const response: StandardAPIResponse<DevServerLogsData> = {
+    success: true,
+    message: `${lines.length} log lines for environment ${envId}`,
+    data: {
+      env_id: envId,
+      lines: lines.map((line) => ({
+        stream: line.stream,
+        line: line.line,
+        at: line.at.toISOString()
+      }))
+    }
+  };
+
+  res.json(response);
+});
+
+/**
+ * GET /env/:envId/transcript
+ * Chat turns of an environment, oldest first
+ * Query:
+ *   offset - Turns to skip (default: 0)
+ *   limit  - Maximum number of turns (default: 50, at most 200)
+ *   format - "json" or "markdown" to download the whole transcript instead of a page
+ */
+router.get('/env/:envId/transcript', requireScope('chat'), validateRequest(apiRoutes.envTranscript), async (req: Request, res: Response) => {
+  const { envId } = req.params;
+  const format = req.query.format as 'json' | 'markdown' | undefined;
+  const offset = req.query.offset ? Number(req.query.offset) : 0;
+  const limit = req.query.limit ? Number(req.query.limit) : 50;
+
+  if (!codexService.getEnvironment(envId)) {
+    return res.status(404).json({
+      success: false,
+      message: `Environment not found: ${envId}`
+    });
+  }
+
+  try {
+    if (format) {
+      const { turns } = await transcriptStore.listTurns(envId);
+      const fileName = `transcript-${envId}.${format === 'markdown' ? 'md' : 'json'}`;
+
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+
+      if (format === 'markdown') {
+        return res.type('text/markdown').send(formatTranscriptMarkdown(envId, turns));
+      }
+      return res.json({ env_id: envId, exported_at: new Date().toISOString(), turns: turns.map(formatTranscriptTurn) });
+    }
+
+    const { turns, total } = await transcriptStore.listTurns(envId, { offset, limit });
+
+    const response: StandardAPIResponse<TranscriptPageData> = {
+      success: true,
+      message: `Found ${total} turns for environment ${envId}`,
+      data: {
+        env_id: envId,
+        total,
+        offset,
+        limit,
+        turns: turns.map(formatTranscriptTurn)
+      }
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    logger.error('Error reading transcript', { envId, error: error.message });
+    res.status(500).json({
+      success: false,
+      message: `Failed to read transcript: ${error.message}`
+    });
+  }
+});
+
+/**
+ * GET /env/:envId/events
+ * Live streaming chat events of an environment (Server-Sent Events).
+ * Each event's id is its event_number; EventSource reconnects with
+ * Last-Event-ID and receives the events it missed from the buffer.
+ * Query:
+ *   last_event_id - Replay events after this number (for clients that cannot set the header)
+ */
+router.get('/env/:envId/events', requireScope('chat'), validateRequest(apiRoutes.envEvents), (req: Request, res: Response) => {
+  const { envId } = req.params;
+
+  if (!codexService.getEnvironment(envId)) {
+    return res.status(404).json({
+      success: false,
+      message: `Environment not found: ${envId}`
+    });
+  }
+
+  const lastEventId = parseLastEventId(req.get('Last-Event-ID') ?? req.query.last_event_id);
+  if (lastEventId === null) {
+    return res.status(400).json({
+      success: false,
+      message: 'Last-Event-ID must be an event number'
+    });
+  }
+
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  // Keep reverse proxies from buffering the stream
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+  res.write(`retry: ${SSE_RETRY_MS}\n\n`);
+
+  const unsubscribe = environmentEventLog.follow(envId, lastEventId, (event) => {
+    const id = event.event_number !== undefined ? `id: ${event.event_number}\n` : '';
+    res.write(`${id}data: ${JSON.stringify(event)}\n\n`);
+  });
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), SSE_HEARTBEAT_MS);
+
+  logger.info('SSE client subscribed to environment events', { envId, lastEventId });
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    logger.info('SSE client disconnected from environment events', { envId });
+  });
+});
+
+export default router;
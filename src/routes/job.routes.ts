@@ -0,0 +1,63 @@
+/**
+ * Job Routes
+ *
+ * Endpoints for querying background jobs started by
+ * /selected-theme, /theme/:themeId/push, /chat and /chat-streaming
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireScope } from '../middleware/auth.middleware';
+import { validateRequest } from '../middleware/validate.middleware';
+import { apiRoutes } from '../schemas/api-routes';
+import jobService from '../services/job.instance';
+import { JobInfo, JobListData, JobStatus, JobType, StandardAPIResponse } from '../types/theme.types';
+
+const router = Router();
+
+/**
+ * GET /jobs
+ * List jobs, newest first
+ * Optional query filters: type, status, env_id
+ */
+router.get('/jobs', requireScope('theme', 'chat'), validateRequest(apiRoutes.jobs), (req: Request, res: Response) => {
+  const { type, status, env_id } = req.query;
+
+  const jobs = jobService.listJobs({
+    type: typeof type === 'string' ? (type as JobType) : undefined,
+    status: typeof status === 'string' ? (status as JobStatus) : undefined,
+    envId: typeof env_id === 'string' ? env_id : undefined,
+  });
+
+  const response: StandardAPIResponse<JobListData> = {
+    success: true,
+    message: `Found ${jobs.length} jobs`,
+    data: { jobs, count: jobs.length }
+  };
+
+  res.json(response);
+});
+
+/**
+ * GET /jobs/:id
+ * Get the status, timestamps and result/error of a job
+ */
+router.get('/jobs/:id', requireScope('theme', 'chat'), validateRequest(apiRoutes.job), (req: Request, res: Response) => {
+  const job = jobService.getJob(req.params.id);
+
+  if (!job) {
+    return res.status(404).json({
+      success: false,
+      message: `Job not found: ${req.params.id}`
+    });
+  }
+
+  const response: StandardAPIResponse<JobInfo> = {
+    success: true,
+    message: `Job ${job.id} is ${job.status}`,
+    data: job
+  };
+
+  res.json(response);
+});
+
+export default router;
@@ -0,0 +1,20 @@
+/**
+ * OpenAPI Routes
+ *
+ * Serves the OpenAPI document of the API (public, like /health)
+ */
+
+import { Router, Request, Response } from 'express';
+import { buildOpenApiDocument } from '../schemas/openapi';
+
+const router = Router();
+
+/**
+ * GET /openapi.json
+ * OpenAPI 3 document with the request schemas of every validated route
+ */
+router.get('/openapi.json', (req: Request, res: Response) => {
+  res.json(buildOpenApiDocument(`${req.protocol}://${req.get('host')}`));
+});
+
+export default router;
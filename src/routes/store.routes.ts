@@ -0,0 +1,39 @@
+/**
+ * Store Routes
+ *
+ * Endpoints for inspecting the configured Shopify stores and known sessions
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireScope } from '../middleware/auth.middleware';
+import storeRegistry from '../services/store.instance';
+import { StandardAPIResponse } from '../types/theme.types';
+
+const router = Router();
+
+/**
+ * GET /stores
+ * List configured stores (without credentials) and the sessions bound to them
+ */
+router.get('/stores', requireScope('theme'), (_req: Request, res: Response) => {
+  const stores = storeRegistry.listStores().map((store) => ({
+    store_id: store.storeId,
+    store_url: store.storeUrl,
+    session_id: store.sessionId
+  }));
+
+  const sessions = storeRegistry.listSessions().map((session) => ({
+    session_id: session.sessionId,
+    store_id: session.storeId
+  }));
+
+  const response: StandardAPIResponse = {
+    success: true,
+    message: `Found ${stores.length} stores`,
+    data: { stores, sessions }
+  };
+
+  res.json(response);
+});
+
+export default router;
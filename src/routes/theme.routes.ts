@@ -1,68 +1,239 @@
 import { Router, Request, Response } from 'express';
-import axios from 'axios';
+import { requireScope } from '../middleware/auth.middleware';
+import { validateRequest } from '../middleware/validate.middleware';
+import { apiRoutes } from '../schemas/api-routes';
 import logger from '../utils/logger';
 import { config } from '../config/environment';
-import { ShopifyService } from '../services/shopify.service';
-import { BasicAuthService } from '../services/auth.service';
+import { ShopifyService, ThemePushResult } from '../services/shopify.service';
+import { isValidThemeId } from '../services/shopify-cli.runner';
+import codexService from '../services/codex.instance';
+import jobService from '../services/job.instance';
+import storeRegistry from '../services/store.instance';
+import webhookDispatcher from '../services/webhook-dispatcher.instance';
+import { StoreContext } from '../services/store.registry';
 import {
   ThemeDownloadRequest,
+  ThemePushRequest,
   StandardAPIResponse,
-  ThemeDownloadWebhookPayload
+  ThemeJobData,
+  ThemeDownloadWebhookPayload,
+  ThemeProgressWebhookPayload,
+  ThemePushWebhookPayload
 } from '../types/theme.types';
 
 const router = Router();
-const authService = new BasicAuthService();
 
-async function fetchAndDownloadTheme(themeId: string): Promise<void> {
-  const shopifyService = new ShopifyService();
+async function sendThemeWebhook(
+  sessionId: string,
+  payload: ThemeDownloadWebhookPayload | ThemePushWebhookPayload | ThemeProgressWebhookPayload,
+  idempotencyKey?: string
+): Promise<void> {
+  const fullWebhookUrl = `${config.WEBHOOK_URL}/theme/${encodeURIComponent(sessionId)}`;
+  await webhookDispatcher.dispatch(fullWebhookUrl, payload, { idempotencyKey });
+}
 
-  try {
-    const { themeId: newThemeId, envId } = await shopifyService.downloadTheme(themeId);
-
-    const payload: ThemeDownloadWebhookPayload = {
-      success: true,
-      theme_id: newThemeId,
-      env_id: envId
-    };
-
-    const fullWebhookUrl = `${config.WEBHOOK_URL}/theme/${config.SESSION_ID}`;
-    await axios.post(fullWebhookUrl, payload, {
-      timeout: 10000,
-      headers: authService.getAuthHeaders()
-    });
-    logger.info(`Theme ${newThemeId} started successfully.`);
+async function fetchAndDownloadTheme(
+  themeId: string,
+  context: StoreContext,
+  jobId: string
+): Promise<ThemeDownloadWebhookPayload> {
+  const shopifyService = new ShopifyService(context.store);
+  let result: { themeId: string; envId: string; devServerPort: number };
 
+  try {
+    result = await shopifyService.downloadTheme(themeId, context.sessionId, (progress) =>
+      sendThemeWebhook(context.sessionId, {
+        type: progress.stage,
+        job_id: jobId,
+        store_id: context.store.storeId,
+        source_theme_id: progress.sourceThemeId,
+        theme_id: progress.themeId,
+        env_id: progress.envId,
+        elapsed_ms: progress.elapsedMs,
+        duration_ms: progress.durationMs,
+        attempt: progress.attempt,
+        max_attempts: progress.maxAttempts,
+        progress: progress.progress,
+        processing: progress.processing,
+        asset_count: progress.assetCount,
+        source_asset_count: progress.sourceAssetCount,
+        file_count: progress.fileCount,
+        dev_server_port: progress.devServerPort
+      })
+    );
   } catch (error: any) {
     logger.error(`Error downloading theme: ${error.message}`);
 
-    const errorPayload: ThemeDownloadWebhookPayload = {
+    await sendThemeWebhook(context.sessionId, {
+      success: false,
+      job_id: jobId,
+      store_id: context.store.storeId,
+      error: error.message
+    }, `${jobId}:result`);
+    throw error;
+  }
+
+  const payload: ThemeDownloadWebhookPayload = {
+    success: true,
+    job_id: jobId,
+    store_id: context.store.storeId,
+    theme_id: result.themeId,
+    env_id: result.envId,
+    dev_server_port: result.devServerPort,
+    preview_path: `/preview/${result.envId}/`
+  };
+
+  await sendThemeWebhook(context.sessionId, payload, `${jobId}:result`);
+  logger.info(`Theme ${result.themeId} started successfully.`);
+
+  return payload;
+}
+
+async function pushAndPublishTheme(
+  themeId: string,
+  request: ThemePushRequest,
+  themePath: string,
+  context: StoreContext,
+  jobId: string
+): Promise<ThemePushWebhookPayload> {
+  const shopifyService = new ShopifyService(context.store);
+  let result: ThemePushResult;
+
+  const push = () => shopifyService.pushTheme(themeId, themePath, {
+    only: request.only,
+    ignore: request.ignore,
+    publish: request.publish
+  });
+
+  try {
+    // A push from an environment's workspace takes its place in the turn queue,
+    // so it never uploads files a running turn is halfway through editing
+    result = request.env_id
+      ? await codexService.runExclusive(request.env_id, push, { turnId: jobId, onStart: () => jobService.markRunning(jobId) })
+      : await push();
+  } catch (error: any) {
+    logger.error(`Error pushing theme: ${error.message}`);
+
+    await sendThemeWebhook(context.sessionId, {
       success: false,
+      job_id: jobId,
+      store_id: context.store.storeId,
+      theme_id: themeId,
+      env_id: request.env_id,
       error: error.message
-    };
-
-    try {
-      const fullWebhookUrl = `${config.WEBHOOK_URL}/theme/${config.SESSION_ID}`;
-      await axios.post(fullWebhookUrl, errorPayload, {
-        timeout: 10000,
-        headers: authService.getAuthHeaders()
-      });
-    } catch (webhookError: any) {
-      logger.error(`Webhook error: ${webhookError.message}`);
-    }
+    }, `${jobId}:result`);
+    throw error;
   }
+
+  const payload: ThemePushWebhookPayload = {
+    success: true,
+    job_id: jobId,
+    store_id: context.store.storeId,
+    theme_id: result.themeId,
+    env_id: request.env_id,
+    published: result.published
+  };
+
+  await sendThemeWebhook(context.sessionId, payload, `${jobId}:result`);
+  logger.info(`Theme ${result.themeId} pushed successfully.`);
+
+  return payload;
 }
 
-router.post('/selected-theme', (req: Request, res: Response) => {
-  const request: ThemeDownloadRequest = req.body;
+/**
+ * POST /selected-theme
+ * Duplicate, pull and set up a theme of a store
+ * Sends result to webhook: {WEBHOOK_URL}/theme/{session_id}
+ */
+router.post('/selected-theme', requireScope('theme'), validateRequest(apiRoutes.selectedTheme), (req: Request, res: Response) => {
+  const request: ThemeDownloadRequest = req.body || {};
+  const themeId = String(request.theme_id ?? '');
+
+  if (!isValidThemeId(themeId)) {
+    return res.status(400).json({
+      success: false,
+      message: 'theme_id must be a numeric Shopify theme ID'
+    });
+  }
+
+  let context: StoreContext;
+  try {
+    context = storeRegistry.resolve({ storeId: request.store_id, sessionId: request.session_id });
+  } catch (error: any) {
+    return res.status(404).json({
+      success: false,
+      message: error.message
+    });
+  }
+
+  logger.info(`Download theme ${themeId} from ${context.store.storeUrl}`);
+
+  // Trigger background job (don't await)
+  const job = jobService.enqueue('theme.download', { themeId }, ({ id: jobId }) =>
+    fetchAndDownloadTheme(themeId, context, jobId)
+  );
+
+  const response: StandardAPIResponse<ThemeJobData> = {
+    success: true,
+    message: `Theme download request for ${themeId} accepted. Results will be sent to webhook.`,
+    data: { job_id: job.id, store_id: context.store.storeId, session_id: context.sessionId }
+  };
+
+  res.json(response);
+});
+
+/**
+ * POST /theme/:themeId/push
+ * Push the local theme files (optionally publishing the theme)
+ * Sends result to webhook: {WEBHOOK_URL}/theme/{session_id}
+ */
+router.post('/theme/:themeId/push', requireScope('theme'), validateRequest(apiRoutes.themePush), (req: Request, res: Response) => {
+  const { themeId } = req.params;
+  const request: ThemePushRequest = req.body || {};
+
+  if (!isValidThemeId(themeId)) {
+    return res.status(400).json({
+      success: false,
+      message: 'themeId must be a numeric Shopify theme ID'
+    });
+  }
+
+  const environment = request.env_id ? codexService.getEnvironment(request.env_id) : undefined;
+
+  if (request.env_id && !environment) {
+    return res.status(404).json({
+      success: false,
+      message: `Environment not found: ${request.env_id}`
+    });
+  }
+
+  let context: StoreContext;
+  try {
+    context = storeRegistry.resolve({
+      storeId: environment?.storeId || request.store_id,
+      sessionId: request.session_id || environment?.sessionId
+    });
+  } catch (error: any) {
+    return res.status(404).json({
+      success: false,
+      message: error.message
+    });
+  }
+
+  const themePath = environment?.workingDirectory || new ShopifyService(context.store).getThemePath(themeId);
 
-  logger.info(`Download theme ${request.theme_id} from ${config.SHOPIFY_STORE_URL}`);
+  logger.info(`Push theme ${themeId} from ${themePath} to ${context.store.storeUrl}`);
 
-  // Trigger background task (don't await)
-  fetchAndDownloadTheme(request.theme_id);
+  // Trigger background job (don't await)
+  const job = jobService.enqueue('theme.push', { themeId, envId: request.env_id }, ({ id: jobId }) =>
+    pushAndPublishTheme(themeId, request, themePath, context, jobId),
+    { deferStart: Boolean(environment) }
+  );
 
-  const response: StandardAPIResponse = {
+  const response: StandardAPIResponse<ThemeJobData> = {
     success: true,
-    message: `Theme download request for ${request.theme_id} accepted. Results will be sent to webhook.`
+    message: `Theme push request for ${themeId} accepted. Results will be sent to webhook.`,
+    data: { job_id: job.id, store_id: context.store.storeId, session_id: context.sessionId }
   };
 
   res.json(response);
@@ -0,0 +1,195 @@
+/**
+ * Usage Routes
+ *
+ * Endpoints for token usage, costs and session budgets
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireScope } from '../middleware/auth.middleware';
+import { validateRequest } from '../middleware/validate.middleware';
+import { apiRoutes } from '../schemas/api-routes';
+import logger from '../utils/logger';
+import usageTracker from '../services/usage.instance';
+import { SessionBudget, SessionBudgetStatus, UsageRecord, UsageTotals } from '../services/usage.tracker';
+import {
+  SessionBudgetData,
+  SessionBudgetRequest,
+  StandardAPIResponse,
+  UsageRecordData,
+  UsageSummaryData,
+  UsageTotalsData
+} from '../types/theme.types';
+
+const router = Router();
+
+function formatTotals(totals: UsageTotals): UsageTotalsData {
+  return {
+    turns: totals.turns,
+    input_tokens: totals.inputTokens,
+    cached_input_tokens: totals.cachedInputTokens,
+    output_tokens: totals.outputTokens,
+    total_tokens: totals.totalTokens,
+    cost_usd: totals.costUsd,
+    unpriced_turns: totals.unpricedTurns
+  };
+}
+
+function formatTotalsByKey(totalsByKey: Record<string, UsageTotals>): Record<string, UsageTotalsData> {
+  return Object.fromEntries(
+    Object.entries(totalsByKey).map(([key, totals]) => [key, formatTotals(totals)])
+  );
+}
+
+function formatRecord(record: UsageRecord): UsageRecordData {
+  return {
+    turn_id: record.turnId,
+    env_id: record.envId,
+    session_id: record.sessionId,
+    model: record.model,
+    input_tokens: record.inputTokens,
+    cached_input_tokens: record.cachedInputTokens,
+    output_tokens: record.outputTokens,
+    cost_usd: record.costUsd,
+    recorded_at: record.recordedAt
+  };
+}
+
+function formatBudgetStatus(status: SessionBudgetStatus): SessionBudgetData {
+  return {
+    session_id: status.sessionId,
+    max_cost_usd: status.budget.maxCostUsd,
+    max_tokens: status.budget.maxTokens,
+    custom: status.custom,
+    spent_cost_usd: status.spentCostUsd,
+    spent_tokens: status.spentTokens,
+    exceeded: status.exceeded
+  };
+}
+
+/**
+ * GET /usage
+ * Token usage and cost, overall and per environment, session and model
+ * Query:
+ *   env_id, session_id, model - Only count matching turns
+ *   since - ISO date; only count turns recorded from then on
+ *   limit - Most recent turns to list (default: 50, at most 500)
+ */
+router.get('/usage', requireScope('chat'), validateRequest(apiRoutes.usage), async (req: Request, res: Response) => {
+  const envId = req.query.env_id as string | undefined;
+  const sessionId = req.query.session_id as string | undefined;
+  const model = req.query.model as string | undefined;
+  const since = req.query.since ? new Date(String(req.query.since)) : undefined;
+  const limit = req.query.limit ? Number(req.query.limit) : 50;
+
+  try {
+    const filter = { envId, sessionId, model, since };
+    const summary = await usageTracker.summarize(filter);
+    const turns = await usageTracker.listTurns(filter, limit);
+
+    const response: StandardAPIResponse<UsageSummaryData> = {
+      success: true,
+      message: `Usage of ${summary.totals.turns} turns`,
+      data: {
+        totals: formatTotals(summary.totals),
+        by_env: formatTotalsByKey(summary.byEnv),
+        by_session: formatTotalsByKey(summary.bySession),
+        by_model: formatTotalsByKey(summary.byModel),
+        turns: turns.map(formatRecord),
+        budget: sessionId ? formatBudgetStatus(await usageTracker.getBudgetStatus(sessionId)) : undefined
+      }
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    logger.error('Error reading usage', { error: error.message });
+    res.status(500).json({
+      success: false,
+      message: `Failed to read usage: ${error.message}`
+    });
+  }
+});
+
+/**
+ * GET /usage/budgets/:sessionId
+ * Budget of a session and how much of it is spent
+ */
+router.get('/usage/budgets/:sessionId', requireScope('chat'), validateRequest(apiRoutes.sessionBudget), async (req: Request, res: Response) => {
+  const { sessionId } = req.params;
+
+  try {
+    const status = await usageTracker.getBudgetStatus(sessionId);
+
+    const response: StandardAPIResponse<SessionBudgetData> = {
+      success: true,
+      message: status.exceeded ? `Budget of session ${sessionId} is exceeded` : `Budget of session ${sessionId}`,
+      data: formatBudgetStatus(status)
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    logger.error('Error reading session budget', { sessionId, error: error.message });
+    res.status(500).json({
+      success: false,
+      message: `Failed to read budget: ${error.message}`
+    });
+  }
+});
+
+/**
+ * PUT /usage/budgets/:sessionId
+ * Set a session's own budget: {"max_cost_usd": 5, "max_tokens": 2000000}
+ * A limit that is left out is not enforced for the session
+ */
+router.put('/usage/budgets/:sessionId', requireScope('codex-admin'), validateRequest(apiRoutes.sessionBudgetSet), async (req: Request, res: Response) => {
+  const { sessionId } = req.params;
+  const { max_cost_usd, max_tokens }: SessionBudgetRequest = req.body;
+
+  try {
+    const budget: SessionBudget = { maxCostUsd: max_cost_usd, maxTokens: max_tokens };
+    const status = await usageTracker.setBudget(sessionId, budget);
+
+    logger.info('Session budget set', { sessionId, maxCostUsd: max_cost_usd, maxTokens: max_tokens });
+
+    const response: StandardAPIResponse<SessionBudgetData> = {
+      success: true,
+      message: `Budget of session ${sessionId} updated`,
+      data: formatBudgetStatus(status)
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    logger.error('Error setting session budget', { sessionId, error: error.message });
+    res.status(500).json({
+      success: false,
+      message: `Failed to set budget: ${error.message}`
+    });
+  }
+});
+
+/**
+ * DELETE /usage/budgets/:sessionId
+ * Remove a session's own budget so the default budget applies again
+ */
+router.delete('/usage/budgets/:sessionId', requireScope('codex-admin'), validateRequest(apiRoutes.sessionBudgetDelete), async (req: Request, res: Response) => {
+  const { sessionId } = req.params;
+
+  try {
+    const status = await usageTracker.setBudget(sessionId, null);
+
+    const response: StandardAPIResponse<SessionBudgetData> = {
+      success: true,
+      message: `Session ${sessionId} uses the default budget`,
+      data: formatBudgetStatus(status)
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    logger.error('Error removing session budget', { sessionId, error: error.message });
+    res.status(500).json({
+      success: false,
+      message: `Failed to remove budget: ${error.message}`
+    });
+  }
+});
+
+export default router;
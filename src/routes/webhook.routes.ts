@@ -0,0 +1,95 @@
+/**
+ * Webhook Routes
+ *
+ * Endpoints for inspecting and replaying webhooks that could not be delivered
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireScope } from '../middleware/auth.middleware';
+import { validateRequest } from '../middleware/validate.middleware';
+import { apiRoutes } from '../schemas/api-routes';
+import logger from '../utils/logger';
+import webhookDispatcher from '../services/webhook-dispatcher.instance';
+import { WebhookDelivery } from '../services/webhook.dispatcher';
+import { DeadLetterDelivery, DeadLetterListData, DeadLetterReplayData, StandardAPIResponse } from '../types/theme.types';
+
+const router = Router();
+
+function formatDelivery(delivery: WebhookDelivery): DeadLetterDelivery {
+  return {
+    id: delivery.id,
+    url: delivery.url,
+    idempotency_key: delivery.idempotencyKey,
+    attempts: delivery.attempts,
+    created_at: delivery.createdAt,
+    last_attempt_at: delivery.lastAttemptAt,
+    next_attempt_at: delivery.nextAttemptAt,
+    last_status: delivery.lastStatus,
+    last_error: delivery.lastError,
+    dead_at: delivery.deadAt,
+    payload: delivery.payload
+  };
+}
+
+/**
+ * GET /webhooks/dead-letter
+ * List webhooks that were given up on after all retries, newest first
+ */
+router.get('/webhooks/dead-letter', requireScope('codex-admin'), validateRequest(apiRoutes.deadLetters), async (req: Request, res: Response) => {
+  try {
+    const deliveries = await webhookDispatcher.listDeadLetters();
+
+    const response: StandardAPIResponse<DeadLetterListData> = {
+      success: true,
+      message: `Found ${deliveries.length} dead-letter webhooks`,
+      data: { deliveries: deliveries.map(formatDelivery), count: deliveries.length }
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    logger.error('Error listing dead-letter webhooks', { error: error.message });
+    res.status(500).json({
+      success: false,
+      message: `Failed to list dead-letter webhooks: ${error.message}`
+    });
+  }
+});
+
+/**
+ * POST /webhooks/dead-letter/:id/replay
+ * Send a dead-letter webhook again with a fresh retry budget and the same idempotency key
+ */
+router.post('/webhooks/dead-letter/:id/replay', requireScope('codex-admin'), validateRequest(apiRoutes.deadLetterReplay), async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const delivery = await webhookDispatcher.replay(id);
+
+    if (!delivery) {
+      return res.status(404).json({
+        success: false,
+        message: `Dead-letter webhook not found: ${id}`
+      });
+    }
+
+    const delivered = !delivery.nextAttemptAt && !delivery.deadAt;
+
+    const response: StandardAPIResponse<DeadLetterReplayData> = {
+      success: true,
+      message: delivered
+        ? `Webhook ${id} delivered`
+        : `Webhook ${id} replay failed: ${delivery.deadAt ? 'moved back to dead letter' : 'retry scheduled'}`,
+      data: { delivered, delivery: formatDelivery(delivery) }
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    logger.error('Error replaying webhook', { id, error: error.message });
+    res.status(500).json({
+      success: false,
+      message: `Failed to replay webhook: ${error.message}`
+    });
+  }
+});
+
+export default router;
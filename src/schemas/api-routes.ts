@@ -0,0 +1,442 @@
+/**
+ * API Routes
+ *
+ * The validated routes with their request and response schemas. Used by
+ * validateRequest, to build the OpenAPI document served at /openapi.json
+ * and to generate the TypeScript client (npm run generate:client).
+ */
+
+import { JsonSchema } from '../utils/json-schema';
+import { ApiScope } from '../services/api-auth.service';
+import {
+  budgetParamsSchema,
+  chatCancelRequestSchema,
+  chatRequestSchema,
+  chatStreamingRequestSchema,
+  codexEnvironmentRunRequestSchema,
+  codexQuickRunRequestSchema,
+  codexResumeRequestSchema,
+  codexRunRequestSchema,
+  codexStreamRequestSchema,
+  codexThreadRequestSchema,
+  deadLetterParamsSchema,
+  devServerLogsQuerySchema,
+  envDiffQuerySchema,
+  envEventsQuerySchema,
+  envHistoryQuerySchema,
+  envParamsSchema,
+  jobListQuerySchema,
+  jobParamsSchema,
+  rollbackRequestSchema,
+  sessionBudgetRequestSchema,
+  themeDownloadRequestSchema,
+  themeParamsSchema,
+  themePushRequestSchema,
+  threadParamsSchema,
+  transcriptQuerySchema,
+  turnParamsSchema,
+  usageQuerySchema
+} from './request.schemas';
+import {
+  chatAcceptedResponseSchema,
+  chatCancelResponseSchema,
+  chatQueueResponseSchema,
+  chatQueuedTurnCancelResponseSchema,
+  codexEnvironmentListResponseSchema,
+  codexEnvironmentResponseSchema,
+  codexEnvironmentRunResponseSchema,
+  codexMessageResponseSchema,
+  codexQuickRunResponseSchema,
+  codexResumeResponseSchema,
+  codexRunResponseSchema,
+  codexStreamEventSchema,
+  codexThreadListResponseSchema,
+  codexThreadResponseSchema,
+  deadLetterListResponseSchema,
+  deadLetterReplayResponseSchema,
+  devServerLogsResponseSchema,
+  devServerResponseSchema,
+  envDiffResponseSchema,
+  envHistoryResponseSchema,
+  envRollbackResponseSchema,
+  healthResponseSchema,
+  jobListResponseSchema,
+  jobResponseSchema,
+  sessionBudgetResponseSchema,
+  themeJobResponseSchema,
+  transcriptPageResponseSchema,
+  usageSummaryResponseSchema
+} from './response.schemas';
+import { chatStreamingWebhookSchema } from './webhook.schemas';
+
+export type ApiRouteMethod = 'get' | 'post' | 'put' | 'delete';
+
+export interface ApiRouteDefinition {
+  method: ApiRouteMethod;
+  path: string;         // Full Express path, e.g. /chat/:envId/cancel
+  summary: string;
+  tag: string;
+  scopes: ApiScope[];   // Any of these (empty = public)
+  params?: JsonSchema;
+  query?: JsonSchema;
+  body?: JsonSchema;
+  response?: JsonSchema;  // Successful JSON response
+  events?: JsonSchema;    // Or: each event of a Server-Sent Events response
+}
+
+const defineRoutes = <T extends Record<string, ApiRouteDefinition>>(routes: T): T => routes;
+
+export const apiRoutes = defineRoutes({
+  // Theme
+  selectedTheme: {
+    method: 'post',
+    path: '/selected-theme',
+    summary: 'Duplicate, pull and set up a theme of a store',
+    tag: 'Theme',
+    scopes: ['theme'],
+    body: themeDownloadRequestSchema,
+    response: themeJobResponseSchema
+  },
+  themePush: {
+    method: 'post',
+    path: '/theme/:themeId/push',
+    summary: 'Push the local theme files, optionally publishing the theme',
+    tag: 'Theme',
+    scopes: ['theme'],
+    params: themeParamsSchema,
+    body: themePushRequestSchema,
+    response: themeJobResponseSchema
+  },
+  health: {
+    method: 'get',
+    path: '/health',
+    summary: 'Health check',
+    tag: 'Theme',
+    scopes: [],
+    response: healthResponseSchema
+  },
+
+  // Chat
+  chat: {
+    method: 'post',
+    path: '/chat',
+    summary: 'Chat with a Codex environment; the result is sent to the chat webhook',
+    tag: 'Chat',
+    scopes: ['chat'],
+    body: chatRequestSchema,
+    response: chatAcceptedResponseSchema
+  },
+  chatStreaming: {
+    method: 'post',
+    path: '/chat-streaming',
+    summary: 'Chat with a Codex environment; events are sent to the streaming webhook',
+    tag: 'Chat',
+    scopes: ['chat'],
+    body: chatStreamingRequestSchema,
+    response: chatAcceptedResponseSchema
+  },
+  chatQueue: {
+    method: 'get',
+    path: '/chat/:envId/queue',
+    summary: 'Running and queued turns of an environment',
+    tag: 'Chat',
+    scopes: ['chat'],
+    params: envParamsSchema,
+    response: chatQueueResponseSchema
+  },
+  chatCancel: {
+    method: 'post',
+    path: '/chat/:envId/cancel',
+    summary: 'Cancel the running turn, or a specific turn',
+    tag: 'Chat',
+    scopes: ['chat'],
+    params: envParamsSchema,
+    body: chatCancelRequestSchema,
+    response: chatCancelResponseSchema
+  },
+  chatQueuedTurnCancel: {
+    method: 'delete',
+    path: '/chat/:envId/queue/:turnId',
+    summary: 'Cancel a queued prompt before it starts',
+    tag: 'Chat',
+    scopes: ['chat'],
+    params: turnParamsSchema,
+    response: chatQueuedTurnCancelResponseSchema
+  },
+
+  // Jobs
+  jobs: {
+    method: 'get',
+    path: '/jobs',
+    summary: 'List background jobs, newest first',
+    tag: 'Jobs',
+    scopes: ['theme', 'chat'],
+    query: jobListQuerySchema,
+    response: jobListResponseSchema
+  },
+  job: {
+    method: 'get',
+    path: '/jobs/:id',
+    summary: 'Status, timestamps and result or error of a job',
+    tag: 'Jobs',
+    scopes: ['theme', 'chat'],
+    params: jobParamsSchema,
+    response: jobResponseSchema
+  },
+
+  // Environments
+  envHistory: {
+    method: 'get',
+    path: '/env/:envId/history',
+    summary: 'Theme snapshots of an environment, newest first',
+    tag: 'Environments',
+    scopes: ['theme'],
+    params: envParamsSchema,
+    query: envHistoryQuerySchema,
+    response: envHistoryResponseSchema
+  },
+  envDiff: {
+    method: 'get',
+    path: '/env/:envId/diff',
+    summary: 'Unified diff and per-file summary of what the agent changed',
+    tag: 'Environments',
+    scopes: ['theme'],
+    params: envParamsSchema,
+    query: envDiffQuerySchema,
+    response: envDiffResponseSchema
+  },
+  envRollback: {
+    method: 'post',
+    path: '/env/:envId/rollback',
+    summary: 'Restore the theme to an earlier snapshot; without a body, undo the last change',
+    tag: 'Environments',
+    scopes: ['theme'],
+    params: envParamsSchema,
+    body: rollbackRequestSchema,
+    response: envRollbackResponseSchema
+  },
+  devServer: {
+    method: 'get',
+    path: '/env/:envId/dev-server',
+    summary: 'Status of the theme dev server of an environment',
+    tag: 'Environments',
+    scopes: ['theme'],
+    params: envParamsSchema,
+    response: devServerResponseSchema
+  },
+  devServerRestart: {
+    method: 'post',
+    path: '/env/:envId/dev-server/restart',
+    summary: 'Restart the theme dev server; also starts a stopped or crashed server',
+    tag: 'Environments',
+    scopes: ['theme'],
+    params: envParamsSchema,
+    response: devServerResponseSchema
+  },
+  devServerStop: {
+    method: 'post',
+    path: '/env/:envId/dev-server/stop',
+    summary: 'Stop the theme dev server until it is restarted',
+    tag: 'Environments',
+    scopes: ['theme'],
+    params: envParamsSchema,
+    response: devServerResponseSchema
+  },
+  devServerLogs: {
+    method: 'get',
+    path: '/env/:envId/dev-server/logs',
+    summary: 'Recent output of the theme dev server',
+    tag: 'Environments',
+    scopes: ['theme'],
+    params: envParamsSchema,
+    query: devServerLogsQuerySchema,
+    response: devServerLogsResponseSchema
+  },
+  envTranscript: {
+    method: 'get',
+    path: '/env/:envId/transcript',
+    summary: 'Chat turns of an environment, oldest first',
+    tag: 'Environments',
+    scopes: ['chat'],
+    params: envParamsSchema,
+    query: transcriptQuerySchema,
+    response: transcriptPageResponseSchema
+  },
+  envEvents: {
+    method: 'get',
+    path: '/env/:envId/events',
+    summary: 'Live streaming chat events of an environment (Server-Sent Events)',
+    tag: 'Environments',
+    scopes: ['chat'],
+    params: envParamsSchema,
+    query: envEventsQuerySchema,
+    events: chatStreamingWebhookSchema
+  },
+
+  // Usage
+  usage: {
+    method: 'get',
+    path: '/usage',
+    summary: 'Token usage and cost, overall and per environment, session and model',
+    tag: 'Usage',
+    scopes: ['chat'],
+    query: usageQuerySchema,
+    response: usageSummaryResponseSchema
+  },
+  sessionBudget: {
+    method: 'get',
+    path: '/usage/budgets/:sessionId',
+    summary: 'Budget of a session and how much of it is spent',
+    tag: 'Usage',
+    scopes: ['chat'],
+    params: budgetParamsSchema,
+    response: sessionBudgetResponseSchema
+  },
+  sessionBudgetSet: {
+    method: 'put',
+    path: '/usage/budgets/:sessionId',
+    summary: "Set a session's own budget",
+    tag: 'Usage',
+    scopes: ['codex-admin'],
+    params: budgetParamsSchema,
+    body: sessionBudgetRequestSchema,
+    response: sessionBudgetResponseSchema
+  },
+  sessionBudgetDelete: {
+    method: 'delete',
+    path: '/usage/budgets/:sessionId',
+    summary: "Remove a session's own budget so the default budget applies again",
+    tag: 'Usage',
+    scopes: ['codex-admin'],
+    params: budgetParamsSchema,
+    response: sessionBudgetResponseSchema
+  },
+
+  // Webhooks
+  deadLetters: {
+    method: 'get',
+    path: '/webhooks/dead-letter',
+    summary: 'Webhooks given up on after all retries, newest first',
+    tag: 'Webhook deliveries',
+    scopes: ['codex-admin'],
+    response: deadLetterListResponseSchema
+  },
+  deadLetterReplay: {
+    method: 'post',
+    path: '/webhooks/dead-letter/:id/replay',
+    summary: 'Send a dead-letter webhook again with a fresh retry budget',
+    tag: 'Webhook deliveries',
+    scopes: ['codex-admin'],
+    params: deadLetterParamsSchema,
+    response: deadLetterReplayResponseSchema
+  },
+
+  // Codex
+  codexThread: {
+    method: 'post',
+    path: '/api/codex/thread',
+    summary: 'Create a Codex thread',
+    tag: 'Codex',
+    scopes: ['codex-admin'],
+    body: codexThreadRequestSchema,
+    response: codexThreadResponseSchema
+  },
+  codexRun: {
+    method: 'post',
+    path: '/api/codex/run',
+    summary: 'Run a prompt on a thread',
+    tag: 'Codex',
+    scopes: ['codex-admin'],
+    body: codexRunRequestSchema,
+    response: codexRunResponseSchema
+  },
+  codexStream: {
+    method: 'post',
+    path: '/api/codex/stream',
+    summary: 'Run a prompt on a thread, streaming events (Server-Sent Events)',
+    tag: 'Codex',
+    scopes: ['codex-admin'],
+    body: codexStreamRequestSchema,
+    events: codexStreamEventSchema
+  },
+  codexThreadCancel: {
+    method: 'post',
+    path: '/api/codex/thread/:threadId/cancel',
+    summary: 'Cancel the turn running on a thread',
+    tag: 'Codex',
+    scopes: ['codex-admin'],
+    params: threadParamsSchema,
+    response: codexMessageResponseSchema
+  },
+  codexResume: {
+    method: 'post',
+    path: '/api/codex/resume',
+    summary: 'Resume an existing Codex thread',
+    tag: 'Codex',
+    scopes: ['codex-admin'],
+    body: codexResumeRequestSchema,
+    response: codexResumeResponseSchema
+  },
+  codexThreadDelete: {
+    method: 'delete',
+    path: '/api/codex/thread/:threadId',
+    summary: 'Delete a thread',
+    tag: 'Codex',
+    scopes: ['codex-admin'],
+    params: threadParamsSchema,
+    response: codexMessageResponseSchema
+  },
+  codexThreads: {
+    method: 'get',
+    path: '/api/codex/threads',
+    summary: 'List threads',
+    tag: 'Codex',
+    scopes: ['codex-admin'],
+    response: codexThreadListResponseSchema
+  },
+  codexEnvironments: {
+    method: 'get',
+    path: '/api/codex/environments',
+    summary: 'List environments',
+    tag: 'Codex',
+    scopes: ['codex-admin'],
+    response: codexEnvironmentListResponseSchema
+  },
+  codexEnvironment: {
+    method: 'get',
+    path: '/api/codex/environment/:envId',
+    summary: 'Get an environment',
+    tag: 'Codex',
+    scopes: ['codex-admin'],
+    params: envParamsSchema,
+    response: codexEnvironmentResponseSchema
+  },
+  codexEnvironmentRun: {
+    method: 'post',
+    path: '/api/codex/environment/:envId/run',
+    summary: 'Run a prompt on an environment',
+    tag: 'Codex',
+    scopes: ['codex-admin'],
+    params: envParamsSchema,
+    body: codexEnvironmentRunRequestSchema,
+    response: codexEnvironmentRunResponseSchema
+  },
+  codexEnvironmentDelete: {
+    method: 'delete',
+    path: '/api/codex/environment/:envId',
+    summary: 'Remove an environment',
+    tag: 'Codex',
+    scopes: ['codex-admin'],
+    params: envParamsSchema,
+    response: codexMessageResponseSchema
+  },
+  codexQuickRun: {
+    method: 'post',
+    path: '/api/codex/quick-run',
+    summary: 'Create a thread, run a prompt and return the result',
+    tag: 'Codex',
+    scopes: ['codex-admin'],
+    body: codexQuickRunRequestSchema,
+    response: codexQuickRunResponseSchema
+  }
+});
@@ -0,0 +1,308 @@
+/**
+ * OpenAPI Document
+ *
+ * Builds the OpenAPI 3.1 document of the routes (see api-routes.ts) and of
+ * the webhooks sent to WEBHOOK_URL (see webhook.schemas.ts)
+ */
+
+import { JsonSchema } from '../utils/json-schema';
+import { ApiRouteDefinition, apiRoutes } from './api-routes';
+import * as outputSchemas from './output.schemas';
+import * as requestSchemas from './request.schemas';
+import * as responseSchemas from './response.schemas';
+import * as webhookSchemas from './webhook.schemas';
+
+const OPENAPI_VERSION = '3.1.0';
+const API_VERSION = '1.0.0';
+
+// Credentials accepted by the auth middleware
+const securitySchemes = {
+  bearerAuth: { type: 'http', scheme: 'bearer', description: 'API key from API_CLIENTS_PATH' },
+  apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+  basicAuth: { type: 'http', scheme: 'basic', description: 'SERVICE_USERNAME/SERVICE_PASSWORD' },
+  hmacSignature: {
+    type: 'apiKey',
+    in: 'header',
+    name: 'X-Signature',
+    description: 'sha256=<HMAC of "<X-Timestamp>.<METHOD>.<path and query>.<raw body>">, with X-Client-Id and X-Timestamp'
+  }
+};
+
+// Schemas published under components.schemas; wherever they appear they are replaced by a $ref
+const namedSchemas: Record<string, JsonSchema> = {
+  // Requests
+  ThemeDownloadRequest: requestSchemas.themeDownloadRequestSchema,
+  ThemePushRequest: requestSchemas.themePushRequestSchema,
+  ChatRequest: requestSchemas.chatRequestSchema,
+  ChatStreamingRequest: requestSchemas.chatStreamingRequestSchema,
+  ChatStreamingEventSelector: requestSchemas.eventSelectorSchema,
+  ChatCancelRequest: requestSchemas.chatCancelRequestSchema,
+  CodexThreadRequest: requestSchemas.codexThreadRequestSchema,
+  CodexResumeRequest: requestSchemas.codexResumeRequestSchema,
+  CodexRunRequest: requestSchemas.codexRunRequestSchema,
+  CodexStreamRequest: requestSchemas.codexStreamRequestSchema,
+  CodexQuickRunRequest: requestSchemas.codexQuickRunRequestSchema,
+  CodexEnvironmentRunRequest: requestSchemas.codexEnvironmentRunRequestSchema,
+  RollbackRequest: requestSchemas.rollbackRequestSchema,
+  SessionBudgetRequest: requestSchemas.sessionBudgetRequestSchema,
+
+  // Responses
+  ThemeJobResponse: responseSchemas.themeJobResponseSchema,
+  HealthResponse: responseSchemas.healthResponseSchema,
+  ChatAcceptedResponse: responseSchemas.chatAcceptedResponseSchema,
+  ChatQueuedTurn: responseSchemas.chatQueuedTurnSchema,
+  ChatQueueResponse: responseSchemas.chatQueueResponseSchema,
+  ChatCancelResponse: responseSchemas.chatCancelResponseSchema,
+  ChatQueuedTurnCancelResponse: responseSchemas.chatQueuedTurnCancelResponseSchema,
+  JobInfo: responseSchemas.jobInfoSchema,
+  JobListResponse: responseSchemas.jobListResponseSchema,
+  JobResponse: responseSchemas.jobResponseSchema,
+  EnvHistoryResponse: responseSchemas.envHistoryResponseSchema,
+  EnvDiffResponse: responseSchemas.envDiffResponseSchema,
+  EnvRollbackResponse: responseSchemas.envRollbackResponseSchema,
+  DevServerResponse: responseSchemas.devServerResponseSchema,
+  DevServerLogsResponse: responseSchemas.devServerLogsResponseSchema,
+  TranscriptTurn: responseSchemas.transcriptTurnSchema,
+  TranscriptPageResponse: responseSchemas.transcriptPageResponseSchema,
+  SessionBudget: responseSchemas.sessionBudgetSchema,
+  UsageSummaryResponse: responseSchemas.usageSummaryResponseSchema,
+  SessionBudgetResponse: responseSchemas.sessionBudgetResponseSchema,
+  DeadLetterDelivery: responseSchemas.deadLetterDeliverySchema,
+  DeadLetterListResponse: responseSchemas.deadLetterListResponseSchema,
+  DeadLetterReplayResponse: responseSchemas.deadLetterReplayResponseSchema,
+  CodexMessageResponse: responseSchemas.codexMessageResponseSchema,
+  CodexThreadResponse: responseSchemas.codexThreadResponseSchema,
+  CodexResumeResponse: responseSchemas.codexResumeResponseSchema,
+  CodexRunResponse: responseSchemas.codexRunResponseSchema,
+  CodexEnvironmentRunResponse: responseSchemas.codexEnvironmentRunResponseSchema,
+  CodexQuickRunResponse: responseSchemas.codexQuickRunResponseSchema,
+  CodexThreadListResponse: responseSchemas.codexThreadListResponseSchema,
+  CodexEnvironmentInfo: responseSchemas.codexEnvironmentInfoSchema,
+  CodexEnvironmentResponse: responseSchemas.codexEnvironmentResponseSchema,
+  CodexEnvironmentListResponse: responseSchemas.codexEnvironmentListResponseSchema,
+  CodexStreamEvent: responseSchemas.codexStreamEventSchema,
+
+  // Built-in output schemas (output_schema of chat requests)
+  ChangeSummaryOutput: outputSchemas.changeSummaryOutputSchema,
+  SectionPlanOutput: outputSchemas.sectionPlanOutputSchema,
+  ThemeAuditOutput: outputSchemas.themeAuditOutputSchema,
+  OutputJsonSchema: outputSchemas.outputJsonSchemaSchema,
+  CustomOutputSchema: outputSchemas.customOutputSchemaSchema,
+
+  // Webhooks
+  ThemeInfo: webhookSchemas.themeInfoSchema,
+  ThemeListWebhookPayload: webhookSchemas.themeListWebhookSchema,
+  ThemeProgressWebhookPayload: webhookSchemas.themeProgressWebhookSchema,
+  ThemeDownloadWebhookPayload: webhookSchemas.themeDownloadWebhookSchema,
+  ThemePushWebhookPayload: webhookSchemas.themePushWebhookSchema,
+  ChatUsage: webhookSchemas.chatUsageSchema,
+  FileChangeSummary: webhookSchemas.fileChangeSummarySchema,
+  ChatWebhookPayload: webhookSchemas.chatWebhookSchema,
+  AgentMessageItem: webhookSchemas.agentMessageItemSchema,
+  ReasoningItem: webhookSchemas.reasoningItemSchema,
+  CommandExecutionItem: webhookSchemas.commandExecutionItemSchema,
+  FileChangeItem: webhookSchemas.fileChangeItemSchema,
+  McpToolCallItem: webhookSchemas.mcpToolCallItemSchema,
+  WebSearchItem: webhookSchemas.webSearchItemSchema,
+  TodoListItem: webhookSchemas.todoListItemSchema,
+  ErrorItem: webhookSchemas.errorItemSchema,
+  ChatStreamingItem: webhookSchemas.chatStreamingItemSchema,
+  ChatStreamingWebhookPayload: webhookSchemas.chatStreamingWebhookSchema
+};
+
+const schemaNames = new Map(Object.entries(namedSchemas).map(([name, schema]) => [schema, name]));
+
+const errorSchemas: Record<string, JsonSchema> = {
+  StandardAPIResponse: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      message: { type: 'string' },
+      data: { type: 'object' }
+    },
+    required: ['success', 'message']
+  },
+  ValidationErrorResponse: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean', enum: [false] },
+      message: { type: 'string', example: 'Invalid request: body.theme_id must match ^\\d{1,20}$' },
+      data: {
+        type: 'object',
+        properties: {
+          errors: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                location: { type: 'string', enum: ['body', 'params', 'query'] },
+                field: { type: 'string', example: 'theme_id' },
+                message: { type: 'string', example: 'must match ^\\d{1,20}$' }
+              },
+              required: ['location', 'field', 'message']
+            }
+          }
+        },
+        required: ['errors']
+      }
+    },
+    required: ['success', 'message', 'data']
+  }
+};
+
+// Headers of every webhook (see WebhookDispatcher)
+const webhookHeaders = [
+  { name: 'Idempotency-Key', description: 'Same for every attempt of a delivery' },
+  { name: 'X-Webhook-Id', description: 'Delivery ID' },
+  { name: 'X-Webhook-Attempt', description: 'Attempt number, from 1' },
+  { name: 'X-Webhook-Timestamp', description: 'Unix time of the attempt' },
+  { name: 'X-Webhook-Signature', description: 'sha256=<HMAC of "<X-Webhook-Timestamp>.<raw body>"> with WEBHOOK_SIGNING_SECRET' }
+].map((header) => ({ ...header, in: 'header', required: true, schema: { type: 'string' } }));
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+/**
+ * Copy of a schema with named sub-schemas replaced by a $ref
+ * @param schema - Schema to copy
+ * @param root - Whether the schema itself may be replaced
+ */
+function withRefs(schema: JsonSchema, root: boolean = false): JsonSchema {
+  const name = schemaNames.get(schema);
+
+  if (name && !root) {
+    return ref(name);
+  }
+
+  const copy: JsonSchema = { ...schema };
+
+  if (schema.properties) {
+    copy.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, property]) => [key, withRefs(property)])
+    );
+  }
+  if (schema.items) {
+    copy.items = withRefs(schema.items);
+  }
+  if (schema.anyOf) {
+    copy.anyOf = schema.anyOf.map((option) => withRefs(option));
+  }
+  if (typeof schema.additionalProperties === 'object') {
+    copy.additionalProperties = withRefs(schema.additionalProperties);
+  }
+
+  return copy;
+}
+
+const jsonResponse = (description: string, schema: JsonSchema) => ({
+  description,
+  content: { 'application/json': { schema } }
+});
+
+/**
+ * OpenAPI path of an Express path: /chat/:envId/cancel -> /chat/{envId}/cancel
+ */
+function toOpenApiPath(path: string): string {
+  return path.replace(/:([A-Za-z0-9_]+)/g, '{$1}');
+}
+
+function parameters(location: 'path' | 'query', schema?: JsonSchema) {
+  return Object.entries(schema?.properties || {}).map(([name, propertySchema]) => ({
+    name,
+    in: location,
+    required: location === 'path' || (schema?.required || []).includes(name),
+    description: propertySchema.description,
+    schema: propertySchema
+  }));
+}
+
+function successResponse(route: ApiRouteDefinition) {
+  if (route.events) {
+    return {
+      description: 'Server-Sent Events, one JSON event per "data:" line',
+      content: { 'text/event-stream': { schema: withRefs(route.events) } }
+    };
+  }
+
+  return jsonResponse('Success', route.response ? withRefs(route.response) : ref('StandardAPIResponse'));
+}
+
+function operation(operationId: string, route: ApiRouteDefinition) {
+  const responses: Record<string, unknown> = {
+    200: successResponse(route)
+  };
+
+  if (route.params || route.query || route.body) {
+    responses[400] = jsonResponse('Invalid request', ref('ValidationErrorResponse'));
+  }
+
+  if (route.scopes.length > 0) {
+    responses[401] = jsonResponse('Missing or invalid credentials', ref('StandardAPIResponse'));
+    responses[403] = jsonResponse(`Requires scope ${route.scopes.join(' or ')}`, ref('StandardAPIResponse'));
+  }
+
+  return {
+    operationId,
+    summary: route.summary,
+    tags: [route.tag],
+    'x-required-scopes': route.scopes,
+    security: route.scopes.length > 0
+      ? Object.keys(securitySchemes).map((name) => ({ [name]: [] }))
+      : [],
+    parameters: [...parameters('path', route.params), ...parameters('query', route.query)],
+    requestBody: route.body
+      ? { required: true, content: { 'application/json': { schema: withRefs(route.body) } } }
+      : undefined,
+    responses
+  };
+}
+
+function webhook(operationId: string, definition: webhookSchemas.WebhookDefinition) {
+  return {
+    post: {
+      operationId,
+      summary: definition.summary,
+      description: `Sent to {WEBHOOK_URL}${definition.path} with the Basic Auth credentials of SERVICE_USERNAME/SERVICE_PASSWORD`,
+      tags: ['Webhooks'],
+      parameters: webhookHeaders,
+      requestBody: { required: true, content: { 'application/json': { schema: withRefs(definition.payload) } } },
+      responses: {
+        '2XX': { description: 'Received; 5XX, 408 and 429 responses are retried, other statuses are not' }
+      }
+    }
+  };
+}
+
+/**
+ * Build the OpenAPI document
+ * @param serverUrl - Base URL of this server (optional)
+ */
+export function buildOpenApiDocument(serverUrl?: string) {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const [operationId, route] of Object.entries<ApiRouteDefinition>(apiRoutes)) {
+    const path = toOpenApiPath(route.path);
+    paths[path] = { ...paths[path], [route.method]: operation(operationId, route) };
+  }
+
+  const webhooks = Object.fromEntries(
+    Object.entries<webhookSchemas.WebhookDefinition>(webhookSchemas.webhookDefinitions)
+      .map(([operationId, definition]) => [operationId, webhook(operationId, definition)])
+  );
+
+  const schemas = Object.fromEntries(
+    Object.entries(namedSchemas).map(([name, schema]) => [name, withRefs(schema, true)])
+  );
+
+  return {
+    openapi: OPENAPI_VERSION,
+    info: {
+      title: 'Shopify Theme Manager API',
+      version: API_VERSION,
+      description: 'Download Shopify themes into Codex environments and edit them by chat'
+    },
+    servers: serverUrl ? [{ url: serverUrl }] : [],
+    paths,
+    webhooks,
+    components: { securitySchemes, schemas: { ...errorSchemas, ...schemas } }
+  };
+}
@@ -0,0 +1,156 @@
+/**
+ * Output Schemas
+ *
+ * Built-in JSON Schemas for the final response of a chat turn, selected by
+ * name with output_schema. Every property is required and no others are
+ * allowed, as Codex structured output expects.
+ */
+
+import { JsonSchema, ObjectSchemaFor } from '../utils/json-schema';
+import {
+  ChangeSummaryOutput,
+  OutputSchemaName,
+  SectionPlanOutput,
+  ThemeAuditOutput
+} from '../types/theme.types';
+
+export const OUTPUT_SCHEMA_NAMES: OutputSchemaName[] = ['change_summary', 'section_plan', 'theme_audit'];
+
+const stringList = { type: 'array', items: { type: 'string' } } as const;
+
+export const changeSummaryOutputSchema: ObjectSchemaFor<ChangeSummaryOutput> = {
+  type: 'object',
+  description: 'What the turn changed in the theme',
+  properties: {
+    summary: { type: 'string', description: 'One or two sentences for the merchant' },
+    changes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: 'File path relative to the theme root' },
+          description: { type: 'string' }
+        },
+        required: ['path', 'description'],
+        additionalProperties: false
+      }
+    },
+    follow_ups: { ...stringList, description: 'Suggested next steps' }
+  },
+  required: ['summary', 'changes', 'follow_ups'],
+  additionalProperties: false
+};
+
+export const sectionPlanOutputSchema: ObjectSchemaFor<SectionPlanOutput> = {
+  type: 'object',
+  description: 'Sections to build or change, without editing files yet',
+  properties: {
+    sections: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          file: { type: 'string', description: 'e.g. sections/newsletter-signup.liquid' },
+          purpose: { type: 'string' },
+          settings: { ...stringList, description: "IDs of the section's settings" },
+          blocks: { ...stringList, description: 'Block types' }
+        },
+        required: ['name', 'file', 'purpose', 'settings', 'blocks'],
+        additionalProperties: false
+      }
+    },
+    templates: { ...stringList, description: 'Templates the sections are added to' },
+    notes: { type: 'string' }
+  },
+  required: ['sections', 'templates', 'notes'],
+  additionalProperties: false
+};
+
+export const themeAuditOutputSchema: ObjectSchemaFor<ThemeAuditOutput> = {
+  type: 'object',
+  description: 'Issues found in the theme',
+  properties: {
+    summary: { type: 'string' },
+    issues: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          path: { type: 'string' },
+          severity: { type: 'string', enum: ['low', 'medium', 'high'] },
+          category: { type: 'string', enum: ['performance', 'accessibility', 'seo', 'code'] },
+          description: { type: 'string' },
+          suggestion: { type: 'string' }
+        },
+        required: ['path', 'severity', 'category', 'description', 'suggestion'],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['summary', 'issues'],
+  additionalProperties: false
+};
+
+// Custom output schemas
+
+const schemaTypes = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'];
+const nonNegativeInteger = { type: 'integer', minimum: 0 } as const;
+
+/**
+ * A JSON Schema in the subset validateSchema checks (see utils/json-schema.ts).
+ * Other keywords ($ref, oneOf, allOf, const, ...) are rejected, since a final
+ * response would pass them unchecked. pattern is rejected too: a caller's
+ * regular expression could backtrack for long enough to block the server.
+ */
+export const outputJsonSchemaSchema: JsonSchema = {
+  type: 'object',
+  description: 'JSON Schema limited to the keywords the server validates',
+  additionalProperties: false
+};
+
+outputJsonSchemaSchema.properties = {
+  type: {
+    anyOf: [
+      { type: 'string', enum: schemaTypes },
+      { type: 'array', items: { type: 'string', enum: schemaTypes }, minItems: 1 }
+    ]
+  },
+  title: { type: 'string' },
+  description: { type: 'string' },
+  enum: { type: 'array', minItems: 1 },
+  minLength: nonNegativeInteger,
+  maxLength: nonNegativeInteger,
+  format: { type: 'string' },
+  minimum: { type: 'number' },
+  maximum: { type: 'number' },
+  items: outputJsonSchemaSchema,
+  minItems: nonNegativeInteger,
+  maxItems: nonNegativeInteger,
+  properties: { type: 'object', additionalProperties: outputJsonSchemaSchema },
+  required: { type: 'array', items: { type: 'string' } },
+  additionalProperties: { anyOf: [{ type: 'boolean' }, outputJsonSchemaSchema] },
+  anyOf: { type: 'array', items: outputJsonSchemaSchema, minItems: 1 },
+  default: {},
+  examples: { type: 'array' }
+};
+
+/**
+ * Custom output_schema of a chat request: an object schema in the supported subset
+ */
+export const customOutputSchemaSchema: JsonSchema = {
+  ...outputJsonSchemaSchema,
+  description: 'JSON Schema of the final response (an object), limited to the keywords the server validates',
+  properties: {
+    ...outputJsonSchemaSchema.properties,
+    $schema: { type: 'string' },
+    type: { type: 'string', enum: ['object'] }
+  },
+  required: ['type']
+};
+
+export const outputSchemas: Record<OutputSchemaName, JsonSchema> = {
+  change_summary: changeSummaryOutputSchema,
+  section_plan: sectionPlanOutputSchema,
+  theme_audit: themeAuditOutputSchema
+};
@@ -0,0 +1,368 @@
+/**
+ * Request Schemas
+ *
+ * JSON Schemas of request bodies, path parameters and query strings,
+ * checked against the request types in theme.types.ts
+ */
+
+import { ObjectSchemaFor } from '../utils/json-schema';
+import { customOutputSchemaSchema, OUTPUT_SCHEMA_NAMES } from './output.schemas';
+import {
+  ChatCancelRequest,
+  ChatRequest,
+  ChatStreamingEventSelector,
+  ChatStreamingRequest,
+  CodexEnvironmentRunRequest,
+  CodexQuickRunRequest,
+  CodexResumeRequest,
+  CodexRunRequest,
+  CodexStreamRequest,
+  CodexThreadRequest,
+  JobStatus,
+  JobType,
+  RollbackRequest,
+  SessionBudgetRequest,
+  ThemeDownloadRequest,
+  ThemePushRequest
+} from '../types/theme.types';
+
+// Largest batch_window_ms a streaming chat request may ask for
+export const MAX_BATCH_WINDOW_MS = 10000;
+
+// Largest page of GET /env/:envId/transcript and GET /usage
+const MAX_TRANSCRIPT_LIMIT = 200;
+const MAX_USAGE_TURNS_LIMIT = 500;
+
+const THEME_ID_PATTERN = '^\\d{1,20}$';
+
+// Session IDs end up in webhook URLs and theme names
+export const SESSION_ID_PATTERN = '^[A-Za-z0-9_-]{1,100}$';
+
+const nonEmptyString = { type: 'string', minLength: 1 } as const;
+
+const positiveInteger = { type: 'integer', minimum: 1 } as const;
+
+const sessionIdString = { type: 'string', pattern: SESSION_ID_PATTERN } as const;
+
+const stringList = { type: 'array', items: { type: 'string' } } as const;
+
+// File patterns are passed to the Shopify CLI, which would read a leading "-" as a flag
+const filePatternList = { type: 'array', items: { type: 'string', pattern: '^[^-]' } } as const;
+
+const approvalModes: CodexThreadRequest['approvalMode'][] = ['untrusted', 'on-request', 'on-failure', 'never'];
+const sandboxModes: CodexThreadRequest['sandboxMode'][] = ['read-only', 'workspace-write', 'danger-full-access'];
+const jobTypes: JobType[] = ['theme.download', 'theme.push', 'chat', 'chat.streaming'];
+const jobStatuses: JobStatus[] = ['queued', 'running', 'succeeded', 'failed'];
+
+// JSON Schema the final response of a turn must follow; passed to Codex as is
+const outputSchema = {
+  type: 'object',
+  description: 'JSON Schema for the final response'
+} as const;
+
+// Theme
+
+export const themeDownloadRequestSchema: ObjectSchemaFor<ThemeDownloadRequest> = {
+  type: 'object',
+  properties: {
+    theme_id: { type: 'string', pattern: THEME_ID_PATTERN, description: 'Numeric Shopify theme ID', example: '123456789' },
+    store_id: { ...nonEmptyString, description: "Defaults to the session's store, then the default store" },
+    session_id: { ...sessionIdString, description: "Defaults to the store's session, then SESSION_ID" }
+  },
+  required: ['theme_id']
+};
+
+export const themePushRequestSchema: ObjectSchemaFor<ThemePushRequest> = {
+  type: 'object',
+  properties: {
+    env_id: { ...nonEmptyString, description: 'Environment whose files are pushed' },
+    store_id: { ...nonEmptyString, description: 'Ignored when env_id is given' },
+    session_id: sessionIdString,
+    only: { ...filePatternList, description: 'Only push files matching these patterns (not starting with "-")' },
+    ignore: { ...filePatternList, description: 'Skip files matching these patterns (not starting with "-")' },
+    publish: { type: 'boolean', description: 'Publish the theme after pushing' }
+  }
+};
+
+export const themeParamsSchema: ObjectSchemaFor<{ themeId: string }> = {
+  type: 'object',
+  properties: {
+    themeId: { type: 'string', pattern: THEME_ID_PATTERN, description: 'Numeric Shopify theme ID' }
+  },
+  required: ['themeId']
+};
+
+// Chat
+
+export const eventSelectorSchema: ObjectSchemaFor<ChatStreamingEventSelector> = {
+  type: 'object',
+  properties: {
+    types: { ...stringList, description: 'Event types, e.g. item.completed ("*" = any)' },
+    item_types: { ...stringList, description: 'Item types of item.* events, e.g. command_execution ("*" = any)' }
+  },
+  additionalProperties: false
+};
+
+export const chatRequestSchema: ObjectSchemaFor<ChatRequest> = {
+  type: 'object',
+  properties: {
+    env_id: { ...nonEmptyString, example: 'themes_123456789' },
+    prompt: { ...nonEmptyString, example: 'Add a newsletter signup section to the footer' },
+    model: nonEmptyString,
+    session_id: { ...sessionIdString, description: 'Defaults to the session the environment was created for' },
+    reject_if_busy: { type: 'boolean', description: 'Respond 409 instead of queueing behind a running turn' },
+    output_schema: {
+      anyOf: [
+        { type: 'string', enum: OUTPUT_SCHEMA_NAMES },
+        customOutputSchemaSchema
+      ],
+      description: 'Built-in output schema, or a JSON Schema the final response must follow; the parsed response is sent as structured'
+    }
+  },
+  required: ['env_id', 'prompt']
+};
+
+export const chatStreamingRequestSchema: ObjectSchemaFor<ChatStreamingRequest> = {
+  type: 'object',
+  properties: {
+    ...chatRequestSchema.properties,
+    batch_window_ms: {
+      type: 'integer',
+      minimum: 0,
+      maximum: MAX_BATCH_WINDOW_MS,
+      description: 'Send events arriving within this window as one events.batch webhook (0 = one per event)'
+    },
+    events: {
+      type: 'object',
+      properties: { include: eventSelectorSchema, exclude: eventSelectorSchema },
+      additionalProperties: false,
+      description: 'Which events are forwarded; unset lists use the server defaults'
+    }
+  },
+  required: ['env_id', 'prompt']
+};
+
+export const chatCancelRequestSchema: ObjectSchemaFor<ChatCancelRequest> = {
+  type: 'object',
+  properties: {
+    turn_id: { ...nonEmptyString, description: 'Queued or running turn (job ID); defaults to the running turn' }
+  }
+};
+
+export const envParamsSchema: ObjectSchemaFor<{ envId: string }> = {
+  type: 'object',
+  properties: {
+    envId: nonEmptyString
+  },
+  required: ['envId']
+};
+
+export const turnParamsSchema: ObjectSchemaFor<{ envId: string; turnId: string }> = {
+  type: 'object',
+  properties: {
+    envId: nonEmptyString,
+    turnId: nonEmptyString
+  },
+  required: ['envId', 'turnId']
+};
+
+// Environments
+
+export const envHistoryQuerySchema: ObjectSchemaFor<{ limit?: number }> = {
+  type: 'object',
+  properties: {
+    limit: { ...positiveInteger, description: 'Maximum number of snapshots (default: 50)' }
+  }
+};
+
+export const envDiffQuerySchema: ObjectSchemaFor<{ from?: string; to?: string; turn?: string; summary?: boolean }> = {
+  type: 'object',
+  properties: {
+    from: { ...nonEmptyString, description: 'Base snapshot (default: the pulled baseline)' },
+    to: { ...nonEmptyString, description: 'Target snapshot (default: the current theme files)' },
+    turn: { ...nonEmptyString, description: 'Show only the changes of one snapshot (overrides from/to)' },
+    summary: { type: 'boolean', description: 'Omit the unified diff text' }
+  }
+};
+
+export const rollbackRequestSchema: ObjectSchemaFor<RollbackRequest> = {
+  type: 'object',
+  properties: {
+    commit: { ...nonEmptyString, description: 'Snapshot to restore' },
+    steps: { ...positiveInteger, description: 'Or: number of snapshots to go back (default: 1, i.e. undo the last change)' }
+  }
+};
+
+export const devServerLogsQuerySchema: ObjectSchemaFor<{ stream?: 'stdout' | 'stderr'; limit?: number }> = {
+  type: 'object',
+  properties: {
+    stream: { type: 'string', enum: ['stdout', 'stderr'], description: 'Default: both, interleaved' },
+    limit: { ...positiveInteger, description: 'Maximum number of lines (default: 200)' }
+  }
+};
+
+export const transcriptQuerySchema: ObjectSchemaFor<{ offset?: number; limit?: number; format?: 'json' | 'markdown' }> = {
+  type: 'object',
+  properties: {
+    offset: { type: 'integer', minimum: 0, description: 'Turns to skip (default: 0)' },
+    limit: { ...positiveInteger, maximum: MAX_TRANSCRIPT_LIMIT, description: 'Maximum number of turns (default: 50)' },
+    format: {
+      type: 'string',
+      enum: ['json', 'markdown'],
+      description: 'Download the whole transcript as a file instead of a page'
+    }
+  }
+};
+
+export const envEventsQuerySchema: ObjectSchemaFor<{ last_event_id?: string }> = {
+  type: 'object',
+  properties: {
+    last_event_id: {
+      type: 'string',
+      pattern: '^\\d{1,15}$',
+      description: 'Replay events after this number, for clients that cannot send Last-Event-ID'
+    }
+  }
+};
+
+// Usage
+
+export const usageQuerySchema: ObjectSchemaFor<{
+  env_id?: string;
+  session_id?: string;
+  model?: string;
+  since?: string;
+  limit?: number;
+}> = {
+  type: 'object',
+  properties: {
+    env_id: nonEmptyString,
+    session_id: { ...nonEmptyString, description: 'Also returns the budget of the session' },
+    model: nonEmptyString,
+    since: { type: 'string', format: 'date-time', description: 'Only count turns recorded from then on' },
+    limit: { ...positiveInteger, maximum: MAX_USAGE_TURNS_LIMIT, description: 'Most recent turns to list (default: 50)' }
+  }
+};
+
+export const budgetParamsSchema: ObjectSchemaFor<{ sessionId: string }> = {
+  type: 'object',
+  properties: {
+    sessionId: nonEmptyString
+  },
+  required: ['sessionId']
+};
+
+export const sessionBudgetRequestSchema: ObjectSchemaFor<SessionBudgetRequest> = {
+  type: 'object',
+  properties: {
+    max_cost_usd: { type: 'number', minimum: 0 },
+    max_tokens: { type: 'integer', minimum: 0 }
+  },
+  additionalProperties: false,
+  minProperties: 1,
+  description: 'A limit that is left out is not enforced for the session'
+};
+
+// Webhooks
+
+export const deadLetterParamsSchema: ObjectSchemaFor<{ id: string }> = {
+  type: 'object',
+  properties: {
+    id: nonEmptyString
+  },
+  required: ['id']
+};
+
+// Jobs
+
+export const jobParamsSchema: ObjectSchemaFor<{ id: string }> = {
+  type: 'object',
+  properties: {
+    id: nonEmptyString
+  },
+  required: ['id']
+};
+
+export const jobListQuerySchema: ObjectSchemaFor<{ type?: JobType; status?: JobStatus; env_id?: string }> = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', enum: jobTypes },
+    status: { type: 'string', enum: jobStatuses },
+    env_id: nonEmptyString
+  }
+};
+
+// Codex
+
+export const codexThreadRequestSchema: ObjectSchemaFor<CodexThreadRequest> = {
+  type: 'object',
+  properties: {
+    workingDirectory: { ...nonEmptyString, description: 'Folder inside THEME_DOWNLOAD_PATH' },
+    skipGitRepoCheck: { type: 'boolean' },
+    model: nonEmptyString,
+    yoloMode: { type: 'boolean', description: 'danger-full-access sandbox without approvals' },
+    approvalMode: { type: 'string', enum: approvalModes },
+    sandboxMode: { type: 'string', enum: sandboxModes }
+  }
+};
+
+export const codexResumeRequestSchema: ObjectSchemaFor<CodexResumeRequest> = {
+  type: 'object',
+  properties: {
+    ...codexThreadRequestSchema.properties,
+    sessionId: { ...nonEmptyString, description: 'Codex thread ID to resume' }
+  },
+  required: ['sessionId']
+};
+
+export const codexRunRequestSchema: ObjectSchemaFor<CodexRunRequest> = {
+  type: 'object',
+  properties: {
+    threadId: nonEmptyString,
+    prompt: nonEmptyString,
+    model: nonEmptyString,
+    outputSchema
+  },
+  required: ['threadId', 'prompt']
+};
+
+export const codexStreamRequestSchema: ObjectSchemaFor<CodexStreamRequest> = {
+  type: 'object',
+  properties: {
+    threadId: nonEmptyString,
+    prompt: nonEmptyString,
+    model: nonEmptyString
+  },
+  required: ['threadId', 'prompt']
+};
+
+export const codexQuickRunRequestSchema: ObjectSchemaFor<CodexQuickRunRequest> = {
+  type: 'object',
+  properties: {
+    prompt: nonEmptyString,
+    workingDirectory: codexThreadRequestSchema.properties.workingDirectory,
+    skipGitRepoCheck: { type: 'boolean' },
+    model: nonEmptyString,
+    yoloMode: codexThreadRequestSchema.properties.yoloMode,
+    outputSchema
+  },
+  required: ['prompt']
+};
+
+export const codexEnvironmentRunRequestSchema: ObjectSchemaFor<CodexEnvironmentRunRequest> = {
+  type: 'object',
+  properties: {
+    prompt: nonEmptyString,
+    model: nonEmptyString,
+    rejectIfBusy: { type: 'boolean', description: 'Respond 409 instead of queueing behind a running turn' }
+  },
+  required: ['prompt']
+};
+
+export const threadParamsSchema: ObjectSchemaFor<{ threadId: string }> = {
+  type: 'object',
+  properties: {
+    threadId: nonEmptyString
+  },
+  required: ['threadId']
+};
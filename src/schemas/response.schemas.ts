@@ -0,0 +1,549 @@
+/**
+ * Response Schemas
+ *
+ * JSON Schemas of successful responses, checked against the response types
+ * in theme.types.ts. Used for the OpenAPI document and the generated client.
+ */
+
+import { JsonSchema, ObjectSchemaFor } from '../utils/json-schema';
+import {
+  ChatAcceptedData,
+  ChatCancelData,
+  ChatQueueData,
+  ChatQueuedTurn,
+  ChatQueuedTurnCancelData,
+  CodexEnvironmentInfo,
+  CodexEnvironmentListResponse,
+  CodexEnvironmentResponse,
+  CodexEnvironmentRunResponse,
+  CodexMessageResponse,
+  CodexQuickRunResponse,
+  CodexResumeResponse,
+  CodexRunResponse,
+  CodexStreamEvent,
+  CodexThreadListResponse,
+  CodexThreadResponse,
+  DeadLetterDelivery,
+  DeadLetterListData,
+  DeadLetterReplayData,
+  DevServerData,
+  DevServerLogsData,
+  EnvDiffData,
+  EnvHistoryData,
+  EnvRollbackData,
+  EnvSnapshot,
+  HealthResponse,
+  JobInfo,
+  JobListData,
+  JobStatus,
+  JobType,
+  SessionBudgetData,
+  ThemeJobData,
+  TranscriptPageData,
+  TranscriptTurnData,
+  UsageRecordData,
+  UsageSummaryData,
+  UsageTotalsData
+} from '../types/theme.types';
+import { codexThreadRequestSchema } from './request.schemas';
+import { fileChangeSummarySchema } from './webhook.schemas';
+
+const jobTypes: JobType[] = ['theme.download', 'theme.push', 'chat', 'chat.streaming'];
+const jobStatuses: JobStatus[] = ['queued', 'running', 'succeeded', 'failed'];
+
+const timestamp = { type: 'string', format: 'date-time' } as const;
+
+// Items of a turn (ThreadItem of @openai/codex-sdk)
+const turnItems = { type: 'array', items: { type: 'object' } } as const;
+
+/**
+ * StandardAPIResponse with the given data schema
+ */
+function standardResponse(data: JsonSchema): JsonSchema {
+  return {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      message: { type: 'string' },
+      data
+    },
+    required: ['success', 'message', 'data']
+  };
+}
+
+// Theme
+
+const themeJobDataSchema: ObjectSchemaFor<ThemeJobData> = {
+  type: 'object',
+  properties: {
+    job_id: { type: 'string', description: 'Poll with GET /jobs/{id}; the result is also sent to the theme webhook' },
+    store_id: { type: 'string' },
+    session_id: { type: 'string', description: 'Webhooks go to {WEBHOOK_URL}/theme/{session_id}' }
+  },
+  required: ['job_id', 'store_id', 'session_id']
+};
+
+export const themeJobResponseSchema = standardResponse(themeJobDataSchema);
+
+export const healthResponseSchema: ObjectSchemaFor<HealthResponse> = {
+  type: 'object',
+  properties: {
+    status: { type: 'string', example: 'healthy' }
+  },
+  required: ['status']
+};
+
+// Chat
+
+const chatAcceptedDataSchema: ObjectSchemaFor<ChatAcceptedData> = {
+  type: 'object',
+  properties: {
+    job_id: { type: 'string', description: 'Also the turn ID, for /chat/{envId}/cancel' },
+    queue_position: { type: 'integer', minimum: 0, description: 'Turns ahead of this one (0 = starts immediately)' },
+    session_id: { type: 'string' }
+  },
+  required: ['job_id', 'queue_position', 'session_id']
+};
+
+export const chatAcceptedResponseSchema = standardResponse(chatAcceptedDataSchema);
+
+export const chatQueuedTurnSchema: ObjectSchemaFor<ChatQueuedTurn> = {
+  type: 'object',
+  properties: {
+    turn_id: { type: 'string' },
+    position: { type: 'integer', minimum: 0, description: '0 = running, 1 = next in line, ...' },
+    status: { type: 'string', enum: ['running', 'queued'] },
+    prompt: { type: 'string' },
+    enqueued_at: timestamp,
+    started_at: timestamp
+  },
+  required: ['turn_id', 'position', 'status', 'enqueued_at']
+};
+
+const chatQueueDataSchema: ObjectSchemaFor<ChatQueueData> = {
+  type: 'object',
+  properties: {
+    env_id: { type: 'string' },
+    queue_depth: { type: 'integer', minimum: 0 },
+    turns: { type: 'array', items: chatQueuedTurnSchema }
+  },
+  required: ['env_id', 'queue_depth', 'turns']
+};
+
+export const chatQueueResponseSchema = standardResponse(chatQueueDataSchema);
+
+const chatCancelDataSchema: ObjectSchemaFor<ChatCancelData> = {
+  type: 'object',
+  properties: {
+    env_id: { type: 'string' },
+    turn_id: { type: 'string' },
+    status: { type: 'string', enum: ['running', 'queued'], description: 'State of the turn when it was cancelled' }
+  },
+  required: ['env_id', 'status']
+};
+
+export const chatCancelResponseSchema = standardResponse(chatCancelDataSchema);
+
+const chatQueuedTurnCancelDataSchema: ObjectSchemaFor<ChatQueuedTurnCancelData> = {
+  type: 'object',
+  properties: {
+    env_id: { type: 'string' },
+    turn_id: { type: 'string' }
+  },
+  required: ['env_id', 'turn_id']
+};
+
+export const chatQueuedTurnCancelResponseSchema = standardResponse(chatQueuedTurnCancelDataSchema);
+
+// Jobs
+
+export const jobInfoSchema: ObjectSchemaFor<JobInfo> = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    type: { type: 'string', enum: jobTypes },
+    status: { type: 'string', enum: jobStatuses },
+    env_id: { type: 'string' },
+    theme_id: { type: 'string' },
+    created_at: timestamp,
+    started_at: timestamp,
+    finished_at: timestamp,
+    result: { type: 'object', description: 'Webhook payload of the job once it has succeeded' },
+    error: { type: 'string' }
+  },
+  required: ['id', 'type', 'status', 'created_at']
+};
+
+const jobListDataSchema: ObjectSchemaFor<JobListData> = {
+  type: 'object',
+  properties: {
+    jobs: { type: 'array', items: jobInfoSchema },
+    count: { type: 'integer', minimum: 0 }
+  },
+  required: ['jobs', 'count']
+};
+
+export const jobListResponseSchema = standardResponse(jobListDataSchema);
+
+export const jobResponseSchema = standardResponse(jobInfoSchema);
+
+// Environments
+
+const envSnapshotSchema: ObjectSchemaFor<EnvSnapshot> = {
+  type: 'object',
+  properties: {
+    commit: { type: 'string' },
+    message: { type: 'string' },
+    created_at: timestamp
+  },
+  required: ['commit', 'message', 'created_at']
+};
+
+const envHistoryDataSchema: ObjectSchemaFor<EnvHistoryData> = {
+  type: 'object',
+  properties: {
+    env_id: { type: 'string' },
+    snapshots: { type: 'array', items: envSnapshotSchema, description: 'Newest first' }
+  },
+  required: ['env_id', 'snapshots']
+};
+
+export const envHistoryResponseSchema = standardResponse(envHistoryDataSchema);
+
+const envDiffDataSchema: ObjectSchemaFor<EnvDiffData> = {
+  type: 'object',
+  properties: {
+    env_id: { type: 'string' },
+    from: { type: 'string' },
+    to: { type: 'string', description: 'Commit, or "working-tree" for the current theme files' },
+    totals: {
+      type: 'object',
+      properties: {
+        files: { type: 'integer', minimum: 0 },
+        added: { type: 'integer', minimum: 0 },
+        removed: { type: 'integer', minimum: 0 }
+      },
+      required: ['files', 'added', 'removed']
+    },
+    files: { type: 'array', items: fileChangeSummarySchema },
+    diff: { type: 'string', description: 'Unified diff, left out with summary=true' }
+  },
+  required: ['env_id', 'from', 'to', 'totals', 'files']
+};
+
+export const envDiffResponseSchema = standardResponse(envDiffDataSchema);
+
+const envRollbackDataSchema: ObjectSchemaFor<EnvRollbackData> = {
+  type: 'object',
+  properties: {
+    env_id: { type: 'string' },
+    restored: { type: 'string', description: 'Snapshot whose files were restored' },
+    commit: { type: ['string', 'null'], description: 'Snapshot recording the rollback, null if the theme already matched' }
+  },
+  required: ['env_id', 'restored', 'commit']
+};
+
+export const envRollbackResponseSchema = standardResponse(envRollbackDataSchema);
+
+const devServerDataSchema: ObjectSchemaFor<DevServerData> = {
+  type: 'object',
+  properties: {
+    env_id: { type: 'string' },
+    theme_id: { type: 'string' },
+    status: { type: 'string', enum: ['running', 'restarting', 'stopped', 'crashed'] },
+    running: { type: 'boolean' },
+    pid: { type: 'integer' },
+    port: { type: 'integer' },
+    uptime_seconds: { type: 'number', description: 'Only while running' },
+    started_at: timestamp,
+    restarts: { type: 'integer', minimum: 0, description: 'Automatic restarts since the last manual start' },
+    last_exit_code: { type: ['integer', 'null'] },
+    last_exit_signal: { type: ['string', 'null'] },
+    last_exit_at: timestamp,
+    next_restart_at: timestamp
+  },
+  required: ['env_id', 'theme_id', 'status', 'running', 'port', 'started_at', 'restarts']
+};
+
+export const devServerResponseSchema = standardResponse(devServerDataSchema);
+
+const devServerLogsDataSchema: ObjectSchemaFor<DevServerLogsData> = {
+  type: 'object',
+  properties: {
+    env_id: { type: 'string' },
+    lines: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          stream: { type: 'string', enum: ['stdout', 'stderr'] },
+          line: { type: 'string' },
+          at: timestamp
+        },
+        required: ['stream', 'line', 'at']
+      }
+    }
+  },
+  required: ['env_id', 'lines']
+};
+
+export const devServerLogsResponseSchema = standardResponse(devServerLogsDataSchema);
+
+export const transcriptTurnSchema: ObjectSchemaFor<TranscriptTurnData> = {
+  type: 'object',
+  properties: {
+    turn_id: { type: 'string', description: 'Job ID of the chat request' },
+    mode: { type: 'string', enum: ['chat', 'chat.streaming'] },
+    prompt: { type: 'string' },
+    model: { type: 'string' },
+    status: { type: 'string', enum: ['queued', 'running', 'completed', 'failed', 'cancelled'] },
+    final_response: { type: 'string' },
+    items: turnItems,
+    usage: { type: 'object' },
+    error: { type: 'string' },
+    commit: { type: 'string', description: 'Theme snapshot after the turn' },
+    created_at: timestamp,
+    started_at: timestamp,
+    completed_at: timestamp
+  },
+  required: ['turn_id', 'mode', 'prompt', 'status', 'created_at']
+};
+
+const transcriptPageDataSchema: ObjectSchemaFor<TranscriptPageData> = {
+  type: 'object',
+  properties: {
+    env_id: { type: 'string' },
+    total: { type: 'integer', minimum: 0 },
+    offset: { type: 'integer', minimum: 0 },
+    limit: { type: 'integer', minimum: 1 },
+    turns: { type: 'array', items: transcriptTurnSchema, description: 'Oldest first' }
+  },
+  required: ['env_id', 'total', 'offset', 'limit', 'turns']
+};
+
+export const transcriptPageResponseSchema = standardResponse(transcriptPageDataSchema);
+
+// Usage
+
+const tokenCount = { type: 'integer', minimum: 0 } as const;
+
+const usageTotalsSchema: ObjectSchemaFor<UsageTotalsData> = {
+  type: 'object',
+  properties: {
+    turns: tokenCount,
+    input_tokens: tokenCount,
+    cached_input_tokens: tokenCount,
+    output_tokens: tokenCount,
+    total_tokens: tokenCount,
+    cost_usd: { type: 'number' },
+    unpriced_turns: { ...tokenCount, description: 'Turns whose model has no price (not included in cost_usd)' }
+  },
+  required: ['turns', 'input_tokens', 'cached_input_tokens', 'output_tokens', 'total_tokens', 'cost_usd', 'unpriced_turns']
+};
+
+const usageRecordSchema: ObjectSchemaFor<UsageRecordData> = {
+  type: 'object',
+  properties: {
+    turn_id: { type: 'string' },
+    env_id: { type: 'string' },
+    session_id: { type: 'string' },
+    model: { type: 'string' },
+    input_tokens: tokenCount,
+    cached_input_tokens: tokenCount,
+    output_tokens: tokenCount,
+    cost_usd: { type: ['number', 'null'], description: 'null when the model has no configured price' },
+    recorded_at: timestamp
+  },
+  required: [
+    'turn_id', 'env_id', 'session_id', 'model', 'input_tokens', 'cached_input_tokens', 'output_tokens', 'cost_usd', 'recorded_at'
+  ]
+};
+
+export const sessionBudgetSchema: ObjectSchemaFor<SessionBudgetData> = {
+  type: 'object',
+  properties: {
+    session_id: { type: 'string' },
+    max_cost_usd: { type: 'number', minimum: 0 },
+    max_tokens: { type: 'integer', minimum: 0 },
+    custom: { type: 'boolean', description: 'Set for this session rather than the default budget' },
+    spent_cost_usd: { type: 'number' },
+    spent_tokens: tokenCount,
+    exceeded: { type: 'boolean' }
+  },
+  required: ['session_id', 'custom', 'spent_cost_usd', 'spent_tokens', 'exceeded']
+};
+
+const usageTotalsByKey = { type: 'object', additionalProperties: usageTotalsSchema } as const;
+
+const usageSummaryDataSchema: ObjectSchemaFor<UsageSummaryData> = {
+  type: 'object',
+  properties: {
+    totals: usageTotalsSchema,
+    by_env: usageTotalsByKey,
+    by_session: usageTotalsByKey,
+    by_model: usageTotalsByKey,
+    turns: { type: 'array', items: usageRecordSchema, description: 'Most recent first' },
+    budget: sessionBudgetSchema
+  },
+  required: ['totals', 'by_env', 'by_session', 'by_model', 'turns']
+};
+
+export const usageSummaryResponseSchema = standardResponse(usageSummaryDataSchema);
+
+export const sessionBudgetResponseSchema = standardResponse(sessionBudgetSchema);
+
+// Webhooks
+
+export const deadLetterDeliverySchema: ObjectSchemaFor<DeadLetterDelivery> = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    url: { type: 'string' },
+    idempotency_key: { type: 'string', description: 'Sent as Idempotency-Key, unchanged on replay' },
+    attempts: { type: 'integer', minimum: 0 },
+    created_at: timestamp,
+    last_attempt_at: timestamp,
+    next_attempt_at: timestamp,
+    last_status: { type: 'integer', description: 'HTTP status of the last attempt, if the receiver answered' },
+    last_error: { type: 'string' },
+    dead_at: timestamp,
+    payload: { description: 'Webhook payload' }
+  },
+  required: ['id', 'url', 'idempotency_key', 'attempts', 'created_at', 'payload']
+};
+
+const deadLetterListDataSchema: ObjectSchemaFor<DeadLetterListData> = {
+  type: 'object',
+  properties: {
+    deliveries: { type: 'array', items: deadLetterDeliverySchema, description: 'Newest first' },
+    count: { type: 'integer', minimum: 0 }
+  },
+  required: ['deliveries', 'count']
+};
+
+export const deadLetterListResponseSchema = standardResponse(deadLetterListDataSchema);
+
+const deadLetterReplayDataSchema: ObjectSchemaFor<DeadLetterReplayData> = {
+  type: 'object',
+  properties: {
+    delivered: { type: 'boolean' },
+    delivery: deadLetterDeliverySchema
+  },
+  required: ['delivered', 'delivery']
+};
+
+export const deadLetterReplayResponseSchema = standardResponse(deadLetterReplayDataSchema);
+
+// Codex
+
+export const codexMessageResponseSchema: ObjectSchemaFor<CodexMessageResponse> = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    message: { type: 'string' }
+  },
+  required: ['success', 'message']
+};
+
+export const codexThreadResponseSchema: ObjectSchemaFor<CodexThreadResponse> = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    threadId: { type: 'string' },
+    config: codexThreadRequestSchema
+  },
+  required: ['success', 'threadId', 'config']
+};
+
+export const codexResumeResponseSchema: ObjectSchemaFor<CodexResumeResponse> = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    threadId: { type: 'string' },
+    sessionId: { type: 'string' }
+  },
+  required: ['success', 'threadId', 'sessionId']
+};
+
+export const codexRunResponseSchema: ObjectSchemaFor<CodexRunResponse> = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    threadId: { type: 'string' },
+    response: { type: 'string', description: 'Final response of the turn' },
+    items: turnItems
+  },
+  required: ['success', 'threadId', 'response', 'items']
+};
+
+export const codexEnvironmentRunResponseSchema: ObjectSchemaFor<CodexEnvironmentRunResponse> = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    envId: { type: 'string' },
+    response: codexRunResponseSchema.properties.response,
+    items: turnItems
+  },
+  required: ['success', 'envId', 'response', 'items']
+};
+
+export const codexQuickRunResponseSchema: ObjectSchemaFor<CodexQuickRunResponse> = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    response: codexRunResponseSchema.properties.response,
+    items: turnItems
+  },
+  required: ['success', 'response', 'items']
+};
+
+export const codexThreadListResponseSchema: ObjectSchemaFor<CodexThreadListResponse> = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    threads: { type: 'array', items: { type: 'string' } },
+    count: { type: 'integer', minimum: 0 }
+  },
+  required: ['success', 'threads', 'count']
+};
+
+export const codexEnvironmentInfoSchema: ObjectSchemaFor<CodexEnvironmentInfo> = {
+  type: 'object',
+  properties: {
+    envId: { type: 'string' },
+    workingDirectory: { type: 'string' },
+    model: { type: 'string' },
+    storeId: { type: 'string' },
+    sessionId: { type: 'string' },
+    createdAt: timestamp
+  },
+  required: ['envId', 'workingDirectory', 'model', 'createdAt']
+};
+
+export const codexEnvironmentResponseSchema: ObjectSchemaFor<CodexEnvironmentResponse> = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    environment: codexEnvironmentInfoSchema
+  },
+  required: ['success', 'environment']
+};
+
+export const codexEnvironmentListResponseSchema: ObjectSchemaFor<CodexEnvironmentListResponse> = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    environments: { type: 'array', items: codexEnvironmentInfoSchema },
+    count: { type: 'integer', minimum: 0 }
+  },
+  required: ['success', 'environments', 'count']
+};
+
+export const codexStreamEventSchema: ObjectSchemaFor<CodexStreamEvent> = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', description: 'thread.started, turn.started, item.*, turn.completed, turn.failed or error' }
+  },
+  required: ['type'],
+  additionalProperties: true
+};
@@ -0,0 +1,361 @@
+/**
+ * Webhook Schemas
+ *
+ * JSON Schemas of the webhook payloads, checked against the payload types in
+ * theme.types.ts, and the webhooks they are sent with. Published in the
+ * "webhooks" section of the OpenAPI document.
+ */
+
+import { JsonSchema, ObjectSchemaFor } from '../utils/json-schema';
+import {
+  AgentMessageItem,
+  ChatStreamingWebhookPayload,
+  ChatUsage,
+  ChatWebhookPayload,
+  CommandExecutionItem,
+  ErrorItem,
+  FileChangeItem,
+  FileChangeSummary,
+  McpToolCallItem,
+  ReasoningItem,
+  ThemeDownloadWebhookPayload,
+  ThemeInfo,
+  ThemeListWebhookPayload,
+  ThemeProgressEventType,
+  ThemeProgressWebhookPayload,
+  ThemePushWebhookPayload,
+  TodoListItem,
+  WebSearchItem
+} from '../types/theme.types';
+
+const progressEventTypes: ThemeProgressEventType[] = [
+  'duplicate.started',
+  'duplicate.progress',
+  'duplicate.completed',
+  'pull.attempt',
+  'pull.completed',
+  'codex.ready',
+  'dev.started'
+];
+
+const itemStatuses = ['in_progress', 'completed', 'failed'];
+
+// Theme
+
+export const themeInfoSchema: ObjectSchemaFor<ThemeInfo> = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    id: { type: 'string' },
+    role: { type: 'string', example: 'main' }
+  },
+  required: ['name', 'id', 'role']
+};
+
+export const themeListWebhookSchema: ObjectSchemaFor<ThemeListWebhookPayload> = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    store_id: { type: 'string' },
+    themes: { type: 'array', items: themeInfoSchema },
+    error: { type: 'string' }
+  },
+  required: ['success', 'themes']
+};
+
+export const themeProgressWebhookSchema: ObjectSchemaFor<ThemeProgressWebhookPayload> = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', enum: progressEventTypes },
+    job_id: { type: 'string' },
+    store_id: { type: 'string' },
+    source_theme_id: { type: 'string' },
+    theme_id: { type: 'string', description: 'The duplicate, once created' },
+    env_id: { type: 'string', description: 'From codex.ready on' },
+    elapsed_ms: { type: 'integer', description: 'Since the download started' },
+    duration_ms: { type: 'integer', description: 'Of the finished stage' },
+    attempt: { type: 'integer', description: 'pull.attempt' },
+    max_attempts: { type: 'integer', description: 'pull.attempt' },
+    progress: { type: 'number', minimum: 0, maximum: 100, description: 'duplicate.progress' },
+    processing: { type: 'boolean', description: 'duplicate.progress' },
+    asset_count: { type: 'integer', description: 'duplicate.progress' },
+    source_asset_count: { type: 'integer', description: 'duplicate.progress' },
+    file_count: { type: 'integer', description: 'pull.completed' },
+    dev_server_port: { type: 'integer', description: 'dev.started' }
+  },
+  required: ['type', 'source_theme_id', 'elapsed_ms']
+};
+
+export const themeDownloadWebhookSchema: ObjectSchemaFor<ThemeDownloadWebhookPayload> = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    job_id: { type: 'string' },
+    store_id: { type: 'string' },
+    theme_id: { type: 'string', description: 'The duplicate the environment works on' },
+    env_id: { type: 'string' },
+    dev_server_port: { type: 'integer' },
+    preview_path: { type: 'string', description: "Path on the preview proxy that serves this environment's dev server" },
+    error: { type: 'string' }
+  },
+  required: ['success']
+};
+
+export const themePushWebhookSchema: ObjectSchemaFor<ThemePushWebhookPayload> = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    job_id: { type: 'string' },
+    store_id: { type: 'string' },
+    theme_id: { type: 'string' },
+    env_id: { type: 'string' },
+    published: { type: 'boolean' },
+    error: { type: 'string' }
+  },
+  required: ['success']
+};
+
+// Chat
+
+export const chatUsageSchema: ObjectSchemaFor<ChatUsage> = {
+  type: 'object',
+  properties: {
+    input_tokens: { type: 'integer' },
+    cached_input_tokens: { type: 'integer' },
+    output_tokens: { type: 'integer' },
+    cost_usd: { type: ['number', 'null'], description: 'null when the model has no configured price' }
+  },
+  required: ['input_tokens', 'cached_input_tokens', 'output_tokens', 'cost_usd']
+};
+
+export const fileChangeSummarySchema: ObjectSchemaFor<FileChangeSummary> = {
+  type: 'object',
+  properties: {
+    path: { type: 'string' },
+    status: { type: 'string', enum: ['added', 'modified', 'deleted'] },
+    added: { type: 'integer' },
+    removed: { type: 'integer' },
+    binary: { type: 'boolean' }
+  },
+  required: ['path', 'status', 'added', 'removed']
+};
+
+export const chatWebhookSchema: ObjectSchemaFor<ChatWebhookPayload> = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    job_id: { type: 'string' },
+    env_id: { type: 'string' },
+    response: { type: 'string', description: 'Final response of the turn' },
+    structured: { type: 'object', description: 'Final response parsed as JSON, when output_schema was given and it matches' },
+    items: { type: 'array', items: { type: 'object' } },
+    error: { type: 'string' },
+    cancelled: { type: 'boolean' },
+    commit: { type: 'string', description: 'Snapshot of the theme after the turn, usable with /env/{envId}/rollback' },
+    changes: { type: 'array', items: fileChangeSummarySchema, description: 'Files changed by the turn' },
+    usage: chatUsageSchema
+  },
+  required: ['success']
+};
+
+// Items of item.* streaming events
+
+export const agentMessageItemSchema: ObjectSchemaFor<AgentMessageItem> = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    type: { type: 'string', enum: ['agent_message'] },
+    text: { type: 'string', description: 'Natural-language text, or JSON when structured output is requested' }
+  },
+  required: ['id', 'type', 'text']
+};
+
+export const reasoningItemSchema: ObjectSchemaFor<ReasoningItem> = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    type: { type: 'string', enum: ['reasoning'] },
+    text: { type: 'string', description: 'Reasoning summary' }
+  },
+  required: ['id', 'type', 'text']
+};
+
+export const commandExecutionItemSchema: ObjectSchemaFor<CommandExecutionItem> = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    type: { type: 'string', enum: ['command_execution'] },
+    command: { type: 'string' },
+    aggregated_output: { type: 'string', description: 'stdout and stderr captured so far' },
+    exit_code: { type: 'integer', description: 'Set once the command has exited' },
+    status: { type: 'string', enum: itemStatuses }
+  },
+  required: ['id', 'type', 'command', 'aggregated_output', 'status']
+};
+
+export const fileChangeItemSchema: ObjectSchemaFor<FileChangeItem> = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    type: { type: 'string', enum: ['file_change'] },
+    changes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          path: { type: 'string' },
+          kind: { type: 'string', enum: ['add', 'delete', 'update'] }
+        },
+        required: ['path', 'kind']
+      }
+    },
+    status: { type: 'string', enum: ['completed', 'failed'] }
+  },
+  required: ['id', 'type', 'changes', 'status']
+};
+
+export const mcpToolCallItemSchema: ObjectSchemaFor<McpToolCallItem> = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    type: { type: 'string', enum: ['mcp_tool_call'] },
+    server: { type: 'string' },
+    tool: { type: 'string' },
+    arguments: {},
+    result: {
+      type: 'object',
+      properties: {
+        content: { type: 'array', items: {} },
+        structured_content: {}
+      },
+      required: ['content', 'structured_content']
+    },
+    error: {
+      type: 'object',
+      properties: { message: { type: 'string' } },
+      required: ['message']
+    },
+    status: { type: 'string', enum: itemStatuses }
+  },
+  required: ['id', 'type', 'server', 'tool', 'arguments', 'status']
+};
+
+export const webSearchItemSchema: ObjectSchemaFor<WebSearchItem> = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    type: { type: 'string', enum: ['web_search'] },
+    query: { type: 'string' }
+  },
+  required: ['id', 'type', 'query']
+};
+
+export const todoListItemSchema: ObjectSchemaFor<TodoListItem> = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    type: { type: 'string', enum: ['todo_list'] },
+    items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          text: { type: 'string' },
+          completed: { type: 'boolean' }
+        },
+        required: ['text', 'completed']
+      },
+      description: 'Updated as steps are done; completed when the turn ends'
+    }
+  },
+  required: ['id', 'type', 'items']
+};
+
+export const errorItemSchema: ObjectSchemaFor<ErrorItem> = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    type: { type: 'string', enum: ['error'] },
+    message: { type: 'string', description: 'Non-fatal error' }
+  },
+  required: ['id', 'type', 'message']
+};
+
+export const chatStreamingItemSchema = {
+  anyOf: [
+    agentMessageItemSchema,
+    reasoningItemSchema,
+    commandExecutionItemSchema,
+    fileChangeItemSchema,
+    mcpToolCallItemSchema,
+    webSearchItemSchema,
+    todoListItemSchema,
+    errorItemSchema
+  ]
+};
+
+export const chatStreamingWebhookSchema: ObjectSchemaFor<ChatStreamingWebhookPayload> = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    job_id: { type: 'string' },
+    env_id: { type: 'string' },
+    event_number: { type: 'integer', description: 'Increases across turns of the environment' },
+    timestamp: { type: 'string', format: 'date-time' },
+    type: { type: 'string', description: 'thread.started, item.updated, turn.cancelled, events.batch, stream.completed, ...' },
+    thread_id: { type: 'string', description: 'thread.started' },
+    item: chatStreamingItemSchema,
+    usage: { description: 'turn.completed; ChatUsage for stream.completed' },
+    error: { description: 'turn.failed and error' },
+    message: { type: 'string', description: 'error' },
+    events: { type: 'array', items: { type: 'object' }, description: 'events.batch: the batched events' },
+    first_event_number: { type: 'integer', description: 'events.batch and stream.completed' },
+    last_event_number: { type: 'integer', description: 'events.batch and stream.completed' },
+    total_events: { type: 'integer', description: 'stream.completed' },
+    duration_ms: { type: 'integer', description: 'stream.completed' },
+    structured: { type: 'object', description: 'stream.completed, when output_schema was given and the final response matches' }
+  },
+  required: ['success'],
+  additionalProperties: true
+};
+
+export interface WebhookDefinition {
+  path: string;         // Appended to WEBHOOK_URL
+  summary: string;
+  payload: JsonSchema;
+}
+
+const defineWebhooks = <T extends Record<string, WebhookDefinition>>(webhooks: T): T => webhooks;
+
+export const webhookDefinitions = defineWebhooks({
+  themeList: {
+    path: '/theme/{session_id}',
+    summary: 'Themes of a store, sent on startup',
+    payload: themeListWebhookSchema
+  },
+  themeProgress: {
+    path: '/theme/{session_id}',
+    summary: 'Stage of a theme download (before the final themeDownload webhook)',
+    payload: themeProgressWebhookSchema
+  },
+  themeDownload: {
+    path: '/theme/{session_id}',
+    summary: 'Result of POST /selected-theme',
+    payload: themeDownloadWebhookSchema
+  },
+  themePush: {
+    path: '/theme/{session_id}',
+    summary: 'Result of POST /theme/{themeId}/push',
+    payload: themePushWebhookSchema
+  },
+  chat: {
+    path: '/chat/{session_id}',
+    summary: 'Result of POST /chat',
+    payload: chatWebhookSchema
+  },
+  chatStreaming: {
+    path: '/chat-streaming/{session_id}',
+    summary: 'Events of POST /chat-streaming, ending with stream.completed',
+    payload: chatStreamingWebhookSchema
+  }
+});
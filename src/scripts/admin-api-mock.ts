@@ -0,0 +1,276 @@
+/**
+ * Local mock of the Shopify Admin API endpoints used by AdminApiThemeBackend
+ * (themes, assets and the themeDuplicate mutation), kept in memory.
+ *
+ * Usage:
+ *   npm run mock:admin-api                          # Listens on ADMIN_API_MOCK_PORT (default 4000)
+ *   SHOPIFY_ADMIN_API_URL=http://localhost:4000 THEME_BACKEND=admin-api npm run dev
+ */
+
+import express, { Request, Response } from 'express';
+import { createHash } from 'crypto';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import logger from '../utils/logger';
+
+export interface MockAsset {
+  value?: string;
+  attachment?: string;  // base64
+  updatedAt: string;
+}
+
+export interface MockTheme {
+  id: number;
+  name: string;
+  role: string;
+  assets: Map<string, MockAsset>;
+  pendingStatusChecks: number;  // Status requests that still report processing
+}
+
+/**
+ * A request the mock received, e.g. to check which assets a push uploaded
+ */
+export interface MockRequest {
+  method: string;
+  path: string;
+  assetKey?: string;
+}
+
+export interface AdminApiMockOptions {
+  duplicateProcessingChecks?: number;  // Status requests a duplicate stays processing for (default 3)
+  duplicateAssetDelayChecks?: number;  // Status requests before a duplicate has its files (default 2)
+}
+
+export interface AdminApiMock {
+  themes: Map<number, MockTheme>;
+  requests: MockRequest[];
+  rateLimitNext: number;  // Next requests answered with 429
+  app: express.Express;
+}
+
+/**
+ * MD5 of an asset's content, as Shopify reports in `checksum`
+ */
+export function assetChecksum(asset: Pick<MockAsset, 'value' | 'attachment'>): string {
+  const content = asset.attachment !== undefined
+    ? Buffer.from(asset.attachment, 'base64')
+    : Buffer.from(asset.value || '', 'utf-8');
+
+  return createHash('md5').update(content).digest('hex');
+}
+
+/**
+ * Create the mock with one published theme
+ * @param options - How long duplicates take to become ready
+ */
+export function createAdminApiMock(options: AdminApiMockOptions = {}): AdminApiMock {
+  const { duplicateProcessingChecks = 3, duplicateAssetDelayChecks = 2 } = options;
+  const app = express();
+  const now = () => new Date().toISOString();
+
+  const mock: AdminApiMock = {
+    themes: new Map(),
+    requests: [],
+    rateLimitNext: 0,
+    app,
+  };
+
+  mock.themes.set(1000, {
+    id: 1000,
+    name: 'Dawn',
+    role: 'main',
+    pendingStatusChecks: 0,
+    assets: new Map([
+      ['layout/theme.liquid', { value: '<html>{{ content_for_layout }}</html>', updatedAt: now() }],
+      ['sections/header.liquid', { value: '<header>{{ shop.name }}</header>', updatedAt: now() }],
+      ['templates/index.json', { value: '{"sections":{}}', updatedAt: now() }],
+      ['assets/logo.png', { attachment: Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]).toString('base64'), updatedAt: now() }],
+    ]),
+  });
+
+  // Files of duplicates appear after a few status checks, like a theme Shopify is still copying
+  const duplicateSources = new Map<number, { source: MockTheme; checksLeft: number }>();
+
+  // Keep "asset[key]" a flat query parameter, as Shopify reads it
+  app.set('query parser', 'simple');
+  app.use(express.json({ limit: '50mb' }));
+
+  app.use((req, res, next) => {
+    mock.requests.push({
+      method: req.method,
+      path: req.path,
+      assetKey: (req.query['asset[key]'] as string | undefined) || req.body?.asset?.key,
+    });
+
+    if (!req.get('X-Shopify-Access-Token')) {
+      return res.status(401).json({ errors: '[API] Invalid API key or access token (unrecognized login or wrong password)' });
+    }
+
+    if (mock.rateLimitNext > 0) {
+      mock.rateLimitNext--;
+      res.setHeader('Retry-After', '0.05');
+      return res.status(429).json({ errors: 'Exceeded 2 calls per second for api client' });
+    }
+
+    next();
+  });
+
+  const findTheme = (req: Request, res: Response): MockTheme | undefined => {
+    const theme = mock.themes.get(Number(req.params.themeId));
+
+    if (!theme) {
+      res.status(404).json({ errors: 'Not Found' });
+    }
+    return theme;
+  };
+
+  const toRestTheme = (theme: MockTheme) => ({
+    id: theme.id,
+    name: theme.name,
+    role: theme.role,
+    processing: theme.pendingStatusChecks > 0,
+  });
+
+  const toRestAsset = (key: string, asset: MockAsset) => ({
+    key,
+    size: asset.attachment !== undefined ? Buffer.from(asset.attachment, 'base64').length : Buffer.byteLength(asset.value || ''),
+    checksum: assetChecksum(asset),
+    updated_at: asset.updatedAt,
+  });
+
+  app.get('/themes.json', (_req, res) => {
+    res.json({ themes: Array.from(mock.themes.values()).map(toRestTheme) });
+  });
+
+  app.get('/themes/:themeId.json', (req, res) => {
+    const theme = findTheme(req, res);
+    if (!theme) return;
+
+    const response = toRestTheme(theme);
+    theme.pendingStatusChecks = Math.max(0, theme.pendingStatusChecks - 1);
+
+    const duplicate = duplicateSources.get(theme.id);
+    if (duplicate && --duplicate.checksLeft <= 0) {
+      duplicate.source.assets.forEach((asset, key) => theme.assets.set(key, { ...asset }));
+      duplicateSources.delete(theme.id);
+    }
+
+    res.json({ theme: response });
+  });
+
+  app.put('/themes/:themeId.json', (req, res) => {
+    const theme = findTheme(req, res);
+    if (!theme) return;
+
+    if (req.body?.theme?.role === 'main') {
+      mock.themes.forEach((other) => {
+        if (other.role === 'main') other.role = 'unpublished';
+      });
+      theme.role = 'main';
+    }
+
+    res.json({ theme: toRestTheme(theme) });
+  });
+
+  app.post('/graphql.json', (req, res) => {
+    const { query, variables } = req.body || {};
+
+    if (typeof query !== 'string' || !query.includes('themeDuplicate')) {
+      return res.json({ errors: [{ message: 'Only themeDuplicate is mocked' }] });
+    }
+
+    const source = mock.themes.get(Number(String(variables?.id || '').split('/').pop()));
+
+    if (!source) {
+      return res.json({ data: { themeDuplicate: { newTheme: null, userErrors: [{ field: ['id'], message: 'Theme not found' }] } } });
+    }
+
+    const id = Math.max(...mock.themes.keys()) + 1;
+    const name = variables?.name || `Copy of ${source.name}`;
+
+    mock.themes.set(id, { id, name, role: 'unpublished', assets: new Map(), pendingStatusChecks: duplicateProcessingChecks });
+    duplicateSources.set(id, { source, checksLeft: duplicateAssetDelayChecks });
+
+    res.json({
+      data: {
+        themeDuplicate: {
+          newTheme: { id: `gid://shopify/OnlineStoreTheme/${id}`, name, role: 'UNPUBLISHED' },
+          userErrors: [],
+        },
+      },
+    });
+  });
+
+  app.get('/themes/:themeId/assets.json', (req, res) => {
+    const theme = findTheme(req, res);
+    if (!theme) return;
+
+    const key = req.query['asset[key]'] as string | undefined;
+
+    if (!key) {
+      return res.json({ assets: Array.from(theme.assets.entries()).map(([assetKey, asset]) => toRestAsset(assetKey, asset)) });
+    }
+
+    const asset = theme.assets.get(key);
+    if (!asset) {
+      return res.status(404).json({ errors: 'Not Found' });
+    }
+
+    res.json({ asset: { ...toRestAsset(key, asset), value: asset.value, attachment: asset.attachment } });
+  });
+
+  app.put('/themes/:themeId/assets.json', (req, res) => {
+    const theme = findTheme(req, res);
+    if (!theme) return;
+
+    const { key, value, attachment } = req.body?.asset || {};
+
+    if (typeof key !== 'string' || (value === undefined && attachment === undefined)) {
+      return res.status(422).json({ errors: { asset: ['key and value or attachment are required'] } });
+    }
+
+    const asset: MockAsset = attachment !== undefined ? { attachment, updatedAt: now() } : { value, updatedAt: now() };
+    theme.assets.set(key, asset);
+
+    res.json({ asset: toRestAsset(key, asset) });
+  });
+
+  app.delete('/themes/:themeId/assets.json', (req, res) => {
+    const theme = findTheme(req, res);
+    if (!theme) return;
+
+    const key = req.query['asset[key]'] as string;
+
+    if (!theme.assets.delete(key)) {
+      return res.status(404).json({ errors: 'Not Found' });
+    }
+
+    res.json({ message: `${key} was successfully deleted` });
+  });
+
+  return mock;
+}
+
+/**
+ * Start a mock on a port (0 = any free port)
+ * @returns The mock, its base URL and the HTTP server to close
+ */
+export async function startAdminApiMock(
+  port: number = 0,
+  options: AdminApiMockOptions = {}
+): Promise<{ mock: AdminApiMock; baseUrl: string; server: Server }> {
+  const mock = createAdminApiMock(options);
+
+  const server = await new Promise<Server>((resolve) => {
+    const listening = mock.app.listen(port, '127.0.0.1', () => resolve(listening));
+  });
+
+  const { port: boundPort } = server.address() as AddressInfo;
+  return { mock, baseUrl: `http://127.0.0.1:${boundPort}`, server };
+}
+
+if (require.main === module) {
+  startAdminApiMock(parseInt(process.env.ADMIN_API_MOCK_PORT || '4000', 10)).then(({ baseUrl }) => {
+    logger.info(`Admin API mock listening on ${baseUrl} (theme 1000 is published)`);
+  });
+}
@@ -0,0 +1,155 @@
+/**
+ * Check AdminApiThemeBackend against the local Admin API mock (admin-api-mock.ts)
+ *
+ * Usage:
+ *   npm run check:admin-api   # Exits with 1 if a check fails
+ */
+
+import assert from 'assert/strict';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { AdminApiThemeBackend } from '../services/admin-api.backend';
+import { ThemeReadinessPoller } from '../services/theme-readiness.poller';
+import { AdminApiMock, startAdminApiMock } from './admin-api-mock';
+
+const SOURCE_THEME_ID = '1000';
+
+interface CheckContext {
+  mock: AdminApiMock;
+  backend: AdminApiThemeBackend;
+  themePath: string;
+}
+
+type Check = (context: CheckContext) => Promise<void>;
+
+/**
+ * Asset PUTs and DELETEs sent to the mock since a request index
+ */
+function writesSince(mock: AdminApiMock, index: number) {
+  const writes = mock.requests.slice(index).filter((request) => request.path.endsWith('/assets.json'));
+
+  return {
+    uploaded: writes.filter((request) => request.method === 'PUT').map((request) => request.assetKey).sort(),
+    deleted: writes.filter((request) => request.method === 'DELETE').map((request) => request.assetKey).sort(),
+  };
+}
+
+const checks: Record<string, Check> = {
+  'lists themes': async ({ backend }) => {
+    const themes = await backend.listThemes();
+    assert.deepEqual(themes, [{ id: SOURCE_THEME_ID, name: 'Dawn', role: 'main' }]);
+  },
+
+  'duplicates a theme and waits until its files are copied': async ({ backend }) => {
+    const duplicate = await backend.duplicateTheme(SOURCE_THEME_ID, 'Agent copy');
+    assert.equal(duplicate.role, 'unpublished');
+
+    const poller = new ThemeReadinessPoller(backend, { timeoutMs: 5000, initialDelayMs: 10, maxDelayMs: 20, minWaitMs: 0 });
+    const progress: number[] = [];
+    const final = await poller.waitForDuplicate(SOURCE_THEME_ID, duplicate.id, (update) => {
+      progress.push(update.progress);
+    });
+
+    assert.equal(final.ready, true);
+    assert.equal(final.assetCount, final.sourceAssetCount);
+    assert.ok(progress.length > 1 && progress[0] < 100, `expected progress before ready, got ${progress}`);
+  },
+
+  'pulls text and binary assets': async ({ backend, themePath }) => {
+    await backend.pullTheme(SOURCE_THEME_ID, themePath);
+
+    const header = await fs.readFile(path.join(themePath, 'sections', 'header.liquid'), 'utf-8');
+    const logo = await fs.readFile(path.join(themePath, 'assets', 'logo.png'));
+
+    assert.equal(header, '<header>{{ shop.name }}</header>');
+    assert.deepEqual([...logo], [0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]);
+  },
+
+  'pushes only changed files and deletes removed ones': async ({ mock, backend, themePath }) => {
+    await fs.writeFile(path.join(themePath, 'sections', 'header.liquid'), '<header>Changed</header>');
+    await fs.writeFile(path.join(themePath, 'sections', 'footer.liquid'), '<footer></footer>');
+    await fs.rm(path.join(themePath, 'templates', 'index.json'));
+
+    const start = mock.requests.length;
+    await backend.pushTheme(SOURCE_THEME_ID, themePath);
+
+    assert.deepEqual(writesSince(mock, start), {
+      uploaded: ['sections/footer.liquid', 'sections/header.liquid'],
+      deleted: ['templates/index.json'],
+    });
+    assert.equal(mock.themes.get(Number(SOURCE_THEME_ID))!.assets.get('sections/header.liquid')!.value, '<header>Changed</header>');
+  },
+
+  'uploads nothing when nothing changed': async ({ mock, backend, themePath }) => {
+    const start = mock.requests.length;
+    await backend.pushTheme(SOURCE_THEME_ID, themePath);
+
+    assert.deepEqual(writesSince(mock, start), { uploaded: [], deleted: [] });
+  },
+
+  'leaves files outside the push filters alone': async ({ mock, backend, themePath }) => {
+    await fs.writeFile(path.join(themePath, 'layout', 'theme.liquid'), '<html>Changed</html>');
+    await fs.writeFile(path.join(themePath, 'sections', 'header.liquid'), '<header>Changed again</header>');
+
+    const start = mock.requests.length;
+    await backend.pushTheme(SOURCE_THEME_ID, themePath, { only: ['sections/*'] });
+
+    assert.deepEqual(writesSince(mock, start), { uploaded: ['sections/header.liquid'], deleted: [] });
+  },
+
+  'retries rate-limited requests': async ({ mock, backend }) => {
+    mock.rateLimitNext = 2;
+    const assets = await backend.listAssets(SOURCE_THEME_ID);
+
+    assert.equal(mock.rateLimitNext, 0);
+    assert.ok(assets.length > 0);
+  },
+
+  'reports Admin API errors': async ({ backend }) => {
+    await assert.rejects(backend.getAsset(SOURCE_THEME_ID, 'sections/missing.liquid'), /failed \(404\)/);
+  },
+
+  'publishes a pushed theme': async ({ mock, backend, themePath }) => {
+    const [, duplicate] = await backend.listThemes();
+    await backend.pushTheme(duplicate.id, themePath, { publish: true });
+
+    const themes = await backend.listThemes();
+    assert.equal(themes.find((theme) => theme.id === duplicate.id)!.role, 'main');
+    assert.equal(mock.themes.get(Number(SOURCE_THEME_ID))!.role, 'unpublished');
+  },
+};
+
+async function main() {
+  const { mock, baseUrl, server } = await startAdminApiMock();
+  const themePath = await fs.mkdtemp(path.join(os.tmpdir(), 'admin-api-check-'));
+  const backend = new AdminApiThemeBackend(
+    { storeId: 'mock', storeUrl: 'mock.myshopify.com', themePassword: 'theme_mock', adminAccessToken: 'shpat_mock', sessionId: 'mock' },
+    { apiVersion: '2024-10', baseUrl }
+  );
+
+  let failed = 0;
+
+  try {
+    // Checks build on each other (pull, then push), so they run in order
+    for (const [name, check] of Object.entries(checks)) {
+      try {
+        await check({ mock, backend, themePath });
+        console.log(`✓ ${name}`);
+      } catch (error: any) {
+        failed++;
+        console.error(`✗ ${name}\n  ${error.message.split('\n').join('\n  ')}`);
+      }
+    }
+  } finally {
+    server.close();
+    await fs.rm(themePath, { recursive: true, force: true });
+  }
+
+  console.log(`\n${Object.keys(checks).length - failed} passed, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+if (require.main === module) {
+  main();
+}
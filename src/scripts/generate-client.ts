@@ -0,0 +1,402 @@
+/**
+ * Generate the TypeScript client (src/client) from the OpenAPI document
+ *
+ * Usage:
+ *   npm run generate:client            # Write src/client/index.ts and src/client/openapi.json
+ *   npm run generate:client -- --check # Fail if they are out of date
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { buildOpenApiDocument } from '../schemas/openapi';
+import { JsonSchema } from '../utils/json-schema';
+import logger from '../utils/logger';
+
+// Same from src/scripts (ts-node) and dist/scripts
+const CLIENT_DIR = path.resolve(__dirname, '..', '..', 'src', 'client');
+
+interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+}
+
+interface OpenApiOperation {
+  operationId: string;
+  summary: string;
+  parameters: OpenApiParameter[];
+  requestBody?: { content: Record<string, { schema: JsonSchema }> };
+  responses: Record<string, { content?: Record<string, { schema: JsonSchema }> }>;
+}
+
+interface OpenApiDocument {
+  info: { title: string };
+  paths: Record<string, Record<string, OpenApiOperation>>;
+  components: { schemas: Record<string, JsonSchema> };
+}
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+const refName = (ref: string): string => ref.substring(ref.lastIndexOf('/') + 1);
+
+const literal = (value: unknown): string =>
+  typeof value === 'string' ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'` : JSON.stringify(value);
+
+function docComment(text: string | undefined, indent: string): string {
+  return text ? `${indent}/** ${text.replace(/\*\//g, '*\\/')} */\n` : '';
+}
+
+/**
+ * TypeScript type of a schema
+ * @param schema - JSON Schema with $refs to components
+ * @param indent - Indentation of the line the type starts on
+ */
+function typeOf(schema: JsonSchema, indent: string = ''): string {
+  if (schema.$ref) {
+    return refName(schema.$ref);
+  }
+
+  if (schema.anyOf) {
+    return schema.anyOf.map((option) => typeOf(option, indent)).join(' | ');
+  }
+
+  if (schema.enum) {
+    return schema.enum.map(literal).join(' | ');
+  }
+
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+
+  if (types.length === 0) {
+    return 'unknown';
+  }
+
+  return types.map((type) => {
+    switch (type) {
+      case 'string':
+        return 'string';
+      case 'number':
+      case 'integer':
+        return 'number';
+      case 'boolean':
+        return 'boolean';
+      case 'null':
+        return 'null';
+      case 'array': {
+        const items = schema.items ? typeOf(schema.items, indent) : 'unknown';
+        return items.includes(' | ') && !items.startsWith('{') ? `(${items})[]` : `${items}[]`;
+      }
+      case 'object':
+        return objectType(schema, indent);
+    }
+  }).join(' | ');
+}
+
+function objectType(schema: JsonSchema, indent: string): string {
+  const properties = Object.entries(schema.properties || {});
+
+  if (properties.length === 0) {
+    return typeof schema.additionalProperties === 'object'
+      ? `Record<string, ${typeOf(schema.additionalProperties, indent)}>`
+      : 'Record<string, unknown>';
+  }
+
+  return `{\n${objectMembers(schema, `${indent}  `)}${indent}}`;
+}
+
+function objectMembers(schema: JsonSchema, indent: string): string {
+  const required = schema.required || [];
+  let members = '';
+
+  for (const [name, property] of Object.entries(schema.properties || {})) {
+    const key = IDENTIFIER.test(name) ? name : literal(name);
+    const optional = required.includes(name) ? '' : '?';
+
+    members += docComment(property.description, indent);
+    members += `${indent}${key}${optional}: ${typeOf(property, indent)};\n`;
+  }
+
+  if (schema.additionalProperties === true) {
+    members += `${indent}[key: string]: unknown;\n`;
+  }
+
+  return members;
+}
+
+function declaration(name: string, schema: JsonSchema): string {
+  const comment = docComment(schema.description, '');
+
+  if (schema.type === 'object' && schema.properties) {
+    return `${comment}export interface ${name} {\n${objectMembers(schema, '  ')}}\n`;
+  }
+
+  return `${comment}export type ${name} = ${typeOf(schema)};\n`;
+}
+
+function resolve(document: OpenApiDocument, schema: JsonSchema): JsonSchema {
+  return schema.$ref ? document.components.schemas[refName(schema.$ref)] : schema;
+}
+
+function method(document: OpenApiDocument, httpMethod: string, openApiPath: string, operation: OpenApiOperation): string {
+  const args: string[] = [];
+  const options: string[] = [];
+
+  const pathParameters = operation.parameters.filter((parameter) => parameter.in === 'path');
+  const queryParameters = operation.parameters.filter((parameter) => parameter.in === 'query');
+
+  for (const parameter of pathParameters) {
+    args.push(`${parameter.name}: ${typeOf(parameter.schema)}`);
+  }
+
+  const bodySchema = operation.requestBody?.content['application/json']?.schema;
+
+  if (bodySchema) {
+    const optional = (resolve(document, bodySchema).required || []).length === 0;
+    args.push(`body: ${typeOf(bodySchema)}${optional ? ' = {}' : ''}`);
+    options.push('body');
+  }
+
+  if (queryParameters.length > 0) {
+    const query: JsonSchema = {
+      type: 'object',
+      properties: Object.fromEntries(queryParameters.map((parameter) => [parameter.name, parameter.schema])),
+      required: queryParameters.filter((parameter) => parameter.required).map((parameter) => parameter.name)
+    };
+    const optional = query.required!.length === 0;
+    args.push(`query: ${typeOf(query, '  ')}${optional ? ' = {}' : ''}`);
+    options.push('query');
+  }
+
+  const urlPath = openApiPath.includes('{')
+    ? `\`${openApiPath.replace(/\{([^}]+)\}/g, (_match, name) => `\${encodeURIComponent(${name})}`)}\``
+    : literal(openApiPath);
+  const success = operation.responses['200']?.content || {};
+  const call = `'${httpMethod}', ${urlPath}, ${options.length > 0 ? `{ ${options.join(', ')} }` : '{}'}`;
+
+  let signature: string;
+  let body: string;
+
+  if (success['text/event-stream']) {
+    signature = `AsyncGenerator<${typeOf(success['text/event-stream'].schema)}>`;
+    body = `return this.stream(${call});`;
+  } else {
+    signature = `Promise<${success['application/json'] ? typeOf(success['application/json'].schema) : 'unknown'}>`;
+    body = `return this.request(${call});`;
+  }
+
+  return [
+    '  /**',
+    `   * ${operation.summary}`,
+    '   *',
+    `   * \`${httpMethod.toUpperCase()} ${openApiPath}\``,
+    '   */',
+    `  ${operation.operationId}(${args.join(', ')}): ${signature} {`,
+    `    ${body}`,
+    '  }',
+    ''
+  ].join('\n');
+}
+
+// Hand-written part of the client; generated methods are inserted at METHODS
+const CLIENT_TEMPLATE = `export interface ThemeAgentClientOptions {
+  /** Base URL of the server, e.g. http://localhost:8000 */
+  baseUrl: string;
+  /** API key, sent as "Authorization: Bearer <key>" */
+  apiKey?: string;
+  /** Or: SERVICE_USERNAME and SERVICE_PASSWORD, sent as Basic Auth */
+  username?: string;
+  password?: string;
+  /** Headers added to every request */
+  headers?: Record<string, string>;
+  /** fetch implementation, defaults to the global fetch */
+  fetch?: typeof fetch;
+}
+
+interface RequestOptions {
+  query?: Record<string, string | number | boolean | undefined>;
+  body?: unknown;
+}
+
+/**
+ * A response with an error status. message is the message (or error) of the
+ * response body when it has one.
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly body: unknown
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export class ThemeAgentClient {
+  private readonly baseUrl: string;
+  private readonly headers: Record<string, string>;
+  private readonly fetch: typeof fetch;
+
+  constructor(options: ThemeAgentClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\\/+$/, '');
+    this.headers = { ...options.headers };
+    this.fetch = options.fetch || ((input, init) => fetch(input, init));
+
+    if (options.apiKey) {
+      this.headers.Authorization = \`Bearer \${options.apiKey}\`;
+    } else if (options.username) {
+      this.headers.Authorization = \`Basic \${btoa(\`\${options.username}:\${options.password || ''}\`)}\`;
+    }
+  }
+
+METHODS
+  private async send(method: string, path: string, options: RequestOptions): Promise<Response> {
+    const url = new URL(this.baseUrl + path);
+
+    for (const [key, value] of Object.entries(options.query || {})) {
+      if (value !== undefined) {
+        url.searchParams.set(key, String(value));
+      }
+    }
+
+    const headers = { ...this.headers };
+
+    if (options.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    const response = await this.fetch(url.toString(), {
+      method: method.toUpperCase(),
+      headers,
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      let body: unknown = text;
+
+      try {
+        body = JSON.parse(text);
+      } catch {
+        // Not JSON, keep the text
+      }
+
+      const detail = typeof body === 'object' && body !== null ? (body as { message?: string; error?: string }) : {};
+      throw new ApiError(detail.message || detail.error || \`\${response.status} \${response.statusText}\`, response.status, body);
+    }
+
+    return response;
+  }
+
+  private async request<T>(method: string, path: string, options: RequestOptions): Promise<T> {
+    const response = await this.send(method, path, options);
+    return (await response.json()) as T;
+  }
+
+  /**
+   * Events of a Server-Sent Events response, one per "data:" field
+   */
+  private async *stream<T>(method: string, path: string, options: RequestOptions): AsyncGenerator<T> {
+    const response = await this.send(method, path, options);
+
+    if (!response.body) {
+      return;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const events = buffer.split('\\n\\n');
+      buffer = done ? '' : events.pop() || '';
+
+      for (const event of events) {
+        const data = event
+          .split('\\n')
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.substring(5).trimStart())
+          .join('\\n');
+
+        if (data) {
+          yield JSON.parse(data) as T;
+        }
+      }
+
+      if (done) {
+        return;
+      }
+    }
+  }
+}
+`;
+
+/**
+ * Source of the client module
+ * @param document - OpenAPI document
+ */
+export function generateClient(document: OpenApiDocument): string {
+  const declarations = Object.entries(document.components.schemas)
+    .map(([name, schema]) => declaration(name, schema));
+
+  const methods: string[] = [];
+
+  for (const [openApiPath, operations] of Object.entries(document.paths)) {
+    for (const [httpMethod, operation] of Object.entries(operations)) {
+      methods.push(method(document, httpMethod, openApiPath, operation));
+    }
+  }
+
+  return [
+    '/**',
+    ` * ${document.info.title} client`,
+    ' *',
+    ' * Generated by src/scripts/generate-client.ts from the OpenAPI document',
+    ' * (GET /openapi.json). Do not edit: run npm run generate:client instead.',
+    ' */',
+    '',
+    declarations.join('\n'),
+    CLIENT_TEMPLATE.replace('METHODS\n', methods.join('\n'))
+  ].join('\n');
+}
+
+function main() {
+  const document = buildOpenApiDocument();
+
+  const files: Record<string, string> = {
+    'index.ts': generateClient(document as unknown as OpenApiDocument),
+    'openapi.json': `${JSON.stringify(document, null, 2)}\n`
+  };
+
+  const check = process.argv.includes('--check');
+  const stale: string[] = [];
+
+  for (const [name, content] of Object.entries(files)) {
+    const filePath = path.join(CLIENT_DIR, name);
+    const current = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : undefined;
+
+    if (current === content) {
+      continue;
+    }
+
+    if (check) {
+      stale.push(name);
+    } else {
+      fs.writeFileSync(filePath, content);
+      logger.info(`Generated ${path.relative(process.cwd(), filePath)}`);
+    }
+  }
+
+  if (stale.length > 0) {
+    logger.error(`Client is out of date (${stale.join(', ')}): run npm run generate:client`);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,293 @@
+import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
+import { createHash } from 'crypto';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import logger from '../utils/logger';
+import { ThemeInfo } from '../types/theme.types';
+import { assertValidThemeId } from './shopify-cli.runner';
+import {
+  ThemeAsset,
+  ThemeBackend,
+  ThemeBackendPushOptions,
+  ThemeStatus,
+  assertValidAssetKey,
+  isAssetSelected,
+  listLocalAssetKeys,
+  resolveAssetPath,
+} from './theme-backend';
+import type { StoreCredentials } from './store.registry';
+
+const REQUEST_TIMEOUT_MS = 30000;
+const MAX_RATE_LIMIT_RETRIES = 5;
+const TRANSFER_CONCURRENCY = 4;
+
+interface RestTheme {
+  id: number;
+  name: string;
+  role: string;
+  processing?: boolean;
+}
+
+interface RestAsset {
+  key: string;
+  size?: number;
+  checksum?: string | null;
+  updated_at?: string;
+  value?: string;
+  attachment?: string;
+}
+
+export interface AdminApiBackendOptions {
+  apiVersion: string;
+  baseUrl?: string; // Overrides https://{store}/admin/api/{version}, e.g. for a local mock server
+}
+
+/**
+ * AdminApiThemeBackend: Talks to the Shopify Admin API directly
+ * (REST for themes and assets, GraphQL for duplication), so the
+ * server does not need the Shopify CLI for theme file operations.
+ * Requests are authenticated with the store's Admin API access token; the
+ * Theme Access password used by the CLI is not accepted by the Admin API.
+ */
+export class AdminApiThemeBackend implements ThemeBackend {
+  readonly type = 'admin-api' as const;
+  private readonly client: AxiosInstance;
+
+  /**
+   * @param store - Credentials of the store
+   * @param options - API version and optional base URL
+   * @throws Error if the store has no Admin API access token
+   */
+  constructor(store: StoreCredentials, options: AdminApiBackendOptions) {
+    if (!store.adminAccessToken) {
+      throw new Error(`Store ${store.storeId} has no Admin API access token`);
+    }
+
+    const storeHost = store.storeUrl.replace(/^https?:\/\//, '').replace(/\/+$/, '');
+
+    this.client = axios.create({
+      baseURL: options.baseUrl || `https://${storeHost}/admin/api/${options.apiVersion}`,
+      timeout: REQUEST_TIMEOUT_MS,
+      headers: {
+        'X-Shopify-Access-Token': store.adminAccessToken,
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+
+  /**
+   * Send a request, waiting and retrying when Shopify rate-limits it (429)
+   */
+  private async request<T>(requestConfig: AxiosRequestConfig): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.client.request<T>(requestConfig);
+        return response.data;
+      } catch (error: any) {
+        const status = error.response?.status;
+
+        if (status === 429 && attempt < MAX_RATE_LIMIT_RETRIES) {
+          const retryAfter = parseFloat(error.response.headers?.['retry-after']) || 2 ** attempt;
+          await new Promise((resolve) => setTimeout(resolve, retryAfter * 1000));
+          continue;
+        }
+
+        const detail = error.response?.data?.errors
+          ? JSON.stringify(error.response.data.errors)
+          : error.message;
+        throw new Error(
+          `Admin API ${(requestConfig.method || 'GET').toUpperCase()} ${requestConfig.url} failed${status ? ` (${status})` : ''}: ${detail}`
+        );
+      }
+    }
+  }
+
+  async listThemes(): Promise<ThemeInfo[]> {
+    const data = await this.request<{ themes: RestTheme[] }>({ method: 'GET', url: '/themes.json' });
+
+    return data.themes.map((theme) => ({
+      name: theme.name,
+      id: String(theme.id),
+      role: theme.role,
+    }));
+  }
+
+  async getThemeStatus(themeId: string): Promise<ThemeStatus> {
+    assertValidThemeId(themeId);
+
+    const data = await this.request<{ theme: RestTheme }>({ method: 'GET', url: `/themes/${themeId}.json` });
+    const assets = await this.listAssets(themeId);
+
+    return { processing: data.theme.processing === true, assetCount: assets.length };
+  }
+
+  async duplicateTheme(themeId: string, name: string): Promise<ThemeInfo> {
+    assertValidThemeId(themeId);
+
+    const data = await this.request<{
+      data?: {
+        themeDuplicate?: {
+          newTheme?: { id: string; name: string; role: string } | null;
+          userErrors: { field?: string[]; message: string }[];
+        };
+      };
+      errors?: { message: string }[];
+    }>({
+      method: 'POST',
+      url: '/graphql.json',
+      data: {
+        query: `mutation themeDuplicate($id: ID!, $name: String) {
+          themeDuplicate(id: $id, name: $name) {
+            newTheme { id name role }
+            userErrors { field message }
+          }
+        }`,
+        variables: { id: `gid://shopify/OnlineStoreTheme/${themeId}`, name },
+      },
+    });
+
+    const result = data.data?.themeDuplicate;
+    const errors = [...(data.errors || []), ...(result?.userErrors || [])];
+
+    if (!result?.newTheme || errors.length > 0) {
+      throw new Error(`Theme duplication failed: ${errors.map((error) => error.message).join('; ') || 'no theme returned'}`);
+    }
+
+    return {
+      // gid://shopify/OnlineStoreTheme/123 -> 123
+      id: result.newTheme.id.split('/').pop()!,
+      name: result.newTheme.name,
+      role: result.newTheme.role.toLowerCase(),
+    };
+  }
+
+  async listAssets(themeId: string): Promise<ThemeAsset[]> {
+    assertValidThemeId(themeId);
+
+    const data = await this.request<{ assets: RestAsset[] }>({
+      method: 'GET',
+      url: `/themes/${themeId}/assets.json`,
+    });
+
+    return data.assets.map((asset) => ({
+      key: asset.key,
+      size: asset.size,
+      checksum: asset.checksum || undefined,
+      updatedAt: asset.updated_at,
+    }));
+  }
+
+  async getAsset(themeId: string, key: string): Promise<Buffer> {
+    assertValidThemeId(themeId);
+    assertValidAssetKey(key);
+
+    const data = await this.request<{ asset: RestAsset }>({
+      method: 'GET',
+      url: `/themes/${themeId}/assets.json`,
+      params: { 'asset[key]': key },
+    });
+
+    return data.asset.attachment !== undefined
+      ? Buffer.from(data.asset.attachment, 'base64')
+      : Buffer.from(data.asset.value || '', 'utf-8');
+  }
+
+  async putAsset(themeId: string, key: string, content: Buffer | string): Promise<void> {
+    assertValidThemeId(themeId);
+    assertValidAssetKey(key);
+
+    const buffer = typeof content === 'string' ? Buffer.from(content, 'utf-8') : content;
+    const text = buffer.toString('utf-8');
+
+    // Text round-trips through UTF-8 unchanged; anything else is sent base64-encoded
+    const asset = !buffer.includes(0) && Buffer.from(text, 'utf-8').equals(buffer)
+      ? { key, value: text }
+      : { key, attachment: buffer.toString('base64') };
+
+    await this.request({ method: 'PUT', url: `/themes/${themeId}/assets.json`, data: { asset } });
+  }
+
+  async deleteAsset(themeId: string, key: string): Promise<void> {
+    assertValidThemeId(themeId);
+    assertValidAssetKey(key);
+
+    await this.request({
+      method: 'DELETE',
+      url: `/themes/${themeId}/assets.json`,
+      params: { 'asset[key]': key },
+    });
+  }
+
+  async pullTheme(themeId: string, themePath: string): Promise<void> {
+    const assets = await this.listAssets(themeId);
+
+    await this.forEachLimited(assets, async (asset) => {
+      const filePath = resolveAssetPath(themePath, asset.key);
+      const content = await this.getAsset(themeId, asset.key);
+
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, content);
+    });
+
+    logger.info(`Pulled ${assets.length} assets of theme ${themeId} through the Admin API`);
+  }
+
+  async pushTheme(themeId: string, themePath: string, options: ThemeBackendPushOptions = {}): Promise<string> {
+    const localKeys = (await listLocalAssetKeys(themePath)).filter((key) => isAssetSelected(key, options));
+    const localKeySet = new Set(localKeys);
+    const remoteAssets = await this.listAssets(themeId);
+
+    // Shopify reports the MD5 of every file; files with the same checksum are not uploaded again
+    const remoteChecksums = new Map(remoteAssets.map((asset) => [asset.key, asset.checksum]));
+    let uploaded = 0;
+
+    await this.forEachLimited(localKeys, async (key) => {
+      const content = await fs.readFile(resolveAssetPath(themePath, key));
+
+      if (remoteChecksums.get(key) === createHash('md5').update(content).digest('hex')) {
+        return;
+      }
+
+      await this.putAsset(themeId, key, content);
+      uploaded++;
+    });
+
+    // Like `shopify theme push`, remove selected remote files that no longer exist locally
+    const remoteOnly = remoteAssets
+      .map((asset) => asset.key)
+      .filter((key) => !localKeySet.has(key) && isAssetSelected(key, options));
+
+    await this.forEachLimited(remoteOnly, (key) => this.deleteAsset(themeId, key));
+
+    if (options.publish) {
+      await this.request({
+        method: 'PUT',
+        url: `/themes/${themeId}.json`,
+        data: { theme: { id: Number(themeId), role: 'main' } },
+      });
+    }
+
+    logger.info(`Pushed ${uploaded} assets to theme ${themeId} through the Admin API`, {
+      unchanged: localKeys.length - uploaded,
+      deleted: remoteOnly.length,
+    });
+    return themeId;
+  }
+
+  /**
+   * Run a task for every item with limited concurrency
+   */
+  private async forEachLimited<T>(items: T[], task: (item: T) => Promise<void>): Promise<void> {
+    let next = 0;
+
+    const worker = async () => {
+      while (next < items.length) {
+        await task(items[next++]);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(TRANSFER_CONCURRENCY, items.length) }, worker));
+  }
+}
+
+export default AdminApiThemeBackend;
@@ -0,0 +1,14 @@
+import ApiAuthService, { loadApiClients } from './api-auth.service';
+import { config } from '../config/environment';
+
+// Shared ApiAuthService instance: API clients from API_CLIENTS_PATH plus the service credentials.
+const apiAuthService = new ApiAuthService(
+  config.API_CLIENTS_PATH ? loadApiClients(config.API_CLIENTS_PATH) : [],
+  {
+    basicUsername: config.WEBHOOK_USERNAME,
+    basicPassword: config.WEBHOOK_PASSWORD,
+    hmacToleranceSeconds: config.AUTH_HMAC_TOLERANCE_SECONDS,
+  }
+);
+
+export default apiAuthService;
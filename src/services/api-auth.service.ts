@@ -0,0 +1,200 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import logger from '../utils/logger';
+
+export type ApiScope = 'theme' | 'chat' | 'codex-admin';
+
+export const API_SCOPES: ApiScope[] = ['theme', 'chat', 'codex-admin'];
+
+/**
+ * How much access the client's Codex threads get (see CodexThreadPolicy)
+ */
+export type ApiRole = 'admin' | 'user';
+
+/**
+ * A caller of the API and what it may do
+ */
+export interface ApiClient {
+  clientId: string;
+  apiKey?: string;      // Sent as "Authorization: Bearer <key>" or "X-API-Key: <key>"
+  hmacSecret?: string;  // Signs requests (see ApiAuthService)
+  scopes: ApiScope[];
+  role: ApiRole;
+}
+
+/**
+ * Entry of the API clients file (API_CLIENTS_PATH)
+ */
+export interface ApiClientConfigEntry {
+  client_id: string;
+  api_key?: string;
+  hmac_secret?: string;
+  scopes: ApiScope[];
+  role?: ApiRole;       // Default: user
+}
+
+/**
+ * The parts of a request that carry credentials
+ */
+export interface ApiAuthRequest {
+  method: string;
+  url: string;                  // Path and query as sent, e.g. "/chat?x=1"
+  headers: IncomingHttpHeaders;
+  rawBody?: Buffer;
+  queryApiKey?: string;         // api_key query parameter, accepted where headers cannot be set
+}
+
+export interface ApiAuthOptions {
+  basicUsername?: string;       // Service credentials; they grant every scope
+  basicPassword?: string;
+  hmacToleranceSeconds: number; // Maximum clock difference for signed requests
+}
+
+/**
+ * Compare two secrets in constant time
+ */
+function safeEqual(actual: string, expected: string): boolean {
+  const actualBuffer = Buffer.from(actual);
+  const expectedBuffer = Buffer.from(expected);
+  return actualBuffer.length === expectedBuffer.length && timingSafeEqual(actualBuffer, expectedBuffer);
+}
+
+function getHeader(headers: IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Read the API clients file
+ * @param clientsPath - JSON file with an array of clients
+ * @throws Error if the file is invalid
+ */
+export function loadApiClients(clientsPath: string): ApiClient[] {
+  const filePath = path.resolve(clientsPath);
+  const entries: ApiClientConfigEntry[] = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+
+  if (!Array.isArray(entries)) {
+    throw new Error(`${filePath} must contain an array of API clients`);
+  }
+
+  return entries.map((entry) => {
+    if (!entry.client_id || (!entry.api_key && !entry.hmac_secret)) {
+      throw new Error(`Invalid API client in ${filePath}: client_id and api_key or hmac_secret are required`);
+    }
+
+    const unknownScope = (entry.scopes || []).find((scope) => !API_SCOPES.includes(scope));
+    if (unknownScope) {
+      throw new Error(`Invalid scope ${unknownScope} for API client ${entry.client_id} in ${filePath}`);
+    }
+
+    if (entry.role && entry.role !== 'admin' && entry.role !== 'user') {
+      throw new Error(`Invalid role ${entry.role} for API client ${entry.client_id} in ${filePath}`);
+    }
+
+    return {
+      clientId: entry.client_id,
+      apiKey: entry.api_key,
+      hmacSecret: entry.hmac_secret,
+      scopes: entry.scopes || [],
+      role: entry.role || 'user',
+    };
+  });
+}
+
+/**
+ * ApiAuthService: Identifies the client behind an inbound request.
+ * Accepted credentials:
+ *   - API key: "Authorization: Bearer <key>" or "X-API-Key: <key>"
+ *   - HMAC: X-Client-Id, X-Timestamp (Unix seconds) and
+ *     X-Signature: sha256=<hex HMAC of "<timestamp>.<METHOD>.<path and query>.<raw body>">
+ *   - Basic Auth with the service credentials (SERVICE_USERNAME/SERVICE_PASSWORD),
+ *     which grant every scope and the admin role
+ */
+export class ApiAuthService {
+  private readonly clients: ApiClient[];
+  private readonly options: ApiAuthOptions;
+
+  /**
+   * @param clients - Configured API clients
+   * @param options - Service credentials and HMAC clock tolerance
+   */
+  constructor(clients: ApiClient[], options: ApiAuthOptions) {
+    this.clients = clients;
+    this.options = options;
+
+    logger.info(`ApiAuthService initialized with ${clients.length} API clients`);
+  }
+
+  /**
+   * Identify the client of a request
+   * @param request - Method, URL, headers and raw body
+   * @returns The client, or null if the request carries no valid credentials
+   */
+  authenticate(request: ApiAuthRequest): ApiClient | null {
+    const authorization = getHeader(request.headers, 'authorization') || '';
+
+    if (authorization.startsWith('Basic ')) {
+      return this.authenticateBasic(authorization.substring(6));
+    }
+
+    const apiKey = authorization.startsWith('Bearer ')
+      ? authorization.substring(7)
+      : getHeader(request.headers, 'x-api-key') || request.queryApiKey;
+
+    if (apiKey) {
+      return this.clients.find((client) => client.apiKey && safeEqual(apiKey, client.apiKey)) || null;
+    }
+
+    if (getHeader(request.headers, 'x-signature')) {
+      return this.authenticateHmac(request);
+    }
+
+    return null;
+  }
+
+  private authenticateBasic(encoded: string): ApiClient | null {
+    const { basicUsername, basicPassword } = this.options;
+
+    if (!basicUsername || !basicPassword) {
+      return null;
+    }
+
+    const credentials = Buffer.from(encoded, 'base64').toString('utf-8');
+    const separator = credentials.indexOf(':');
+    const username = credentials.substring(0, separator);
+    const password = credentials.substring(separator + 1);
+
+    if (separator < 0 || !safeEqual(username, basicUsername) || !safeEqual(password, basicPassword)) {
+      return null;
+    }
+
+    return { clientId: basicUsername, scopes: [...API_SCOPES], role: 'admin' };
+  }
+
+  private authenticateHmac(request: ApiAuthRequest): ApiClient | null {
+    const clientId = getHeader(request.headers, 'x-client-id');
+    const timestamp = getHeader(request.headers, 'x-timestamp') || '';
+    const signature = getHeader(request.headers, 'x-signature') || '';
+    const client = this.clients.find((entry) => entry.clientId === clientId && entry.hmacSecret);
+
+    if (!client || !/^\d+$/.test(timestamp)) {
+      return null;
+    }
+
+    // Old signatures must not be replayable indefinitely
+    if (Math.abs(Date.now() / 1000 - parseInt(timestamp, 10)) > this.options.hmacToleranceSeconds) {
+      return null;
+    }
+
+    const body = request.rawBody ? request.rawBody.toString('utf-8') : '';
+    const expected = 'sha256=' + createHmac('sha256', client.hmacSecret!)
+      .update(`${timestamp}.${request.method.toUpperCase()}.${request.url}.${body}`)
+      .digest('hex');
+
+    return safeEqual(signature, expected) ? client : null;
+  }
+}
+
+export default ApiAuthService;
@@ -0,0 +1,120 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import type { CodexThreadOptions } from './codex.service';
+import { APPROVAL_MODES, SANDBOX_MODES } from '../config/environment';
+import { CodexApprovalMode, CodexSandboxMode } from '../types/theme.types';
+
+/**
+ * Who starts a thread: the server itself for theme environments,
+ * or an API client with an admin or user role
+ */
+export type CodexCallerRole = 'system' | 'admin' | 'user';
+
+/**
+ * Most a role may ask for
+ */
+export interface CodexRoleLimits {
+  maxSandboxMode: CodexSandboxMode;
+  minApprovalMode: CodexApprovalMode; // Least supervision allowed; also used when a thread sets none
+}
+
+export interface CodexThreadPolicyOptions {
+  rootDirectory: string;                                          // Threads must work in a subfolder
+  roles: Record<Exclude<CodexCallerRole, 'system'>, CodexRoleLimits>;
+}
+
+/**
+ * Thrown when thread options are outside the policy
+ */
+export class ThreadPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ThreadPolicyError';
+  }
+}
+
+/**
+ * CodexThreadPolicy: Checks thread options before a thread is started or
+ * resumed. The working directory must be a subfolder of the theme download
+ * directory (symlinks are resolved), and sandbox and approval modes are
+ * capped per caller role. yoloMode counts as danger-full-access with no
+ * approvals. System threads (theme environments) are only jailed.
+ */
+export class CodexThreadPolicy {
+  private readonly rootDirectory: string;
+  private readonly roles: CodexThreadPolicyOptions['roles'];
+
+  /**
+   * @param options - Root directory and limits per role
+   */
+  constructor(options: CodexThreadPolicyOptions) {
+    this.rootDirectory = path.resolve(options.rootDirectory);
+    this.roles = options.roles;
+  }
+
+  /**
+   * Check thread options
+   * @param options - Requested options, with the caller's role (default: user)
+   * @returns Options to start the thread with: the resolved working directory,
+   *          and the role's minimum approval mode if none was requested
+   * @throws ThreadPolicyError if the options are not allowed
+   */
+  async enforce(options: CodexThreadOptions): Promise<CodexThreadOptions> {
+    const role = options.role || 'user';
+    const workingDirectory = await this.resolveWorkingDirectory(options.workingDirectory);
+
+    if (role === 'system') {
+      return { ...options, workingDirectory };
+    }
+
+    const limits = this.roles[role];
+    const sandboxMode = options.yoloMode ? 'danger-full-access' : options.sandboxMode;
+    const approvalMode = options.yoloMode ? 'never' : options.approvalMode;
+
+    if (sandboxMode && SANDBOX_MODES.indexOf(sandboxMode) > SANDBOX_MODES.indexOf(limits.maxSandboxMode)) {
+      throw new ThreadPolicyError(
+        `${options.yoloMode ? 'yoloMode' : `sandboxMode ${sandboxMode}`} is not allowed for role ${role} (at most ${limits.maxSandboxMode})`
+      );
+    }
+
+    if (approvalMode && APPROVAL_MODES.indexOf(approvalMode) > APPROVAL_MODES.indexOf(limits.minApprovalMode)) {
+      throw new ThreadPolicyError(
+        `${options.yoloMode ? 'yoloMode' : `approvalMode ${approvalMode}`} is not allowed for role ${role} (at least ${limits.minApprovalMode})`
+      );
+    }
+
+    return { ...options, workingDirectory, approvalMode: approvalMode || limits.minApprovalMode };
+  }
+
+  /**
+   * Resolve a working directory and make sure it is inside the root directory
+   */
+  private async resolveWorkingDirectory(workingDirectory?: string): Promise<string> {
+    if (!workingDirectory) {
+      throw new ThreadPolicyError(`workingDirectory is required and must be a folder in ${this.rootDirectory}`);
+    }
+
+    // Compare real paths so a symlink inside the root cannot point out of it
+    const root = await fs.realpath(this.rootDirectory).catch(() => this.rootDirectory);
+    let resolved: string;
+
+    try {
+      resolved = await fs.realpath(path.resolve(workingDirectory));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new ThreadPolicyError(`workingDirectory does not exist: ${workingDirectory}`);
+      }
+      throw error;
+    }
+
+    const relative = path.relative(root, resolved);
+
+    if (!relative || relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+      throw new ThreadPolicyError(`workingDirectory must be a folder in ${this.rootDirectory}: ${workingDirectory}`);
+    }
+
+    return resolved;
+  }
+}
+
+export default CodexThreadPolicy;
@@ -1,6 +1,27 @@
 import CodexService from './codex.service';
+import { EnvironmentStore } from './environment.store';
+import CodexThreadPolicy from './codex-thread.policy';
+import { config } from '../config/environment';
+
+// Shared store so environments and threads survive server restarts.
+export const environmentStore = new EnvironmentStore(config.ENVIRONMENT_STORE_PATH);
+
+// Threads may only work inside the theme download directory, with modes capped per caller role.
+const threadPolicy = new CodexThreadPolicy({
+  rootDirectory: config.THEME_DOWNLOAD_PATH,
+  roles: {
+    admin: {
+      maxSandboxMode: config.CODEX_ADMIN_MAX_SANDBOX_MODE,
+      minApprovalMode: config.CODEX_ADMIN_MIN_APPROVAL_MODE,
+    },
+    user: {
+      maxSandboxMode: config.CODEX_USER_MAX_SANDBOX_MODE,
+      minApprovalMode: config.CODEX_USER_MIN_APPROVAL_MODE,
+    },
+  },
+});
 
 // Shared CodexService instance so environments are consistent across routes/services.
-const codexService = new CodexService();
+const codexService = new CodexService(undefined, undefined, environmentStore, threadPolicy);
 
 export default codexService;
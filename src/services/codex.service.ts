@@ -1,6 +1,15 @@
 import path from 'path';
+import * as fs from 'fs/promises';
+import { randomUUID } from 'crypto';
 import { pathToFileURL } from 'url';
+import type { ThreadOptions } from '@openai/codex-sdk';
 import logger from '../utils/logger';
+import type { EnvironmentStore } from './environment.store';
+import type { CodexCallerRole, CodexThreadPolicy } from './codex-thread.policy';
+import type { CodexApprovalMode, CodexSandboxMode } from '../types/theme.types';
+
+// Streaming event numbers reserved per write of the environment store
+const EVENT_NUMBER_BLOCK_SIZE = 1000;
 
 /**
  * Configuration options for creating a Codex thread
@@ -9,9 +18,10 @@ export interface CodexThreadOptions {
   workingDirectory?: string;
   skipGitRepoCheck?: boolean;
   model?: string;
-  approvalMode?: 'never' | 'on-request' | 'on-failure' | 'untrusted';
-  sandboxMode?: 'read-only' | 'workspace-write' | 'danger-full-access';
+  approvalMode?: CodexApprovalMode; // Sent to the SDK as approvalPolicy
+  sandboxMode?: CodexSandboxMode;
   yoloMode?: boolean; // Convenience flag for danger-full-access + never approval
+  role?: CodexCallerRole; // Limits applied by the thread policy (default: user)
 }
 
 /**
@@ -20,6 +30,18 @@ export interface CodexThreadOptions {
 export interface CodexRunOptions {
   outputSchema?: object;
   model?: string;
+  signal?: AbortSignal; // Aborting cancels the turn
+  onUsage?: (usage: any) => void; // Called when Codex reports the turn's usage, even if the turn then fails or is cancelled
+}
+
+/**
+ * Thrown when a turn is cancelled, either while queued or in flight
+ */
+export class TurnCancelledError extends Error {
+  constructor(message: string = 'Turn cancelled') {
+    super(message);
+    this.name = 'TurnCancelledError';
+  }
 }
 
 /**
@@ -30,6 +52,7 @@ export type CodexEventType =
   | 'turn.started'
   | 'turn.completed'
   | 'turn.failed'
+  | 'turn.cancelled'  // Emitted by CodexService when a turn is aborted
   | 'item.started'
   | 'item.updated'
   | 'item.completed'
@@ -48,6 +71,36 @@ export interface CodexEvent {
   [key: string]: any;
 }
 
+/**
+ * Options for running a turn through an environment's turn queue
+ */
+export interface EnvironmentTurnOptions {
+  turnId?: string;        // Caller-supplied ID (e.g. job ID), generated if omitted
+  prompt?: string;        // Recorded for queue inspection
+  onStart?: () => void;   // Called when the turn leaves the queue and starts running
+}
+
+/**
+ * A running or queued turn on an environment
+ */
+export interface EnvironmentTurnInfo {
+  turnId: string;
+  prompt?: string;
+  position: number;       // 0 = running, 1 = next in line, ...
+  enqueuedAt: Date;
+  startedAt?: Date;
+}
+
+interface EnvironmentTurn {
+  turnId: string;
+  prompt?: string;
+  enqueuedAt: Date;
+  startedAt?: Date;
+  controller: AbortController;
+  start: () => void;
+  cancel: (error: Error) => void;
+}
+
 /**
  * CodexService: Wrapper for OpenAI Codex SDK
  * Provides methods to create threads, run prompts, and stream responses
@@ -57,18 +110,28 @@ export class CodexService {
   private codexInstance?: any;
   private defaultWorkingDirectory: string;
   private environmentThreads: Map<string, any>; // Store threads by working directory
+  private store?: EnvironmentStore;
+  private policy?: CodexThreadPolicy;
+  private turnQueues: Map<string, EnvironmentTurn[]>; // Per-environment FIFO, head is the running turn
 
   /**
    * Initialize the Codex service
    * @param apiKey - OpenAI API key (optional, will use env var if not provided)
    * @param defaultWorkingDirectory - Default working directory for threads
+   * @param store - Persistent environment store (optional, environments are in-memory only without it)
+   * @param policy - Working directory jail and mode limits (optional, options are used as given without it)
    */
   constructor(
     apiKey?: string,
-    defaultWorkingDirectory: string = process.cwd()
+    defaultWorkingDirectory: string = process.cwd(),
+    store?: EnvironmentStore,
+    policy?: CodexThreadPolicy
   ) {
     this.defaultWorkingDirectory = defaultWorkingDirectory;
     this.environmentThreads = new Map();
+    this.store = store;
+    this.policy = policy;
+    this.turnQueues = new Map();
 
     logger.info('CodexService initialized');
   }
@@ -101,8 +164,71 @@ export class CodexService {
    * Create a new Codex thread
    * @param options - Thread configuration options
    * @returns Codex thread instance
+   * @throws ThreadPolicyError if the options violate the thread policy
    */
   async startThread(options: CodexThreadOptions = {}) {
+    const threadOptions = this.buildThreadOptions(await this.applyPolicy(options));
+
+    logger.info('Starting Codex thread', { ...threadOptions, yoloMode: options.yoloMode || false });
+
+    const codex = await this.getCodex();
+    const thread = codex.startThread(threadOptions);
+
+    logger.info('Codex thread started successfully');
+
+    return thread;
+  }
+
+  /**
+   * Resume an existing Codex thread
+   * @param threadId - ID of the thread to resume
+   * @param options - Thread configuration options (optional, SDK defaults are used if omitted;
+   *                  required when a thread policy is set)
+   * @returns Codex thread instance
+   * @throws ThreadPolicyError if the options violate the thread policy
+   */
+  async resumeThread(threadId: string, options?: CodexThreadOptions) {
+    logger.info('Resuming Codex thread', { threadId });
+
+    const checkedOptions = this.policy ? await this.applyPolicy(options || {}) : options;
+    const codex = await this.getCodex();
+    const thread = checkedOptions
+      ? codex.resumeThread(threadId, this.buildThreadOptions(checkedOptions))
+      : codex.resumeThread(threadId);
+
+    logger.info('Codex thread resumed successfully', { threadId });
+
+    return thread;
+  }
+
+  /**
+   * Check thread options against the thread policy, if any
+   * @param options - Thread configuration options
+   * @returns Options to start the thread with
+   */
+  private async applyPolicy(options: CodexThreadOptions): Promise<CodexThreadOptions> {
+    if (!this.policy) {
+      return options;
+    }
+
+    try {
+      return await this.policy.enforce(options);
+    } catch (error: any) {
+      logger.warn('Codex thread rejected by policy', {
+        role: options.role || 'user',
+        workingDirectory: options.workingDirectory,
+        error: error.message,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Translate CodexThreadOptions into SDK thread options
+   * @param options - Thread configuration options
+   * @returns Options object passed to the SDK
+   */
+  private buildThreadOptions(options: CodexThreadOptions): ThreadOptions {
     const {
       workingDirectory = this.defaultWorkingDirectory,
       skipGitRepoCheck = false,
@@ -116,16 +242,7 @@ export class CodexService {
     const finalApprovalMode = yoloMode ? 'never' : approvalMode;
     const finalSandboxMode = yoloMode ? 'danger-full-access' : sandboxMode;
 
-    logger.info('Starting Codex thread', {
-      workingDirectory,
-      skipGitRepoCheck,
-      model,
-      approvalMode: finalApprovalMode,
-      sandboxMode: finalSandboxMode,
-      yoloMode,
-    });
-
-    const threadOptions: any = {
+    const threadOptions: ThreadOptions = {
       workingDirectory,
       skipGitRepoCheck,
       model,
@@ -133,35 +250,14 @@ export class CodexService {
 
     // Add optional parameters if provided
     if (finalApprovalMode) {
-      threadOptions.approvalMode = finalApprovalMode;
+      threadOptions.approvalPolicy = finalApprovalMode;
     }
 
     if (finalSandboxMode) {
       threadOptions.sandboxMode = finalSandboxMode;
     }
 
-    const codex = await this.getCodex();
-    const thread = codex.startThread(threadOptions);
-
-    logger.info('Codex thread started successfully');
-
-    return thread;
-  }
-
-  /**
-   * Resume an existing Codex thread
-   * @param threadId - ID of the thread to resume
-   * @returns Codex thread instance
-   */
-  async resumeThread(threadId: string) {
-    logger.info('Resuming Codex thread', { threadId });
-
-    const codex = await this.getCodex();
-    const thread = codex.resumeThread(threadId);
-
-    logger.info('Codex thread resumed successfully', { threadId });
-
-    return thread;
+    return threadOptions;
   }
 
   /**
@@ -184,21 +280,57 @@ export class CodexService {
       runOptions.model = options.model;
     }
 
+    if (options.signal) {
+      runOptions.signal = options.signal;
+    }
+
     try {
-      const turn = await thread.run(prompt, runOptions);
+      const turn = await this.collectTurn(thread, prompt, runOptions, options.onUsage);
 
       logger.info('Codex prompt completed', {
         finalResponse: turn.finalResponse?.substring(0, 100),
         itemsCount: turn.items?.length,
+        usage: turn.usage,
       });
 
       return turn;
     } catch (error) {
+      if (options.signal?.aborted) {
+        logger.info('Codex prompt cancelled', { prompt });
+        throw new TurnCancelledError();
+      }
       logger.error('Error running Codex prompt', { error, prompt });
       throw error;
     }
   }
 
+  /**
+   * Run a turn through the event stream and collect its result, like the
+   * SDK's thread.run, but passing the usage on as soon as Codex reports it
+   */
+  private async collectTurn(thread: any, prompt: string, runOptions: any, onUsage?: (usage: any) => void) {
+    const { events } = await thread.runStreamed(prompt, runOptions);
+    const items: any[] = [];
+    let finalResponse = '';
+    let usage: any = null;
+
+    for await (const event of events) {
+      if (event.type === 'item.completed') {
+        if (event.item.type === 'agent_message') {
+          finalResponse = event.item.text;
+        }
+        items.push(event.item);
+      } else if (event.type === 'turn.completed') {
+        usage = event.usage;
+        onUsage?.(usage);
+      } else if (event.type === 'turn.failed') {
+        throw new Error(event.error.message);
+      }
+    }
+
+    return { items, finalResponse, usage };
+  }
+
   /**
    * Run a prompt with streaming responses
    * @param thread - Codex thread instance
@@ -219,6 +351,10 @@ export class CodexService {
       runOptions.model = options.model;
     }
 
+    if (options.signal) {
+      runOptions.signal = options.signal;
+    }
+
     try {
       const { events } = await thread.runStreamed(prompt, runOptions);
 
@@ -233,6 +369,8 @@ export class CodexService {
 
   /**
    * Run a prompt with streaming and handle events
+   * If options.signal is aborted, a final turn.cancelled event is passed to onEvent
+   * and TurnCancelledError is thrown.
    * @param thread - Codex thread instance
    * @param prompt - Prompt to run
    * @param onEvent - Callback for each event
@@ -245,35 +383,48 @@ export class CodexService {
     onEvent: (event: CodexEvent) => void | Promise<void>,
     options: CodexRunOptions = {}
   ) {
-    const events = await this.runStream(thread, prompt, options);
-
     let finalTurn: any = null;
 
-    for await (const event of events) {
-      // Call the event handler
-      await onEvent(event as CodexEvent);
-
-      // Capture the final turn
-      if (event.type === 'turn.completed') {
-        finalTurn = event;
+    try {
+      const events = await this.runStream(thread, prompt, options);
+
+      for await (const event of events) {
+        // Call the event handler
+        await onEvent(event as CodexEvent);
+
+        // Capture the final turn
+        if (event.type === 'turn.completed') {
+          finalTurn = event;
+          options.onUsage?.(event.usage);
+        }
+
+        // Log important events
+        switch (event.type) {
+          case 'item.completed':
+            logger.debug('Item completed', { item: event.item });
+            break;
+          case 'turn.completed':
+            logger.info('Turn completed', { usage: event.usage });
+            break;
+          case 'response.delta':
+            // Don't log deltas as they can be very frequent
+            break;
+          default:
+            logger.debug('Codex event', { type: event.type });
+        }
       }
-
-      // Log important events
-      switch (event.type) {
-        case 'item.completed':
-          logger.debug('Item completed', { item: event.item });
-          break;
-        case 'turn.completed':
-          logger.info('Turn completed', { usage: event.usage });
-          break;
-        case 'response.delta':
-          // Don't log deltas as they can be very frequent
-          break;
-        default:
-          logger.debug('Codex event', { type: event.type });
+    } catch (error) {
+      if (!options.signal?.aborted) {
+        throw error;
       }
     }
 
+    if (options.signal?.aborted) {
+      logger.info('Codex stream cancelled', { prompt });
+      await onEvent({ type: 'turn.cancelled' });
+      throw new TurnCancelledError();
+    }
+
     return finalTurn;
   }
 
@@ -317,9 +468,16 @@ export class CodexService {
    *
    * @param workingDirectory - The directory where Codex will operate (theme directory)
    * @param model - Model to use (optional, will use default from config or env)
+   * @param context - Store and session the environment belongs to (optional)
    * @returns Object containing thread, threadId, and working directory info
    */
-  async setupEnvironment(workingDirectory: string, model?: string) {
+  async setupEnvironment(
+    workingDirectory: string,
+    model?: string,
+    context: { storeId?: string; sessionId?: string } = {}
+  ) {
+    const envModel = model || 'gpt-5.1-codex-max'; // Default to gpt-5.1-codex-max
+
     logger.info('Setting up Codex environment', {
       workingDirectory,
       model: model || 'default',
@@ -327,12 +485,7 @@ export class CodexService {
 
     // Create thread with YOLO mode enabled
     // User will set API key on their own, so no API key validation here
-    const thread = await this.startThread({
-      workingDirectory,
-      skipGitRepoCheck: false, // Enforce Git repo check as requested
-      model: model || 'gpt-5.1-codex-max', // Default to gpt-5.1-codex-max
-      yoloMode: true, // Enable YOLO mode (full access, no approvals)
-    });
+    const thread = await this.startThread(this.getEnvironmentThreadOptions(workingDirectory, envModel));
 
     // Generate a unique environment ID based on working directory
     const envId = workingDirectory.replace(/[^a-zA-Z0-9]/g, '_');
@@ -340,15 +493,21 @@ export class CodexService {
     // Store the thread for later access
     this.environmentThreads.set(envId, {
       thread,
+      threadId: null,
       workingDirectory,
-      model: model || 'gpt-5.1-codex-max',
+      model: envModel,
+      storeId: context.storeId,
+      sessionId: context.sessionId,
       createdAt: new Date(),
+      lastEventNumber: 0,
+      eventNumberReserved: 0,
     });
+    await this.persistEnvironment(envId);
 
     logger.info('Codex environment setup complete', {
       envId,
       workingDirectory,
-      model: model || 'gpt-5.1-codex-max',
+      model: envModel,
       yoloMode: true,
     });
 
@@ -356,11 +515,149 @@ export class CodexService {
       thread,
       envId,
       workingDirectory,
-      model: model || 'gpt-5.1-codex-max',
+      model: envModel,
       yoloMode: true,
     };
   }
 
+  /**
+   * Thread options used for every theme environment
+   * @param workingDirectory - Theme directory
+   * @param model - Model to use
+   * @returns Thread configuration options
+   */
+  private getEnvironmentThreadOptions(workingDirectory: string, model: string): CodexThreadOptions {
+    return {
+      workingDirectory,
+      skipGitRepoCheck: false, // Enforce Git repo check as requested
+      model,
+      yoloMode: true, // Enable YOLO mode (full access, no approvals)
+      role: 'system',
+    };
+  }
+
+  /**
+   * Write an environment to the persistent store (no-op without a store)
+   * @param envId - Environment ID
+   */
+  private async persistEnvironment(envId: string): Promise<void> {
+    const environment = this.environmentThreads.get(envId);
+
+    if (!this.store || !environment) {
+      return;
+    }
+
+    await this.store.saveEnvironment({
+      envId,
+      workingDirectory: environment.workingDirectory,
+      model: environment.model,
+      threadId: environment.threadId,
+      storeId: environment.storeId,
+      sessionId: environment.sessionId,
+      createdAt: environment.createdAt.toISOString(),
+      eventNumberReserved: environment.eventNumberReserved,
+    });
+  }
+
+  /**
+   * Take the next streaming event number of an environment.
+   * Numbers keep increasing across turns and restarts: they are reserved
+   * in blocks, and only the end of the current block is persisted, so a
+   * restart may skip numbers but never reuses one.
+   * @param envId - Environment ID
+   * @returns Event number, starting at 1
+   */
+  nextEventNumber(envId: string): number {
+    const environment = this.environmentThreads.get(envId);
+
+    if (!environment) {
+      throw new Error(`Environment not found: ${envId}`);
+    }
+
+    environment.lastEventNumber++;
+
+    if (environment.lastEventNumber > environment.eventNumberReserved) {
+      environment.eventNumberReserved = environment.lastEventNumber + EVENT_NUMBER_BLOCK_SIZE - 1;
+      this.persistEnvironment(envId).catch((error) => {
+        logger.error('Error persisting event number reservation', { envId, error: error.message });
+      });
+    }
+
+    return environment.lastEventNumber;
+  }
+
+  /**
+   * Record the Codex thread ID of an environment once the SDK has assigned one,
+   * so the thread can be resumed after a restart. Call after each turn.
+   * @param envId - Environment ID
+   */
+  async recordThreadId(envId: string): Promise<void> {
+    const environment = this.environmentThreads.get(envId);
+    const threadId = environment?.thread?.id;
+
+    if (!environment || !threadId || threadId === environment.threadId) {
+      return;
+    }
+
+    environment.threadId = threadId;
+    await this.persistEnvironment(envId);
+
+    logger.info('Recorded Codex thread for environment', { envId, threadId });
+  }
+
+  /**
+   * Rehydrate environments from the persistent store.
+   * Environments with a known thread ID are resumed, the rest get a fresh thread.
+   * Environments whose working directory no longer exists are skipped.
+   * @returns Number of environments restored
+   */
+  async restoreEnvironments(): Promise<number> {
+    if (!this.store) {
+      return 0;
+    }
+
+    const records = await this.store.listEnvironments();
+    let restored = 0;
+
+    for (const record of records) {
+      try {
+        await fs.access(record.workingDirectory);
+      } catch {
+        logger.warn('Skipping environment, working directory missing', {
+          envId: record.envId,
+          workingDirectory: record.workingDirectory,
+        });
+        continue;
+      }
+
+      try {
+        const threadOptions = this.getEnvironmentThreadOptions(record.workingDirectory, record.model);
+        const thread = record.threadId
+          ? await this.resumeThread(record.threadId, threadOptions)
+          : await this.startThread(threadOptions);
+
+        this.environmentThreads.set(record.envId, {
+          thread,
+          threadId: record.threadId,
+          workingDirectory: record.workingDirectory,
+          model: record.model,
+          storeId: record.storeId,
+          sessionId: record.sessionId,
+          createdAt: new Date(record.createdAt),
+          // Continue after the last reserved block
+          lastEventNumber: record.eventNumberReserved || 0,
+          eventNumberReserved: record.eventNumberReserved || 0,
+        });
+        restored++;
+      } catch (error: any) {
+        logger.error('Error restoring environment', { envId: record.envId, error: error.message });
+      }
+    }
+
+    logger.info(`Restored ${restored}/${records.length} Codex environments`);
+    return restored;
+  }
+
   /**
    * Get an existing environment thread by ID
    * @param envId - Environment ID
@@ -381,6 +678,151 @@ export class CodexService {
     }));
   }
 
+  /**
+   * Run a task as the next turn of an environment.
+   * Turns on the same environment run one at a time, in the order they were queued,
+   * so concurrent prompts never share the thread or theme directory.
+   *
+   * @param envId - Environment ID
+   * @param task - Turn to run once every earlier turn has finished; receives the signal cancelTurn aborts
+   * @param options - Turn ID, prompt and start callback
+   * @returns Result of the task
+   */
+  async runExclusive<T>(
+    envId: string,
+    task: (signal: AbortSignal) => Promise<T>,
+    options: EnvironmentTurnOptions = {}
+  ): Promise<T> {
+    const turnId = options.turnId || randomUUID();
+    const controller = new AbortController();
+
+    let queue = this.turnQueues.get(envId);
+    if (!queue) {
+      queue = [];
+      this.turnQueues.set(envId, queue);
+    }
+    const turnQueue = queue;
+
+    await new Promise<void>((resolve, reject) => {
+      turnQueue.push({
+        turnId,
+        prompt: options.prompt,
+        enqueuedAt: new Date(),
+        controller,
+        start: resolve,
+        cancel: reject,
+      });
+
+      if (turnQueue.length === 1) {
+        this.startNextTurn(envId);
+      } else {
+        logger.info('Turn queued', { envId, turnId, position: turnQueue.length - 1 });
+      }
+    });
+
+    try {
+      // Inside the try so a throwing callback still releases the queue
+      options.onStart?.();
+      return await task(controller.signal);
+    } finally {
+      turnQueue.shift();
+      this.startNextTurn(envId);
+    }
+  }
+
+  private startNextTurn(envId: string): void {
+    const queue = this.turnQueues.get(envId);
+
+    if (!queue || queue.length === 0) {
+      this.turnQueues.delete(envId);
+      return;
+    }
+
+    const next = queue[0];
+    next.startedAt = new Date();
+    logger.info('Turn started', { envId, turnId: next.turnId });
+    next.start();
+  }
+
+  /**
+   * Whether an environment has a turn running
+   * @param envId - Environment ID
+   */
+  isEnvironmentBusy(envId: string): boolean {
+    return (this.turnQueues.get(envId)?.length || 0) > 0;
+  }
+
+  /**
+   * Number of turns running or waiting on an environment
+   * @param envId - Environment ID
+   */
+  getQueueDepth(envId: string): number {
+    return this.turnQueues.get(envId)?.length || 0;
+  }
+
+  /**
+   * Running and queued turns of an environment, in execution order
+   * @param envId - Environment ID
+   * @returns Array of turns, the running one first
+   */
+  getTurnQueue(envId: string): EnvironmentTurnInfo[] {
+    const queue = this.turnQueues.get(envId) || [];
+
+    return queue.map((turn, position) => ({
+      turnId: turn.turnId,
+      prompt: turn.prompt,
+      position,
+      enqueuedAt: turn.enqueuedAt,
+      startedAt: turn.startedAt,
+    }));
+  }
+
+  /**
+   * Cancel a turn that is still waiting in an environment's queue.
+   * The running turn cannot be cancelled this way.
+   *
+   * @param envId - Environment ID
+   * @param turnId - Turn ID
+   * @returns True if the turn was removed, false if it is not queued
+   */
+  cancelQueuedTurn(envId: string, turnId: string): boolean {
+    const queue = this.turnQueues.get(envId);
+    const index = queue ? queue.findIndex((turn) => turn.turnId === turnId) : -1;
+
+    if (!queue || index < 1) {
+      return false;
+    }
+
+    const [turn] = queue.splice(index, 1);
+    turn.cancel(new TurnCancelledError(`Turn ${turnId} was cancelled before it started`));
+
+    logger.info('Cancelled queued turn', { envId, turnId });
+    return true;
+  }
+
+  /**
+   * Cancel a turn of an environment. Without a turn ID the running turn is aborted.
+   * @param envId - Environment ID
+   * @param turnId - Turn ID (optional)
+   * @returns 'running' or 'queued' depending on what was cancelled, null if no such turn
+   */
+  cancelTurn(envId: string, turnId?: string): 'running' | 'queued' | null {
+    const queue = this.turnQueues.get(envId);
+    const running = queue?.[0];
+
+    if (!running) {
+      return null;
+    }
+
+    if (!turnId || running.turnId === turnId) {
+      running.controller.abort();
+      logger.info('Cancelling running turn', { envId, turnId: running.turnId });
+      return 'running';
+    }
+
+    return this.cancelQueuedTurn(envId, turnId) ? 'queued' : null;
+  }
+
   /**
    * Remove an environment thread
    * @param envId - Environment ID
@@ -391,6 +833,11 @@ export class CodexService {
     if (deleted) {
       logger.info('Removed Codex environment', { envId });
     }
+
+    this.store?.removeEnvironment(envId).catch((error) => {
+      logger.error('Error removing persisted environment', { envId, error: error.message });
+    });
+
     return deleted;
   }
 }
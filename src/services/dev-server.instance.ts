@@ -0,0 +1,13 @@
+import DevServerManager from './dev-server.manager';
+import { config } from '../config/environment';
+
+// Shared DevServerManager instance: one theme dev server per environment.
+const devServerManager = new DevServerManager(
+  config.DEV_SERVER_PORT_START,
+  config.DEV_SERVER_PORT_END,
+  config.DEV_SERVER_REGISTRY_PATH,
+  config.DEV_SERVER_LOG_LINES,
+  config.DEV_SERVER_MAX_RESTARTS
+);
+
+export default devServerManager;
@@ -0,0 +1,470 @@
+import * as net from 'net';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { ChildProcess } from 'child_process';
+import logger from '../utils/logger';
+
+const RESTART_BASE_DELAY_MS = 2000;
+const RESTART_MAX_DELAY_MS = 60000;
+const STABLE_RUN_MS = 60000; // A server that ran this long resets the restart backoff
+const STOP_TIMEOUT_MS = 5000;
+
+// Colour and cursor escape sequences the CLI writes to its pseudo-TTY
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[A-Za-z]|\x1b\][^\x07]*\x07/g;
+
+/**
+ * Starts a dev server on the given port
+ */
+export type DevServerLauncher = (port: number) => Promise<ChildProcess>;
+
+export type DevServerStatus = 'running' | 'restarting' | 'stopped' | 'crashed';
+
+export type DevServerStream = 'stdout' | 'stderr';
+
+/**
+ * A theme dev server tracked by the manager
+ */
+export interface DevServerInfo {
+  envId: string;
+  themeId: string;
+  port: number;
+  status: DevServerStatus;
+  pid?: number;
+  startedAt: Date;
+  uptimeSeconds?: number; // Only while running
+  restarts: number; // Automatic restarts since the last manual start
+  lastExitCode?: number | null;
+  lastExitSignal?: string | null;
+  lastExitAt?: Date;
+  nextRestartAt?: Date;
+}
+
+/**
+ * A line of dev server output
+ */
+export interface DevServerLogLine {
+  stream: DevServerStream;
+  line: string;
+  at: Date;
+}
+
+interface DevServer {
+  envId: string;
+  themeId: string;
+  port: number;
+  status: DevServerStatus;
+  process: ChildProcess | null;
+  launch: DevServerLauncher;
+  startedAt: Date;
+  restarts: number;
+  lastExitCode?: number | null;
+  lastExitSignal?: string | null;
+  lastExitAt?: Date;
+  restartTimer?: NodeJS.Timeout;
+  nextRestartAt?: Date;
+  logs: Record<DevServerStream, DevServerLogLine[]>;
+  partial: Record<DevServerStream, string>;
+}
+
+/**
+ * Entry of the registry file read by the preview proxy
+ */
+export interface DevServerRegistryEntry {
+  themeId: string;
+  port: number;
+  pid?: number;
+  startedAt: string;
+}
+
+/**
+ * DevServerManager: Runs one `shopify theme dev` per environment,
+ * each on its own port, and publishes the envId -> port mapping to a
+ * registry file so the preview proxy can route to the right server.
+ * Captures the output of every server and restarts crashed servers
+ * with exponential backoff.
+ */
+export class DevServerManager {
+  private servers: Map<string, DevServer>;
+  // Ports handed out by allocatePort whose server is not in the map yet
+  private reservedPorts: Set<number> = new Set();
+  private readonly portStart: number;
+  private readonly portEnd: number;
+  private readonly registryPath: string;
+  private readonly maxLogLines: number;
+  private readonly maxRestarts: number;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  /**
+   * @param portStart - First port that may be allocated
+   * @param portEnd - Last port that may be allocated
+   * @param registryPath - JSON file the envId -> port mapping is written to
+   * @param maxLogLines - Lines kept per output stream and server
+   * @param maxRestarts - Automatic restarts in a row before a crashed server is given up
+   */
+  constructor(
+    portStart: number,
+    portEnd: number,
+    registryPath: string,
+    maxLogLines: number = 500,
+    maxRestarts: number = 5
+  ) {
+    this.servers = new Map();
+    this.portStart = portStart;
+    this.portEnd = portEnd;
+    this.registryPath = path.resolve(registryPath);
+    this.maxLogLines = maxLogLines;
+    this.maxRestarts = maxRestarts;
+
+    // Servers from a previous run are not tracked anymore
+    this.persist();
+  }
+
+  /**
+   * Start a dev server for an environment on a free port.
+   * A server already running for the environment is stopped first.
+   * @param envId - Environment ID
+   * @param themeId - Theme served by the dev server
+   * @param launch - Starts the dev server process on the allocated port
+   * @returns Dev server info
+   */
+  async start(envId: string, themeId: string, launch: DevServerLauncher): Promise<DevServerInfo> {
+    if (this.servers.has(envId)) {
+      await this.stop(envId);
+    }
+
+    const port = await this.allocatePort();
+
+    const server: DevServer = {
+      envId,
+      themeId,
+      port,
+      status: 'stopped',
+      process: null,
+      launch,
+      startedAt: new Date(),
+      restarts: 0,
+      logs: { stdout: [], stderr: [] },
+      partial: { stdout: '', stderr: '' },
+    };
+
+    this.servers.set(envId, server);
+    this.reservedPorts.delete(port);
+
+    try {
+      await this.launch(server);
+    } catch (error) {
+      this.servers.delete(envId);
+      throw error;
+    }
+
+    return this.toInfo(server);
+  }
+
+  /**
+   * Restart the dev server of an environment on its port.
+   * Also brings back a stopped or crashed server and resets its backoff.
+   * @param envId - Environment ID
+   * @returns Dev server info or undefined if the environment has no dev server
+   */
+  async restart(envId: string): Promise<DevServerInfo | undefined> {
+    const server = this.servers.get(envId);
+
+    if (!server) {
+      return undefined;
+    }
+
+    await this.terminate(server);
+    server.restarts = 0;
+    await this.launch(server);
+
+    logger.info(`Dev server for environment ${envId} restarted on port ${server.port}`);
+    return this.toInfo(server);
+  }
+
+  /**
+   * Stop the dev server of an environment.
+   * The server stays known so its status and logs can still be read.
+   * @param envId - Environment ID
+   * @returns True if a server was stopped, false if the environment has no dev server
+   */
+  async stop(envId: string): Promise<boolean> {
+    const server = this.servers.get(envId);
+
+    if (!server) {
+      return false;
+    }
+
+    await this.terminate(server);
+
+    logger.info(`Dev server for environment ${envId} on port ${server.port} stopped`);
+    return true;
+  }
+
+  /**
+   * Get the dev server of an environment
+   * @param envId - Environment ID
+   * @returns Dev server info or undefined if the environment has no dev server
+   */
+  get(envId: string): DevServerInfo | undefined {
+    const server = this.servers.get(envId);
+    return server ? this.toInfo(server) : undefined;
+  }
+
+  /**
+   * List all dev servers
+   * @returns Array of dev server info
+   */
+  list(): DevServerInfo[] {
+    return Array.from(this.servers.values()).map((server) => this.toInfo(server));
+  }
+
+  /**
+   * Get the captured output of a dev server, oldest line first
+   * @param envId - Environment ID
+   * @param options - Stream to read (both if omitted) and maximum number of lines
+   * @returns Log lines or undefined if the environment has no dev server
+   */
+  getLogs(
+    envId: string,
+    options: { stream?: DevServerStream; limit?: number } = {}
+  ): DevServerLogLine[] | undefined {
+    const server = this.servers.get(envId);
+
+    if (!server) {
+      return undefined;
+    }
+
+    const lines = options.stream
+      ? server.logs[options.stream]
+      : [...server.logs.stdout, ...server.logs.stderr].sort((a, b) => a.at.getTime() - b.at.getTime());
+
+    return options.limit ? lines.slice(-options.limit) : [...lines];
+  }
+
+  private async launch(server: DevServer): Promise<void> {
+    const child = await server.launch(server.port);
+
+    server.process = child;
+    server.status = 'running';
+    server.startedAt = new Date();
+    server.nextRestartAt = undefined;
+
+    child.stdout?.on('data', (chunk: Buffer) => this.capture(server, 'stdout', chunk));
+    child.stderr?.on('data', (chunk: Buffer) => this.capture(server, 'stderr', chunk));
+    child.on('exit', (code, signal) => this.handleExit(server, child, code, signal));
+
+    await this.persist();
+
+    logger.info(`Dev server for environment ${server.envId} started on port ${server.port}`, { pid: child.pid });
+  }
+
+  private handleExit(server: DevServer, child: ChildProcess, code: number | null, signal: NodeJS.Signals | null): void {
+    // Ignore processes that were replaced by a restart or a new start
+    if (server.process !== child || this.servers.get(server.envId) !== server) {
+      return;
+    }
+
+    this.flush(server);
+
+    server.process = null;
+    server.lastExitCode = code;
+    server.lastExitSignal = signal;
+    server.lastExitAt = new Date();
+    this.persist();
+
+    if (server.status !== 'running') {
+      // Stopped on purpose
+      return;
+    }
+
+    logger.warn(`Dev server for environment ${server.envId} exited unexpectedly`, { code, signal });
+
+    if (server.lastExitAt.getTime() - server.startedAt.getTime() >= STABLE_RUN_MS) {
+      server.restarts = 0;
+    }
+
+    if (server.restarts >= this.maxRestarts) {
+      server.status = 'crashed';
+      logger.error(`Dev server for environment ${server.envId} crashed ${server.restarts + 1} times in a row, giving up`);
+      return;
+    }
+
+    this.scheduleRestart(server);
+  }
+
+  private scheduleRestart(server: DevServer): void {
+    const delay = Math.min(RESTART_BASE_DELAY_MS * 2 ** server.restarts, RESTART_MAX_DELAY_MS);
+
+    server.status = 'restarting';
+    server.restarts++;
+    server.nextRestartAt = new Date(Date.now() + delay);
+
+    logger.info(`Restarting dev server for environment ${server.envId} in ${delay}ms (attempt ${server.restarts})`);
+
+    server.restartTimer = setTimeout(async () => {
+      server.restartTimer = undefined;
+
+      if (server.status !== 'restarting' || this.servers.get(server.envId) !== server) {
+        return;
+      }
+
+      try {
+        await this.launch(server);
+      } catch (error: any) {
+        logger.error(`Error restarting dev server for environment ${server.envId}: ${error.message}`);
+
+        if (server.restarts >= this.maxRestarts) {
+          server.status = 'crashed';
+          server.nextRestartAt = undefined;
+        } else {
+          this.scheduleRestart(server);
+        }
+      }
+    }, delay);
+  }
+
+  private async terminate(server: DevServer): Promise<void> {
+    if (server.restartTimer) {
+      clearTimeout(server.restartTimer);
+      server.restartTimer = undefined;
+    }
+
+    server.status = 'stopped';
+    server.nextRestartAt = undefined;
+
+    const child = server.process;
+    if (!child || child.exitCode !== null || child.signalCode !== null) {
+      return;
+    }
+
+    const exited = new Promise<void>((resolve) => child.once('exit', () => resolve()));
+    child.kill('SIGTERM');
+
+    // Give the CLI a moment to shut down before forcing it
+    const timeout = new Promise<'timeout'>((resolve) => setTimeout(() => resolve('timeout'), STOP_TIMEOUT_MS));
+    if (await Promise.race([exited, timeout]) === 'timeout') {
+      child.kill('SIGKILL');
+      await exited;
+    }
+  }
+
+  private capture(server: DevServer, stream: DevServerStream, chunk: Buffer): void {
+    const text = server.partial[stream] + chunk.toString('utf-8').replace(ANSI_PATTERN, '');
+    const lines = text.split(/\r?\n|\r/);
+
+    // The last element is an unfinished line (or empty after a trailing newline)
+    server.partial[stream] = lines.pop() || '';
+
+    for (const line of lines) {
+      if (line.trim()) {
+        this.append(server, stream, line);
+      }
+    }
+  }
+
+  private flush(server: DevServer): void {
+    for (const stream of ['stdout', 'stderr'] as DevServerStream[]) {
+      if (server.partial[stream].trim()) {
+        this.append(server, stream, server.partial[stream]);
+      }
+      server.partial[stream] = '';
+    }
+  }
+
+  private append(server: DevServer, stream: DevServerStream, line: string): void {
+    const buffer = server.logs[stream];
+    buffer.push({ stream, line, at: new Date() });
+
+    if (buffer.length > this.maxLogLines) {
+      buffer.splice(0, buffer.length - this.maxLogLines);
+    }
+  }
+
+  private toInfo(server: DevServer): DevServerInfo {
+    const running = server.status === 'running' && server.process !== null;
+
+    return {
+      envId: server.envId,
+      themeId: server.themeId,
+      port: server.port,
+      status: server.status,
+      pid: running ? server.process!.pid : undefined,
+      startedAt: server.startedAt,
+      uptimeSeconds: running ? Math.floor((Date.now() - server.startedAt.getTime()) / 1000) : undefined,
+      restarts: server.restarts,
+      lastExitCode: server.lastExitCode,
+      lastExitSignal: server.lastExitSignal,
+      lastExitAt: server.lastExitAt,
+      nextRestartAt: server.nextRestartAt,
+    };
+  }
+
+  /**
+   * Find a free port and reserve it, so concurrent starts never get the same port.
+   * The caller releases the reservation once the port is recorded on its server.
+   */
+  private async allocatePort(): Promise<number> {
+    for (let port = this.portStart; port <= this.portEnd; port++) {
+      const used = this.reservedPorts.has(port)
+        || Array.from(this.servers.values()).some((server) => server.port === port);
+
+      if (used) {
+        continue;
+      }
+
+      // Reserved before the probe: another start may run while it is awaited
+      this.reservedPorts.add(port);
+
+      if (await this.isPortFree(port)) {
+        return port;
+      }
+
+      this.reservedPorts.delete(port);
+    }
+
+    throw new Error(`No free dev server port between ${this.portStart} and ${this.portEnd}`);
+  }
+
+  private isPortFree(port: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      const probe = net.createServer();
+      probe.once('error', () => resolve(false));
+      probe.once('listening', () => probe.close(() => resolve(true)));
+      probe.listen(port, '127.0.0.1');
+    });
+  }
+
+  private persist(): Promise<void> {
+    this.writeChain = this.writeChain.then(async () => {
+      const registry: Record<string, DevServerRegistryEntry> = {};
+
+      // Only running servers can be proxied to
+      for (const server of this.servers.values()) {
+        if (!server.process) {
+          continue;
+        }
+
+        registry[server.envId] = {
+          themeId: server.themeId,
+          port: server.port,
+          pid: server.process.pid,
+          startedAt: server.startedAt.toISOString(),
+        };
+      }
+
+      const tmpPath = `${this.registryPath}.tmp`;
+
+      try {
+        await fs.mkdir(path.dirname(this.registryPath), { recursive: true });
+        await fs.writeFile(tmpPath, JSON.stringify(registry, null, 2), 'utf-8');
+        await fs.rename(tmpPath, this.registryPath);
+      } catch (error: any) {
+        logger.error(`Error writing dev server registry ${this.registryPath}: ${error.message}`);
+      }
+    });
+
+    return this.writeChain;
+  }
+}
+
+export default DevServerManager;
@@ -0,0 +1,139 @@
+import { EventEmitter } from 'events';
+import { ChatStreamingWebhookPayload } from '../types/theme.types';
+
+/**
+ * Called for every event published to an environment
+ */
+export type EnvironmentEventListener = (event: ChatStreamingWebhookPayload) => void;
+
+/**
+ * Result of replaying buffered events after a reconnect
+ */
+export interface EnvironmentEventReplay {
+  events: ChatStreamingWebhookPayload[];
+  truncated: boolean;           // Events after the requested ID were already dropped from the buffer
+  oldestEventNumber?: number;   // Oldest event still buffered
+}
+
+/**
+ * Parse a Last-Event-ID header or last_event_id query value
+ * @param value - Raw value (optional)
+ * @returns Event number, undefined when absent, null when invalid
+ */
+export function parseLastEventId(value: unknown): number | undefined | null {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  return typeof value === 'string' && /^\d{1,15}$/.test(value) ? parseInt(value, 10) : null;
+}
+
+/**
+ * EnvironmentEventLog: Fans out the streaming events of environment chats
+ * to live subscribers (SSE and WebSocket clients) and keeps the most
+ * recent events of each environment in memory, so a client that
+ * reconnects with the last event number it saw can catch up.
+ */
+export class EnvironmentEventLog {
+  private readonly maxEvents: number;
+  private readonly emitter: EventEmitter;
+  private buffers: Map<string, ChatStreamingWebhookPayload[]>;
+
+  /**
+   * @param maxEvents - Events buffered per environment for replay
+   */
+  constructor(maxEvents: number = 1000) {
+    this.maxEvents = maxEvents;
+    this.emitter = new EventEmitter();
+    // One listener per connected client
+    this.emitter.setMaxListeners(0);
+    this.buffers = new Map();
+  }
+
+  /**
+   * Record an event and pass it to the environment's subscribers.
+   * Events without an event number are delivered live but not buffered.
+   * @param envId - Environment ID
+   * @param event - Event payload, as sent to the streaming webhook
+   */
+  publish(envId: string, event: ChatStreamingWebhookPayload): void {
+    if (event.event_number !== undefined) {
+      const buffer = this.buffers.get(envId) || [];
+      buffer.push(event);
+
+      if (buffer.length > this.maxEvents) {
+        buffer.splice(0, buffer.length - this.maxEvents);
+      }
+      this.buffers.set(envId, buffer);
+    }
+
+    this.emitter.emit(envId, event);
+  }
+
+  /**
+   * Listen for new events of an environment
+   * @param envId - Environment ID
+   * @param listener - Called for each event
+   * @returns Function that removes the listener
+   */
+  subscribe(envId: string, listener: EnvironmentEventListener): () => void {
+    this.emitter.on(envId, listener);
+    return () => {
+      this.emitter.off(envId, listener);
+    };
+  }
+
+  /**
+   * Buffered events after a given event number, oldest first
+   * @param envId - Environment ID
+   * @param lastEventNumber - Last event the client received
+   */
+  replay(envId: string, lastEventNumber: number): EnvironmentEventReplay {
+    const buffer = this.buffers.get(envId) || [];
+    const oldestEventNumber = buffer[0]?.event_number;
+
+    return {
+      events: buffer.filter((event) => event.event_number! > lastEventNumber),
+      truncated: oldestEventNumber !== undefined && oldestEventNumber > lastEventNumber + 1,
+      oldestEventNumber,
+    };
+  }
+
+  /**
+   * Replay the events a reconnecting client missed, then listen for new ones.
+   * Both happen synchronously, so no event is missed or delivered twice.
+   * When the buffer no longer reaches back far enough, a replay.truncated
+   * event is delivered first.
+   * @param envId - Environment ID
+   * @param lastEventNumber - Last event the client received (omit for live events only)
+   * @param listener - Called for each replayed and new event
+   * @returns Function that removes the listener
+   */
+  follow(envId: string, lastEventNumber: number | undefined, listener: EnvironmentEventListener): () => void {
+    if (lastEventNumber !== undefined) {
+      const { events, truncated, oldestEventNumber } = this.replay(envId, lastEventNumber);
+
+      if (truncated) {
+        listener({
+          success: true,
+          env_id: envId,
+          type: 'replay.truncated',
+          timestamp: new Date().toISOString(),
+          first_event_number: oldestEventNumber,
+        });
+      }
+      events.forEach(listener);
+    }
+
+    return this.subscribe(envId, listener);
+  }
+
+  /**
+   * Number of connected subscribers of an environment
+   */
+  getSubscriberCount(envId: string): number {
+    return this.emitter.listenerCount(envId);
+  }
+}
+
+export default EnvironmentEventLog;
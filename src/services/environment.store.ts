@@ -0,0 +1,160 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import logger from '../utils/logger';
+import type { CodexThreadOptions } from './codex.service';
+
+/**
+ * Persisted Codex environment (one per downloaded theme)
+ */
+export interface EnvironmentRecord {
+  envId: string;
+  workingDirectory: string;
+  model: string;
+  threadId: string | null; // Codex thread ID, known once the first turn has started
+  storeId?: string;        // Store the theme was downloaded from
+  sessionId?: string;      // Session that receives webhooks for this environment
+  createdAt: string;
+  eventNumberReserved?: number; // Streaming event numbers up to here may have been used
+}
+
+/**
+ * Persisted raw thread created through the /api/codex routes
+ */
+export interface ThreadRecord {
+  threadId: string;             // Route-level ID handed to API callers
+  codexThreadId: string | null; // Codex thread ID, known once the first turn has started
+  options?: CodexThreadOptions; // Omitted for threads resumed by ID only
+  createdAt: string;
+}
+
+interface StoreData {
+  environments: Record<string, EnvironmentRecord>;
+  threads: Record<string, ThreadRecord>;
+}
+
+/**
+ * EnvironmentStore: JSON file-backed registry of Codex environments and threads
+ * so they can be rehydrated after a server restart
+ */
+export class EnvironmentStore {
+  private readonly filePath: string;
+  private dataPromise?: Promise<StoreData>;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  /**
+   * @param filePath - Path of the JSON file backing the store
+   */
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  private async load(): Promise<StoreData> {
+    let raw: string;
+
+    try {
+      raw = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return { environments: {}, threads: {} };
+      }
+      // Starting empty would overwrite the stored environments with the next write
+      throw new Error(`Error reading environment store ${this.filePath}: ${error.message}`);
+    }
+
+    try {
+      const parsed = JSON.parse(raw);
+
+      return {
+        environments: parsed.environments || {},
+        threads: parsed.threads || {},
+      };
+    } catch (error: any) {
+      const backupPath = `${this.filePath}.corrupt-${Date.now()}`;
+      await fs.rename(this.filePath, backupPath);
+
+      logger.error(`Environment store ${this.filePath} is unreadable (${error.message}); moved it to ${backupPath} and started empty`);
+      return { environments: {}, threads: {} };
+    }
+  }
+
+  private getData(): Promise<StoreData> {
+    if (!this.dataPromise) {
+      this.dataPromise = this.load().catch((error) => {
+        // Try again on the next call
+        this.dataPromise = undefined;
+        throw error;
+      });
+    }
+    return this.dataPromise;
+  }
+
+  /**
+   * Write the current data to disk. Writes are serialized and go through a
+   * temporary file so a crash never leaves a half-written store behind.
+   */
+  private persist(): Promise<void> {
+    this.writeChain = this.writeChain.then(async () => {
+      const tmpPath = `${this.filePath}.tmp`;
+
+      try {
+        const data = await this.getData();
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(tmpPath, JSON.stringify(data, null, 2), 'utf-8');
+        await fs.rename(tmpPath, this.filePath);
+      } catch (error: any) {
+        logger.error(`Error writing environment store ${this.filePath}: ${error.message}`);
+      }
+    });
+
+    return this.writeChain;
+  }
+
+  async listEnvironments(): Promise<EnvironmentRecord[]> {
+    const data = await this.getData();
+    return Object.values(data.environments);
+  }
+
+  async saveEnvironment(record: EnvironmentRecord): Promise<void> {
+    const data = await this.getData();
+    data.environments[record.envId] = record;
+    await this.persist();
+  }
+
+  async removeEnvironment(envId: string): Promise<boolean> {
+    const data = await this.getData();
+    if (!data.environments[envId]) {
+      return false;
+    }
+    delete data.environments[envId];
+    await this.persist();
+    return true;
+  }
+
+  async getThread(threadId: string): Promise<ThreadRecord | undefined> {
+    const data = await this.getData();
+    return data.threads[threadId];
+  }
+
+  async listThreads(): Promise<ThreadRecord[]> {
+    const data = await this.getData();
+    return Object.values(data.threads);
+  }
+
+  async saveThread(record: ThreadRecord): Promise<void> {
+    const data = await this.getData();
+    data.threads[record.threadId] = record;
+    await this.persist();
+  }
+
+  async removeThread(threadId: string): Promise<boolean> {
+    const data = await this.getData();
+    if (!data.threads[threadId]) {
+      return false;
+    }
+    delete data.threads[threadId];
+    await this.persist();
+    return true;
+  }
+}
+
+export default EnvironmentStore;
@@ -0,0 +1,7 @@
+import EnvironmentEventLog from './environment-event.log';
+import { config } from '../config/environment';
+
+// Shared EnvironmentEventLog instance: live and buffered streaming events per environment.
+const environmentEventLog = new EnvironmentEventLog(config.ENV_EVENT_LOG_SIZE);
+
+export default environmentEventLog;
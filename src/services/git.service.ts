@@ -0,0 +1,276 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import logger from '../utils/logger';
+
+const execFileAsync = promisify(execFile);
+
+// Files written into theme directories by this server that must never be committed
+const EXCLUDED_FILES = ['run-theme-dev.sh'];
+
+const COMMIT_AUTHOR_NAME = 'Shopify Theme Agent';
+const COMMIT_AUTHOR_EMAIL = 'theme-agent@localhost';
+
+/**
+ * A commit in a theme's history
+ */
+export interface ThemeSnapshot {
+  commit: string;
+  message: string;
+  createdAt: string;
+}
+
+/**
+ * Per-file change between two snapshots
+ */
+export interface FileChange {
+  path: string;
+  status: 'added' | 'modified' | 'deleted';
+  added: number;       // Lines added (0 for binary files)
+  removed: number;     // Lines removed (0 for binary files)
+  binary?: boolean;
+}
+
+/**
+ * GitService: Snapshots theme directories in a local git repository
+ * so every agent turn can be inspected and rolled back
+ */
+export class GitService {
+  private async git(cwd: string, args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync(
+      'git',
+      [
+        '-c', `user.name=${COMMIT_AUTHOR_NAME}`,
+        '-c', `user.email=${COMMIT_AUTHOR_EMAIL}`,
+        '-c', 'core.quotePath=false', // Report non-ASCII file names verbatim
+        ...args,
+      ],
+      { cwd, maxBuffer: 10 * 1024 * 1024 }
+    );
+    return stdout;
+  }
+
+  /**
+   * Whether a directory already holds a git repository
+   * @param themePath - Theme directory
+   */
+  async isRepository(themePath: string): Promise<boolean> {
+    try {
+      await fs.access(path.join(themePath, '.git'));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Initialize a git repository in a theme directory and commit its current
+   * contents as the baseline. Safe to call on an existing repository.
+   * @param themePath - Theme directory
+   * @param message - Baseline commit message
+   * @returns Baseline commit hash, or null if there was nothing to commit
+   */
+  async initRepository(themePath: string, message: string): Promise<string | null> {
+    if (!(await this.isRepository(themePath))) {
+      logger.info(`Initializing git repository in ${themePath}`);
+      await this.git(themePath, ['init', '--quiet']);
+      await fs.appendFile(path.join(themePath, '.git', 'info', 'exclude'), `${EXCLUDED_FILES.join('\n')}\n`);
+    }
+
+    return this.commitAll(themePath, message);
+  }
+
+  /**
+   * Commit every change in a theme directory
+   * @param themePath - Theme directory
+   * @param message - Commit message
+   * @returns Commit hash, or null if nothing changed
+   */
+  async commitAll(themePath: string, message: string): Promise<string | null> {
+    await this.git(themePath, ['add', '--all']);
+
+    const status = await this.git(themePath, ['status', '--porcelain']);
+    if (!status.trim()) {
+      logger.info(`No changes to commit in ${themePath}`);
+      return null;
+    }
+
+    await this.git(themePath, ['commit', '--quiet', '--message', message]);
+    const commit = (await this.git(themePath, ['rev-parse', 'HEAD'])).trim();
+
+    logger.info(`Committed ${commit.substring(0, 7)} in ${themePath}`);
+    return commit;
+  }
+
+  /**
+   * Commit the changes made by an agent turn, initializing the repository first
+   * if the theme was pulled before snapshots existed.
+   * Failures are logged rather than thrown so a snapshot problem never fails the turn.
+   * @param themePath - Theme directory
+   * @param prompt - Prompt of the turn, used as commit message
+   * @returns Commit hash, or null if the turn changed nothing or the commit failed
+   */
+  async commitTurn(themePath: string, prompt: string): Promise<string | null> {
+    try {
+      if (!(await this.isRepository(themePath))) {
+        await this.initRepository(themePath, 'Baseline');
+      }
+
+      return await this.commitAll(themePath, prompt.trim() || 'Agent turn');
+    } catch (error: any) {
+      logger.error(`Error committing turn in ${themePath}: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * List the snapshots of a theme, newest first
+   * @param themePath - Theme directory
+   * @param limit - Maximum number of snapshots
+   * @returns Array of snapshots (empty if the theme has no repository)
+   */
+  async getHistory(themePath: string, limit: number = 50): Promise<ThemeSnapshot[]> {
+    if (!(await this.isRepository(themePath))) {
+      return [];
+    }
+
+    let output: string;
+    try {
+      output = await this.git(themePath, ['log', `--max-count=${limit}`, '--format=%H%x1f%aI%x1f%B%x1e']);
+    } catch {
+      // Repository without commits yet
+      return [];
+    }
+
+    return output
+      .split('\x1e')
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry) => {
+        const [commit, createdAt, message] = entry.split('\x1f');
+        return { commit, createdAt, message: message.trim() };
+      });
+  }
+
+  /**
+   * Resolve a commit-ish to a full commit hash
+   * @param themePath - Theme directory
+   * @param ref - Commit hash, abbreviated hash or ref such as HEAD~1
+   * @returns Full commit hash, or null if it does not exist
+   */
+  async resolveCommit(themePath: string, ref: string): Promise<string | null> {
+    if (ref.startsWith('-')) {
+      return null;
+    }
+
+    try {
+      return (await this.git(themePath, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`])).trim();
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Hash of the baseline snapshot (the first commit)
+   * @param themePath - Theme directory
+   * @returns Commit hash, or null if the theme has no snapshots
+   */
+  async getBaselineCommit(themePath: string): Promise<string | null> {
+    try {
+      const roots = (await this.git(themePath, ['rev-list', '--max-parents=0', 'HEAD'])).trim().split('\n');
+      return roots[roots.length - 1] || null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Unified diff between two snapshots
+   * @param themePath - Theme directory
+   * @param from - Base commit
+   * @param to - Target commit (optional, defaults to the working tree)
+   * @returns Unified diff text
+   */
+  async getDiff(themePath: string, from: string, to?: string): Promise<string> {
+    return this.git(themePath, ['diff', '--no-color', '--no-renames', from, ...(to ? [to] : []), '--']);
+  }
+
+  /**
+   * Per-file summary of the changes between two snapshots
+   * @param themePath - Theme directory
+   * @param from - Base commit
+   * @param to - Target commit (optional, defaults to the working tree)
+   * @returns Array of changed files
+   */
+  async getDiffSummary(themePath: string, from: string, to?: string): Promise<FileChange[]> {
+    const range = [from, ...(to ? [to] : []), '--'];
+    const [numstat, nameStatus] = await Promise.all([
+      this.git(themePath, ['diff', '--no-renames', '--numstat', ...range]),
+      this.git(themePath, ['diff', '--no-renames', '--name-status', ...range]),
+    ]);
+
+    const statuses = new Map<string, FileChange['status']>();
+    for (const line of nameStatus.split('\n').filter(Boolean)) {
+      const [code, filePath] = line.split('\t');
+      statuses.set(filePath, code === 'A' ? 'added' : code === 'D' ? 'deleted' : 'modified');
+    }
+
+    return numstat
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => {
+        const [added, removed, filePath] = line.split('\t');
+        const binary = added === '-' && removed === '-';
+
+        return {
+          path: filePath,
+          status: statuses.get(filePath) || 'modified',
+          added: binary ? 0 : parseInt(added, 10),
+          removed: binary ? 0 : parseInt(removed, 10),
+          ...(binary ? { binary } : {}),
+        };
+      });
+  }
+
+  /**
+   * Per-file summary of the changes made by a single snapshot
+   * @param themePath - Theme directory
+   * @param commit - Snapshot commit
+   * @returns Array of changed files (empty if the commit has no parent or the summary fails)
+   */
+  async getCommitSummary(themePath: string, commit: string): Promise<FileChange[]> {
+    try {
+      return await this.getDiffSummary(themePath, `${commit}~1`, commit);
+    } catch (error: any) {
+      logger.error(`Error summarizing commit ${commit} in ${themePath}: ${error.message}`);
+      return [];
+    }
+  }
+
+  /**
+   * Restore a theme directory to the state of an earlier snapshot.
+   * The rollback is recorded as a new commit, so it can itself be undone.
+   * @param themePath - Theme directory
+   * @param ref - Snapshot to restore
+   * @returns Hash of the rollback commit, or null if the theme already matched the snapshot
+   */
+  async rollback(themePath: string, ref: string): Promise<string | null> {
+    const commit = await this.resolveCommit(themePath, ref);
+
+    if (!commit) {
+      throw new Error(`Snapshot not found: ${ref}`);
+    }
+
+    // Snapshot any uncommitted edits first so they are not lost
+    await this.commitAll(themePath, 'Uncommitted changes before rollback');
+
+    // Reset index and working tree to the snapshot, removing files added since
+    await this.git(themePath, ['read-tree', '-u', '--reset', commit]);
+
+    const subject = (await this.git(themePath, ['log', '-1', '--format=%s', commit])).trim();
+    return this.commitAll(themePath, `Rollback to ${commit.substring(0, 7)}: ${subject}`);
+  }
+}
+
+export default GitService;
@@ -0,0 +1,6 @@
+import JobService from './job.service';
+
+// Shared JobService instance so every route reports into the same job registry.
+const jobService = new JobService();
+
+export default jobService;
@@ -0,0 +1,163 @@
+import { randomUUID } from 'crypto';
+import logger from '../utils/logger';
+import { JobInfo, JobStatus, JobType } from '../types/theme.types';
+
+/**
+ * Filters for listing jobs
+ */
+export interface JobListFilter {
+  type?: JobType;
+  status?: JobStatus;
+  envId?: string;
+}
+
+/**
+ * JobService: Tracks background tasks so callers can query their outcome
+ * even if the webhook notification is lost
+ */
+export class JobService {
+  private jobs: Map<string, JobInfo>;
+  private readonly maxJobs: number;
+
+  /**
+   * @param maxJobs - Number of jobs kept in memory before the oldest finished ones are evicted
+   */
+  constructor(maxJobs: number = 500) {
+    this.jobs = new Map();
+    this.maxJobs = maxJobs;
+  }
+
+  /**
+   * Register a new job in the queued state
+   * @param type - Job type
+   * @param refs - Environment/theme the job relates to
+   * @returns The created job
+   */
+  createJob(type: JobType, refs: { envId?: string; themeId?: string } = {}): JobInfo {
+    const job: JobInfo = {
+      id: randomUUID(),
+      type,
+      status: 'queued',
+      env_id: refs.envId,
+      theme_id: refs.themeId,
+      created_at: new Date().toISOString(),
+    };
+
+    this.jobs.set(job.id, job);
+    this.evictFinishedJobs();
+
+    logger.info('Job queued', { jobId: job.id, type });
+    return job;
+  }
+
+  /**
+   * Create a job and run the task in the background.
+   * The returned job is tracked through running to succeeded/failed;
+   * the task's rejection is recorded on the job, never rethrown.
+   * @param type - Job type
+   * @param refs - Environment/theme the job relates to
+   * @param task - Background task, its resolved value becomes the job result
+   * @param options - Set deferStart when the task calls markRunning itself (e.g. after waiting in a queue)
+   * @returns The created job
+   */
+  enqueue(
+    type: JobType,
+    refs: { envId?: string; themeId?: string },
+    task: (job: JobInfo) => Promise<Record<string, any> | void>,
+    options: { deferStart?: boolean } = {}
+  ): JobInfo {
+    const job = this.createJob(type, refs);
+
+    this.run(job, task, options.deferStart).catch((error) => {
+      logger.error('Unhandled error in background job', { jobId: job.id, error: error.message });
+    });
+
+    return job;
+  }
+
+  private async run(
+    job: JobInfo,
+    task: (job: JobInfo) => Promise<Record<string, any> | void>,
+    deferStart: boolean = false
+  ): Promise<void> {
+    if (!deferStart) {
+      this.markRunning(job.id);
+    }
+
+    try {
+      const result = await task(job);
+      this.update(job.id, {
+        status: 'succeeded',
+        finished_at: new Date().toISOString(),
+        result: result || undefined,
+      });
+      logger.info('Job succeeded', { jobId: job.id, type: job.type });
+    } catch (error: any) {
+      this.update(job.id, {
+        status: 'failed',
+        finished_at: new Date().toISOString(),
+        error: error.message,
+      });
+      logger.error('Job failed', { jobId: job.id, type: job.type, error: error.message });
+    }
+  }
+
+  /**
+   * Move a job to the running state (no-op once it is already running or finished)
+   * @param jobId - Job ID
+   */
+  markRunning(jobId: string): void {
+    const job = this.jobs.get(jobId);
+
+    if (job && job.status === 'queued') {
+      this.update(jobId, { status: 'running', started_at: new Date().toISOString() });
+    }
+  }
+
+  private update(jobId: string, changes: Partial<JobInfo>): void {
+    const job = this.jobs.get(jobId);
+    if (job) {
+      Object.assign(job, changes);
+    }
+  }
+
+  /**
+   * Get a job by ID
+   * @param jobId - Job ID
+   * @returns Job or undefined if not found
+   */
+  getJob(jobId: string): JobInfo | undefined {
+    return this.jobs.get(jobId);
+  }
+
+  /**
+   * List jobs, newest first
+   * @param filter - Optional type/status/environment filter
+   * @returns Array of jobs
+   */
+  listJobs(filter: JobListFilter = {}): JobInfo[] {
+    return Array.from(this.jobs.values())
+      .filter((job) => !filter.type || job.type === filter.type)
+      .filter((job) => !filter.status || job.status === filter.status)
+      .filter((job) => !filter.envId || job.env_id === filter.envId)
+      .reverse();
+  }
+
+  private evictFinishedJobs(): void {
+    if (this.jobs.size <= this.maxJobs) {
+      return;
+    }
+
+    // Map preserves insertion order, so the first finished jobs are the oldest
+    for (const [jobId, job] of this.jobs) {
+      if (this.jobs.size <= this.maxJobs) {
+        break;
+      }
+      if (job.status === 'succeeded' || job.status === 'failed') {
+        this.jobs.delete(jobId);
+      }
+    }
+  }
+}
+
+export default JobService;
@@ -0,0 +1,377 @@
+import { ChildProcess, spawn } from 'child_process';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import logger from '../utils/logger';
+import { ThemeInfo } from '../types/theme.types';
+import {
+  ThemeAsset,
+  ThemeBackend,
+  ThemeBackendPushOptions,
+  ThemeStatus,
+  assertValidAssetKey,
+  listLocalAssetKeys,
+  resolveAssetPath,
+} from './theme-backend';
+import type { StoreCredentials } from './store.registry';
+
+const CLI_BINARY = 'shopify';
+const DEFAULT_TIMEOUT_MS = 120000;
+const TRANSFER_TIMEOUT_MS = 300000; // pull/push of a whole theme
+const MAX_OUTPUT_BYTES = 10 * 1024 * 1024;
+const KILL_GRACE_MS = 5000;
+
+const THEME_ID_PATTERN = /^\d{1,20}$/;
+
+/**
+ * Thrown when the Shopify CLI fails, times out or prints unexpected output
+ */
+export class ShopifyCliError extends Error {
+  readonly command: string;
+  readonly exitCode: number | null;
+  readonly stderr: string;
+
+  constructor(message: string, command: string, exitCode: number | null, stderr: string) {
+    super(message);
+    this.name = 'ShopifyCliError';
+    this.command = command;
+    this.exitCode = exitCode;
+    this.stderr = stderr;
+  }
+}
+
+/**
+ * Whether a value is a Shopify theme ID (numeric)
+ * @param themeId - Value to check
+ */
+export function isValidThemeId(themeId: unknown): themeId is string {
+  return typeof themeId === 'string' && THEME_ID_PATTERN.test(themeId);
+}
+
+/**
+ * Throw unless a value is a Shopify theme ID
+ * @param themeId - Value to check
+ * @throws Error if the theme ID is invalid
+ */
+export function assertValidThemeId(themeId: unknown): asserts themeId is string {
+  if (!isValidThemeId(themeId)) {
+    throw new Error(`Invalid theme ID: ${String(themeId).substring(0, 50)}`);
+  }
+}
+
+/**
+ * Output of a CLI invocation
+ */
+export interface ShopifyCliResult {
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * ShopifyCliRunner: Runs Shopify CLI theme commands for one store.
+ * Commands are spawned with argument arrays (never through a shell),
+ * the theme password is passed through the environment so it does not
+ * show up in process listings, and every command has a timeout.
+ * Single-asset operations go through a temporary directory, since the
+ * CLI only transfers files between the store and a local folder.
+ */
+export class ShopifyCliRunner implements ThemeBackend {
+  readonly type = 'cli' as const;
+  private readonly store: StoreCredentials;
+
+  /**
+   * @param store - Credentials of the store the commands run against
+   */
+  constructor(store: StoreCredentials) {
+    this.store = store;
+  }
+
+  /**
+   * Environment for CLI processes: store and password are read from
+   * these variables instead of command-line flags
+   */
+  private getEnv(): NodeJS.ProcessEnv {
+    return {
+      ...process.env,
+      SHOPIFY_FLAG_STORE: this.store.storeUrl,
+      SHOPIFY_CLI_THEME_TOKEN: this.store.themePassword,
+      SHOPIFY_CLI_NO_ANALYTICS: '1',
+      CI: '1',
+    };
+  }
+
+  /**
+   * Run a `shopify theme` subcommand
+   * @param args - Arguments after `shopify theme`
+   * @param timeoutMs - Time after which the process is killed
+   * @returns Captured stdout and stderr
+   * @throws ShopifyCliError if the process fails to start, exits non-zero or times out
+   */
+  async run(args: string[], timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<ShopifyCliResult> {
+    const command = `shopify theme ${args[0]}`;
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(CLI_BINARY, ['theme', ...args], {
+        env: this.getEnv(),
+        stdio: ['ignore', 'pipe', 'pipe'],
+        shell: false,
+      });
+
+      let stdout = '';
+      let stderr = '';
+      let timedOut = false;
+
+      const collect = (current: string, chunk: Buffer) =>
+        current.length < MAX_OUTPUT_BYTES ? current + chunk.toString('utf-8') : current;
+
+      child.stdout.on('data', (chunk: Buffer) => { stdout = collect(stdout, chunk); });
+      child.stderr.on('data', (chunk: Buffer) => { stderr = collect(stderr, chunk); });
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        child.kill('SIGTERM');
+        setTimeout(() => child.kill('SIGKILL'), KILL_GRACE_MS).unref();
+      }, timeoutMs);
+
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        reject(new ShopifyCliError(`${command} could not be started: ${error.message}`, command, null, stderr));
+      });
+
+      child.on('close', (code) => {
+        clearTimeout(timer);
+
+        if (timedOut) {
+          reject(new ShopifyCliError(`${command} timed out after ${timeoutMs / 1000}s`, command, code, stderr));
+        } else if (code !== 0) {
+          const detail = stderr.trim() || stdout.trim() || 'no output';
+          reject(new ShopifyCliError(`${command} failed with exit code ${code}: ${detail.substring(0, 500)}`, command, code, stderr));
+        } else {
+          resolve({ stdout, stderr });
+        }
+      });
+    });
+  }
+
+  /**
+   * Parse the JSON printed by a `--json` command.
+   * Some CLI versions print JSON on stderr, so both streams are tried.
+   */
+  private parseJson<T>(command: string, result: ShopifyCliResult): T {
+    const output = result.stdout.trim() || result.stderr.trim();
+
+    if (!output) {
+      throw new ShopifyCliError(`No output from ${command}`, command, 0, result.stderr);
+    }
+
+    try {
+      return JSON.parse(output) as T;
+    } catch {
+      throw new ShopifyCliError(
+        `Unexpected output from ${command}: ${output.substring(0, 200)}`,
+        command,
+        0,
+        result.stderr
+      );
+    }
+  }
+
+  /**
+   * List the themes of the store
+   * @returns Array of themes
+   */
+  async listThemes(): Promise<ThemeInfo[]> {
+    const result = await this.run(['list', '--json']);
+    const themes = this.parseJson<{ id: number | string; name: string; role: string }[]>('shopify theme list', result);
+
+    if (!Array.isArray(themes)) {
+      throw new ShopifyCliError('Unexpected output from shopify theme list', 'shopify theme list', 0, result.stderr);
+    }
+
+    return themes.map((theme) => ({
+      name: theme.name,
+      id: String(theme.id),
+      role: theme.role,
+    }));
+  }
+
+  /**
+   * Duplicate a theme
+   * @param themeId - Theme to copy
+   * @param name - Name of the copy
+   * @returns The new theme
+   */
+  async duplicateTheme(themeId: string, name: string): Promise<ThemeInfo> {
+    assertValidThemeId(themeId);
+
+    // --flag=value keeps a value starting with "-" from being read as another flag
+    const result = await this.run(['duplicate', '--theme', themeId, `--name=${name}`, '--force', '--json']);
+    const output = this.parseJson<{ theme?: { id?: number | string; name?: string; role?: string } }>(
+      'shopify theme duplicate',
+      result
+    );
+
+    if (!output.theme?.id) {
+      throw new ShopifyCliError(
+        `Theme duplication failed, theme output ${JSON.stringify(output)}`,
+        'shopify theme duplicate',
+        0,
+        result.stderr
+      );
+    }
+
+    return {
+      id: String(output.theme.id),
+      name: output.theme.name || name,
+      role: output.theme.role || 'unpublished',
+    };
+  }
+
+  /**
+   * Processing state of a theme from the theme list. `shopify theme list`
+   * has no processing flag, so this only tells whether the theme exists yet;
+   * counting files would need a full pull, so no asset count is reported
+   * and the readiness poller falls back to its minimum wait.
+   * @param themeId - Theme ID
+   */
+  async getThemeStatus(themeId: string): Promise<ThemeStatus> {
+    assertValidThemeId(themeId);
+
+    const result = await this.run(['list', '--json']);
+    const themes = this.parseJson<{ id: number | string; processing?: boolean }[]>('shopify theme list', result);
+    const theme = Array.isArray(themes) ? themes.find((entry) => String(entry.id) === themeId) : undefined;
+
+    // A theme that is not listed yet is still being created
+    return { processing: !theme || theme.processing === true };
+  }
+
+  /**
+   * Download a theme's files
+   * @param themeId - Theme to pull
+   * @param themePath - Directory the files are written to
+   */
+  async pullTheme(themeId: string, themePath: string): Promise<void> {
+    assertValidThemeId(themeId);
+
+    await this.run(['pull', '--theme', themeId, '--path', themePath, '--force'], TRANSFER_TIMEOUT_MS);
+  }
+
+  /**
+   * Upload local files to a theme
+   * @param themeId - Theme to push to
+   * @param themePath - Directory the files are read from
+   * @param options - File filters and whether to publish
+   * @returns ID of the pushed theme as reported by the CLI
+   */
+  async pushTheme(themeId: string, themePath: string, options: ThemeBackendPushOptions = {}): Promise<string> {
+    assertValidThemeId(themeId);
+
+    const args = ['push', '--theme', themeId, '--path', themePath];
+    for (const pattern of options.only || []) {
+      args.push(`--only=${pattern}`);
+    }
+    for (const pattern of options.ignore || []) {
+      args.push(`--ignore=${pattern}`);
+    }
+    if (options.publish) {
+      args.push('--publish');
+    }
+    args.push('--json');
+
+    const result = await this.run(args, TRANSFER_TIMEOUT_MS);
+
+    try {
+      const output = this.parseJson<{ theme?: { id?: number | string } }>('shopify theme push', result);
+      return output.theme?.id ? String(output.theme.id) : themeId;
+    } catch (error: any) {
+      // The push itself succeeded; only the summary is missing
+      logger.warn(`Could not parse theme push output: ${error.message}`);
+      return themeId;
+    }
+  }
+
+  async listAssets(themeId: string): Promise<ThemeAsset[]> {
+    return this.withTempDir(async (tempPath) => {
+      await this.pullTheme(themeId, tempPath);
+
+      const keys = await listLocalAssetKeys(tempPath);
+      return Promise.all(keys.map(async (key) => ({
+        key,
+        size: (await fs.stat(resolveAssetPath(tempPath, key))).size,
+      })));
+    });
+  }
+
+  async getAsset(themeId: string, key: string): Promise<Buffer> {
+    assertValidThemeId(themeId);
+    assertValidAssetKey(key);
+
+    return this.withTempDir(async (tempPath) => {
+      await this.run(['pull', '--theme', themeId, '--path', tempPath, `--only=${key}`], TRANSFER_TIMEOUT_MS);
+
+      try {
+        return await fs.readFile(resolveAssetPath(tempPath, key));
+      } catch {
+        throw new Error(`Asset not found: ${key}`);
+      }
+    });
+  }
+
+  async putAsset(themeId: string, key: string, content: Buffer | string): Promise<void> {
+    assertValidThemeId(themeId);
+    assertValidAssetKey(key);
+
+    await this.withTempDir(async (tempPath) => {
+      const filePath = resolveAssetPath(tempPath, key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, content);
+
+      await this.run(['push', '--theme', themeId, '--path', tempPath, `--only=${key}`, '--nodelete'], TRANSFER_TIMEOUT_MS);
+    });
+  }
+
+  async deleteAsset(themeId: string, key: string): Promise<void> {
+    assertValidThemeId(themeId);
+    assertValidAssetKey(key);
+
+    // Pushing a folder without the file deletes it remotely; --only keeps every other file untouched
+    await this.withTempDir((tempPath) =>
+      this.run(['push', '--theme', themeId, '--path', tempPath, `--only=${key}`], TRANSFER_TIMEOUT_MS)
+    );
+  }
+
+  private async withTempDir<T>(task: (tempPath: string) => Promise<T>): Promise<T> {
+    const tempPath = await fs.mkdtemp(path.join(os.tmpdir(), 'shopify-theme-'));
+
+    try {
+      return await task(tempPath);
+    } finally {
+      await fs.rm(tempPath, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Start `shopify theme dev` through a wrapper script that gives it a
+   * pseudo-TTY. The script receives the theme path and port through
+   * environment variables, so nothing is interpolated into a shell command.
+   * @param wrapperScriptPath - Script written by the caller (see ShopifyService.runThemeDev)
+   * @param themePath - Theme directory
+   * @param port - Port to serve on
+   * @returns Dev server process with piped output
+   */
+  spawnThemeDev(wrapperScriptPath: string, themePath: string, port: number): ChildProcess {
+    return spawn('bash', [wrapperScriptPath], {
+      env: {
+        ...this.getEnv(),
+        THEME_PATH: themePath,
+        THEME_DEV_PORT: String(port),
+      },
+      // stdin stays open because script forwards an end-of-file on it to the dev server
+      stdio: ['pipe', 'pipe', 'pipe'],
+      shell: false,
+      cwd: themePath,
+    });
+  }
+}
+
+export default ShopifyCliRunner;
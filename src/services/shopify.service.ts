@@ -1,39 +1,89 @@
-import { exec, spawn } from 'child_process';
-import { promisify } from 'util';
+import { ChildProcess } from 'child_process';
 import * as path from 'path';
 import * as fs from 'fs/promises';
 import logger from '../utils/logger';
 import { config } from '../config/environment';
 import { ThemeInfo } from '../types/theme.types';
 import codexService from './codex.instance';
+import { GitService } from './git.service';
+import { ShopifyCliRunner, assertValidThemeId } from './shopify-cli.runner';
+import { createThemeBackend } from './theme-backend.factory';
+import { ThemeReadinessPoller, ThemeReadinessProgress } from './theme-readiness.poller';
+import { listLocalAssetKeys } from './theme-backend';
+import type { ThemeBackend } from './theme-backend';
+import devServerManager from './dev-server.instance';
+import type { StoreCredentials } from './store.registry';
 import type CodexService from './codex.service';
 
-const execAsync = promisify(exec);
-
-export class ShopifyService {
-  constructor() {
-  }
-  async listThemes(): Promise<ThemeInfo[]> {
-    logger.info(`Listing themes for store: ${config.SHOPIFY_STORE_URL}`);
+export interface ThemePushOptions {
+  only?: string[];
+  ignore?: string[];
+  publish?: boolean;
+}
 
-    const cmd = `shopify theme list --store ${config.SHOPIFY_STORE_URL} --password ${config.SHOPIFY_THEME_PASSWORD} --json`;
+export interface ThemePushResult {
+  themeId: string;
+  published: boolean;
+}
 
-    try {
-      const { stdout, stderr } = await execAsync(cmd);
+export type ThemeDownloadStage =
+  | 'duplicate.started'
+  | 'duplicate.progress'
+  | 'duplicate.completed'
+  | 'pull.attempt'
+  | 'pull.completed'
+  | 'codex.ready'
+  | 'dev.started';
+
+/**
+ * Progress of the download workflow, reported at each stage
+ */
+export interface ThemeDownloadProgress {
+  stage: ThemeDownloadStage;
+  sourceThemeId: string;
+  themeId?: string;        // The duplicate, once created
+  envId?: string;          // Once the Codex environment is set up
+  elapsedMs: number;       // Since the workflow started
+  durationMs?: number;     // Of the stage that just finished (*.completed, codex.ready, dev.started)
+  attempt?: number;        // pull.attempt
+  maxAttempts?: number;    // pull.attempt
+  progress?: number;       // duplicate.progress, 0-100
+  processing?: boolean;    // duplicate.progress
+  assetCount?: number;     // duplicate.progress
+  sourceAssetCount?: number; // duplicate.progress
+  fileCount?: number;      // pull.completed
+  devServerPort?: number;  // dev.started
+}
 
-      const jsonOutput = stdout.trim() || stderr.trim();
+export class ShopifyService {
+  private readonly store: StoreCredentials;
+  private readonly gitService: GitService;
+  private readonly backend: ThemeBackend;
+  private readonly cli: ShopifyCliRunner; // `theme dev` always needs the CLI
 
-      if (!jsonOutput) {
-        throw new Error('No output from Shopify CLI');
-      }
+  /**
+   * @param store - Credentials of the store this service operates on
+   * @param backend - Theme backend (default: the one selected by THEME_BACKEND)
+   */
+  constructor(store: StoreCredentials, backend?: ThemeBackend) {
+    this.store = store;
+    this.gitService = new GitService();
+    this.backend = backend || createThemeBackend(store);
+    this.cli = new ShopifyCliRunner(store);
+  }
 
-      const themesRaw = JSON.parse(jsonOutput);
+  /**
+   * Get the theme backend used for store operations
+   * @returns Theme backend
+   */
+  getBackend(): ThemeBackend {
+    return this.backend;
+  }
+  async listThemes(): Promise<ThemeInfo[]> {
+    logger.info(`Listing themes for store: ${this.store.storeUrl}`);
 
-      const themes: ThemeInfo[] = themesRaw.map((theme: any) => ({
-        name: theme.name,
-        id: String(theme.id),
-        role: theme.role
-      }));
+    try {
+      const themes = await this.backend.listThemes();
 
       logger.info(`Found ${themes.length} themes`);
       return themes;
@@ -47,28 +97,19 @@ export class ShopifyService {
   async duplicateTheme(themeId: string, sessionId: string): Promise<string> {
     logger.info(`Duplicating theme ${themeId} with name ${sessionId}`);
 
-    const cmd = `shopify theme duplicate --store=${config.SHOPIFY_STORE_URL} --password=${config.SHOPIFY_THEME_PASSWORD} --theme=${themeId} --force --name=${sessionId} --json`;
-
-    const { stdout, stderr } = await execAsync(cmd);
-    const output = stdout.trim() || stderr.trim();
-
-    if (!output) {
-      throw new Error('No output from theme duplicate command');
-    }
-    const result = JSON.parse(output);
-
-    if (!result.theme?.id) {
-      throw new Error(`Theme duplication failed, theme output ${output}`);
-    }
+    const theme = await this.backend.duplicateTheme(themeId, sessionId);
 
-    const newThemeId = String(result.theme.id);
-    logger.info(`Theme duplicated successfully. New theme ID: ${newThemeId}`);
-    return newThemeId;
+    logger.info(`Theme duplicated successfully. New theme ID: ${theme.id}`);
+    return theme.id;
   }
 
 
-  async pullTheme(themeId: string): Promise<string> {
-    logger.info(`Pulling theme ${themeId} from ${config.SHOPIFY_STORE_URL}`);
+  async pullTheme(
+    themeId: string,
+    onAttempt?: (attempt: number, maxAttempts: number) => void | Promise<void>
+  ): Promise<string> {
+    assertValidThemeId(themeId);
+    logger.info(`Pulling theme ${themeId} from ${this.store.storeUrl}`);
 
     const downloadBase = path.resolve(config.THEME_DOWNLOAD_PATH);
     const themePath = path.join(downloadBase, themeId);
@@ -85,18 +126,24 @@ export class ShopifyService {
 
       logger.info(`Pulling theme (attempt ${attempt + 1}/${maxRetries + 1})...`);
 
-      const cmd = `shopify theme pull --store ${config.SHOPIFY_STORE_URL} --password ${config.SHOPIFY_THEME_PASSWORD} --theme ${themeId} --path ${themePath} --force`;
+      if (onAttempt) {
+        await onAttempt(attempt + 1, maxRetries + 1);
+      }
 
-      await execAsync(cmd, {
-        maxBuffer: 10 * 1024 * 1024,
-        timeout: 300000
-      });
+      await this.backend.pullTheme(themeId, themePath);
 
       const files = await fs.readdir(themePath);
       logger.info(`Files in directory after pull: ${files.length} files`);
 
       if (files.length > 0) {
         logger.info(`Theme pulled successfully to: ${themePath}`);
+
+        try {
+          await this.gitService.initRepository(themePath, `Baseline: theme ${themeId}`);
+        } catch (error: any) {
+          logger.error(`Error creating baseline snapshot: ${error.message}`);
+        }
+
         return themePath;
       }
 
@@ -105,10 +152,38 @@ export class ShopifyService {
 
     throw new Error(`Failed to pull theme after ${maxRetries + 1} attempts - directory remains empty`);
   }
-  
 
-  async runThemeDev(themeId: string): Promise<void> {
-    logger.info(`Starting theme dev server for theme ${themeId}`);
+  async pushTheme(themeId: string, themePath: string, options: ThemePushOptions = {}): Promise<ThemePushResult> {
+    const { only = [], ignore = [], publish = false } = options;
+
+    logger.info(`Pushing theme ${themeId} from ${themePath} to ${this.store.storeUrl}`);
+
+    try {
+      await fs.access(themePath);
+    } catch (error: any) {
+      throw new Error(`Theme directory not found: ${themePath}`);
+    }
+
+    const pushedThemeId = await this.backend.pushTheme(themeId, themePath, { only, ignore, publish });
+
+    logger.info(`Theme ${pushedThemeId} pushed successfully${publish ? ' and published' : ''}`);
+    return { themeId: pushedThemeId, published: publish };
+  }
+
+  /**
+   * Resolve the local directory a theme was pulled into
+   * @param themeId - Shopify theme ID
+   * @returns Absolute theme path
+   */
+  getThemePath(themeId: string): string {
+    assertValidThemeId(themeId);
+    return path.join(path.resolve(config.THEME_DOWNLOAD_PATH), themeId);
+  }
+
+
+  async runThemeDev(themeId: string, port: number = 9292): Promise<ChildProcess> {
+    assertValidThemeId(themeId);
+    logger.info(`Starting theme dev server for theme ${themeId} on port ${port}`);
 
     const downloadBase = path.resolve(config.THEME_DOWNLOAD_PATH);
     const themePath = path.join(downloadBase, themeId);
@@ -122,28 +197,23 @@ export class ShopifyService {
       throw new Error(`Theme directory not found: ${themePath}`);
     }
 
-    // Create a wrapper script that uses script command for pseudo-TTY
+    // Create a wrapper script that uses script command for pseudo-TTY.
+    // Store, password, path and port come from the environment set by the runner.
     const wrapperScriptPath = path.join(themePath, 'run-theme-dev.sh');
     const wrapperScript = `#!/bin/bash
-export SHOPIFY_CLI_THEME_TOKEN="${config.SHOPIFY_THEME_PASSWORD}"
-export SHOPIFY_CLI_NO_ANALYTICS=1
-export CI=1
-
 # Use script to create a pseudo-TTY and run shopify theme dev
-script -q -c "shopify theme dev --path ${themePath} --password ${config.SHOPIFY_THEME_PASSWORD} --port 9292 --store-password neecra" /dev/null
+# exec so that stopping this process stops the dev server too
+exec script -q -c 'shopify theme dev --path "$THEME_PATH" --port "$THEME_DEV_PORT" --store-password neecra' /dev/null
 `;
 
     await fs.writeFile(wrapperScriptPath, wrapperScript, 'utf-8');
-    await execAsync(`chmod +x ${wrapperScriptPath}`);
+    await fs.chmod(wrapperScriptPath, 0o755);
 
     logger.info(`Created wrapper script at ${wrapperScriptPath}`);
     logger.info(`Running shopify theme dev with path: ${themePath}`);
 
-    const shopifyProcess = spawn('bash', [wrapperScriptPath], {
-      stdio: 'inherit',
-      shell: false,
-      cwd: themePath,
-    });
+    // Output is captured by the dev server manager
+    const shopifyProcess = this.cli.spawnThemeDev(wrapperScriptPath, themePath, port);
 
     shopifyProcess.on('error', (error) => {
       logger.error(`Theme dev error: ${error.message}`);
@@ -154,23 +224,89 @@ script -q -c "shopify theme dev --path ${themePath} --password ${config.SHOPIFY_
     });
 
     logger.info(`Theme dev server started for theme ${themeId}`);
+    return shopifyProcess;
+  }
+
+  /**
+   * Wait until a duplicated theme has finished processing
+   * @param sourceThemeId - Theme that was duplicated
+   * @param themeId - The duplicate
+   * @param onProgress - Called after every readiness check (optional)
+   */
+  async waitForDuplicate(
+    sourceThemeId: string,
+    themeId: string,
+    onProgress?: (progress: ThemeReadinessProgress) => void | Promise<void>
+  ): Promise<ThemeReadinessProgress> {
+    const poller = new ThemeReadinessPoller(this.backend, {
+      timeoutMs: config.THEME_DUPLICATE_TIMEOUT_SECONDS * 1000,
+      initialDelayMs: config.THEME_DUPLICATE_POLL_INITIAL_SECONDS * 1000,
+      maxDelayMs: config.THEME_DUPLICATE_POLL_MAX_SECONDS * 1000,
+      minWaitMs: config.THEME_DUPLICATE_MIN_WAIT_SECONDS * 1000,
+    });
+
+    return poller.waitForDuplicate(sourceThemeId, themeId, onProgress);
   }
 
-  async downloadTheme(themeId: string): Promise<{ themeId: string; envId: string }> {
-    logger.info(`Starting download workflow for theme ${themeId}`);
+  async downloadTheme(
+    themeId: string,
+    sessionId: string,
+    onProgress?: (progress: ThemeDownloadProgress) => void | Promise<void>
+  ): Promise<{ themeId: string; envId: string; devServerPort: number }> {
+    logger.info(`Starting download workflow for theme ${themeId} on store ${this.store.storeId}`);
 
-    const newThemeId = await this.duplicateTheme(themeId, config.SESSION_ID);
+    const workflowStart = Date.now();
+    let stageStart = workflowStart;
 
-    logger.info(`Waiting ${config.THEME_DUPLICATE_WAIT_SECONDS} seconds for theme duplication to complete...`);
-    await new Promise(resolve => setTimeout(resolve, config.THEME_DUPLICATE_WAIT_SECONDS * 1000));
+    const report = async (progress: Omit<ThemeDownloadProgress, 'sourceThemeId' | 'elapsedMs'>) => {
+      if (onProgress) {
+        await onProgress({ sourceThemeId: themeId, elapsedMs: Date.now() - workflowStart, ...progress });
+      }
+    };
+
+    // Duration of the current stage; starts the next one
+    const finishStage = () => {
+      const now = Date.now();
+      const durationMs = now - stageStart;
+      stageStart = now;
+      return durationMs;
+    };
+
+    await report({ stage: 'duplicate.started' });
+
+    const newThemeId = await this.duplicateTheme(themeId, sessionId);
+
+    logger.info('Waiting for theme duplication to complete...');
+    await this.waitForDuplicate(themeId, newThemeId, (progress) =>
+      report({
+        stage: 'duplicate.progress',
+        themeId: newThemeId,
+        progress: progress.progress,
+        processing: progress.processing,
+        assetCount: progress.assetCount,
+        sourceAssetCount: progress.sourceAssetCount,
+      })
+    );
 
-    const themePath = await this.pullTheme(newThemeId);
+    await report({ stage: 'duplicate.completed', themeId: newThemeId, durationMs: finishStage() });
+
+    const themePath = await this.pullTheme(newThemeId, (attempt, maxAttempts) =>
+      report({ stage: 'pull.attempt', themeId: newThemeId, attempt, maxAttempts })
+    );
+
+    await report({
+      stage: 'pull.completed',
+      themeId: newThemeId,
+      durationMs: finishStage(),
+      fileCount: (await listLocalAssetKeys(themePath)).length,
+    });
 
     // Setup Codex environment for the downloaded theme
     logger.info('Setting up Codex environment for theme...');
     const codexEnv = await codexService.setupEnvironment(
       themePath,
-      config.CODEX_MODEL
+      config.CODEX_MODEL,
+      { storeId: this.store.storeId, sessionId }
     );
 
     logger.info('Codex environment setup complete', {
@@ -179,10 +315,24 @@ script -q -c "shopify theme dev --path ${themePath} --password ${config.SHOPIFY_
       yoloMode: codexEnv.yoloMode,
     });
 
-    await this.runThemeDev(newThemeId);
+    await report({ stage: 'codex.ready', themeId: newThemeId, envId: codexEnv.envId, durationMs: finishStage() });
+
+    const devServer = await devServerManager.start(
+      codexEnv.envId,
+      newThemeId,
+      (port) => this.runThemeDev(newThemeId, port)
+    );
+
+    await report({
+      stage: 'dev.started',
+      themeId: newThemeId,
+      envId: codexEnv.envId,
+      durationMs: finishStage(),
+      devServerPort: devServer.port,
+    });
 
-    logger.info(`Download workflow completed. New theme ID: ${newThemeId}`);
-    return { themeId: newThemeId, envId: codexEnv.envId };
+    logger.info(`Download workflow completed in ${Date.now() - workflowStart}ms. New theme ID: ${newThemeId}`);
+    return { themeId: newThemeId, envId: codexEnv.envId, devServerPort: devServer.port };
   }
 
   /**
@@ -0,0 +1,30 @@
+import StoreRegistry, { DEFAULT_STORE_ID } from './store.registry';
+import { config } from '../config/environment';
+
+// Shared StoreRegistry instance: the env-configured store plus any stores from STORES_CONFIG_PATH.
+const storeRegistry = new StoreRegistry(
+  config.SHOPIFY_STORE_URL
+    ? {
+      storeId: DEFAULT_STORE_ID,
+      storeUrl: config.SHOPIFY_STORE_URL,
+      themePassword: config.SHOPIFY_THEME_PASSWORD,
+      adminAccessToken: config.SHOPIFY_ADMIN_ACCESS_TOKEN || undefined,
+      sessionId: config.SESSION_ID,
+    }
+    : null,
+  config.SESSION_ID,
+  config.STORES_CONFIG_PATH
+);
+
+// The Admin API does not accept Theme Access passwords, so each store needs its own token
+if (config.THEME_BACKEND === 'admin-api') {
+  const missing = storeRegistry.listStores().filter((store) => !store.adminAccessToken);
+
+  if (missing.length > 0) {
+    throw new Error(
+      `THEME_BACKEND=admin-api needs an Admin API access token for stores ${missing.map((store) => store.storeId).join(', ')} (SHOPIFY_ADMIN_ACCESS_TOKEN or admin_access_token)`
+    );
+  }
+}
+
+export default storeRegistry;
@@ -0,0 +1,183 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import logger from '../utils/logger';
+import { StoreConfigEntry } from '../types/theme.types';
+
+export const DEFAULT_STORE_ID = 'default';
+
+// Sessions bound by requests; the least recently used ones are forgotten beyond this
+const MAX_SESSIONS = 10000;
+
+/**
+ * Credentials of a Shopify store
+ */
+export interface StoreCredentials {
+  storeId: string;
+  storeUrl: string;
+  themePassword: string;     // Theme Access password, used by the Shopify CLI
+  adminAccessToken?: string; // Admin API access token (shpat_...) of a custom app, used by the admin-api backend
+  sessionId?: string; // Default session for webhooks about this store
+}
+
+/**
+ * Store and session a request operates on
+ */
+export interface StoreContext {
+  store: StoreCredentials;
+  sessionId: string;
+}
+
+/**
+ * StoreRegistry: Looks up Shopify credentials per store and remembers
+ * which store each session belongs to
+ */
+export class StoreRegistry {
+  private stores: Map<string, StoreCredentials>;
+  private sessions: Map<string, string>; // sessionId -> storeId
+  private readonly defaultSessionId: string;
+  private defaultStoreId?: string;
+
+  /**
+   * @param defaultStore - Store configured through environment variables (optional)
+   * @param defaultSessionId - Session used when neither the request nor the store names one
+   * @param storesConfigPath - JSON file with additional stores (optional)
+   */
+  constructor(
+    defaultStore: StoreCredentials | null,
+    defaultSessionId: string,
+    storesConfigPath?: string
+  ) {
+    this.stores = new Map();
+    this.sessions = new Map();
+    this.defaultSessionId = defaultSessionId;
+
+    if (defaultStore) {
+      this.register(defaultStore);
+    }
+
+    if (storesConfigPath) {
+      this.loadStoresFile(storesConfigPath);
+    }
+
+    if (!this.defaultStoreId) {
+      throw new Error('No Shopify store configured');
+    }
+
+    logger.info(`StoreRegistry initialized with ${this.stores.size} stores`);
+  }
+
+  private loadStoresFile(storesConfigPath: string): void {
+    const filePath = path.resolve(storesConfigPath);
+    const entries: StoreConfigEntry[] = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+
+    if (!Array.isArray(entries)) {
+      throw new Error(`${filePath} must contain an array of stores`);
+    }
+
+    for (const entry of entries) {
+      if (!entry.store_id || !entry.store_url || !entry.theme_password) {
+        throw new Error(`Invalid store in ${filePath}: store_id, store_url and theme_password are required`);
+      }
+
+      if (this.stores.has(entry.store_id)) {
+        logger.warn(`Store ${entry.store_id} from ${filePath} overrides an existing store`);
+      }
+
+      this.register({
+        storeId: entry.store_id,
+        storeUrl: entry.store_url,
+        themePassword: entry.theme_password,
+        adminAccessToken: entry.admin_access_token,
+        sessionId: entry.session_id,
+      });
+    }
+  }
+
+  private register(store: StoreCredentials): void {
+    this.stores.set(store.storeId, store);
+
+    if (!this.defaultStoreId) {
+      this.defaultStoreId = store.storeId;
+    }
+
+    if (store.sessionId) {
+      this.sessions.set(store.sessionId, store.storeId);
+    }
+  }
+
+  /**
+   * Bind a session to a store as most recently used, forgetting the least
+   * recently used request sessions beyond MAX_SESSIONS. Default sessions of
+   * configured stores are kept.
+   */
+  private bindSession(sessionId: string, storeId: string): void {
+    this.sessions.delete(sessionId);
+    this.sessions.set(sessionId, storeId);
+
+    if (this.sessions.size <= MAX_SESSIONS) {
+      return;
+    }
+
+    const storeSessions = new Set(Array.from(this.stores.values()).map((store) => store.sessionId));
+
+    for (const oldest of this.sessions.keys()) {
+      if (!storeSessions.has(oldest)) {
+        this.sessions.delete(oldest);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Get a store by ID
+   * @param storeId - Store ID (optional, the default store is returned if omitted)
+   * @returns Store credentials or undefined if not found
+   */
+  getStore(storeId?: string): StoreCredentials | undefined {
+    return this.stores.get(storeId || this.defaultStoreId!);
+  }
+
+  /**
+   * List all configured stores
+   * @returns Array of store credentials
+   */
+  listStores(): StoreCredentials[] {
+    return Array.from(this.stores.values());
+  }
+
+  /**
+   * List known sessions and the store each belongs to
+   * @returns Array of session/store pairs
+   */
+  listSessions(): { sessionId: string; storeId: string }[] {
+    return Array.from(this.sessions.entries()).map(([sessionId, storeId]) => ({ sessionId, storeId }));
+  }
+
+  /**
+   * Resolve the store and session of a request.
+   * A session without a store uses the store it was last bound to;
+   * a store without a session uses the store's default session.
+   * The resulting session is bound to the store for later requests.
+   *
+   * @param refs - Store and/or session ID from the request
+   * @returns Store credentials and session ID
+   * @throws Error if the store is unknown
+   */
+  resolve(refs: { storeId?: string; sessionId?: string } = {}): StoreContext {
+    const storeId = refs.storeId
+      || (refs.sessionId && this.sessions.get(refs.sessionId))
+      || this.defaultStoreId!;
+
+    const store = this.stores.get(storeId);
+    if (!store) {
+      throw new Error(`Store not found: ${storeId}`);
+    }
+
+    const sessionId = refs.sessionId || store.sessionId || this.defaultSessionId;
+    this.bindSession(sessionId, store.storeId);
+
+    return { store, sessionId };
+  }
+}
+
+export default StoreRegistry;
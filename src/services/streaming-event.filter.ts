@@ -0,0 +1,52 @@
+import { ChatStreamingEventFilter, ChatStreamingEventSelector } from '../types/theme.types';
+
+/**
+ * A filter with every list filled in (request values over server defaults)
+ */
+export interface ResolvedEventFilter {
+  include: Required<ChatStreamingEventSelector>;
+  exclude: Required<ChatStreamingEventSelector>;
+}
+
+/**
+ * Fill the lists a request leaves out with the server defaults
+ * @param filter - Filter from the request (optional)
+ * @param defaults - Server defaults (see CHAT_STREAMING_* in config)
+ */
+export function resolveEventFilter(
+  filter: ChatStreamingEventFilter | undefined,
+  defaults: ResolvedEventFilter
+): ResolvedEventFilter {
+  return {
+    include: {
+      types: filter?.include?.types ?? defaults.include.types,
+      item_types: filter?.include?.item_types ?? defaults.include.item_types,
+    },
+    exclude: {
+      types: filter?.exclude?.types ?? defaults.exclude.types,
+      item_types: filter?.exclude?.item_types ?? defaults.exclude.item_types,
+    },
+  };
+}
+
+function matchesList(value: string | undefined, list: string[]): boolean {
+  return list.includes('*') || (value !== undefined && list.includes(value));
+}
+
+/**
+ * Whether a streaming event passes a filter. Item types are only checked for item.* events.
+ * @param event - Codex event
+ * @param filter - Resolved filter
+ */
+export function matchesEventFilter(event: { type?: string; item?: { type?: string } }, filter: ResolvedEventFilter): boolean {
+  if (!matchesList(event.type, filter.include.types) || matchesList(event.type, filter.exclude.types)) {
+    return false;
+  }
+
+  if (event.type?.startsWith('item.')) {
+    const itemType = event.item?.type;
+    return matchesList(itemType, filter.include.item_types) && !matchesList(itemType, filter.exclude.item_types);
+  }
+
+  return true;
+}
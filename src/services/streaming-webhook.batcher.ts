@@ -0,0 +1,187 @@
+import logger from '../utils/logger';
+import { ChatStreamingWebhookPayload } from '../types/theme.types';
+import type { WebhookDispatcher } from './webhook.dispatcher';
+
+export interface StreamingWebhookBatcherOptions {
+  url: string;
+  jobId: string;
+  envId: string;
+  windowMs: number;        // 0 sends every event on its own
+  maxBatchSize: number;    // Flush early once this many events are buffered
+  nextEventNumber: () => number | undefined; // Monotonic per environment (see CodexService.nextEventNumber)
+  publish?: (event: ChatStreamingWebhookPayload) => void; // Receives every event as it happens, unbatched
+}
+
+/**
+ * Final state of a stream, sent in the stream.completed webhook
+ */
+export interface StreamCompletion {
+  success: boolean;
+  usage?: any;
+  commit?: string | null;
+  changes?: unknown[];
+  structured?: Record<string, any>; // Final response parsed as JSON, when an output schema was given
+  error?: string;
+  cancelled?: boolean;
+}
+
+/**
+ * StreamingWebhookBatcher: Sends the events of one streaming chat turn.
+ * Every event gets the next event number of its environment; events
+ * arriving within the batch window are sent together as one
+ * events.batch webhook. All webhooks of an environment share an ordering
+ * key, so receivers get them in event-number order even across retries.
+ * The stream ends with a stream.completed summary. Events are also
+ * handed to `publish` right away, for live subscribers.
+ */
+export class StreamingWebhookBatcher {
+  private readonly dispatcher: WebhookDispatcher;
+  private readonly options: StreamingWebhookBatcherOptions;
+  private readonly startedAt: number;
+  private buffer: ChatStreamingWebhookPayload[] = [];
+  private timer?: NodeJS.Timeout;
+  private sendChain: Promise<void> = Promise.resolve();
+  private firstEventNumber?: number;
+  private lastEventNumber?: number;
+  private totalEvents = 0;
+
+  /**
+   * @param dispatcher - Webhook dispatcher
+   * @param options - Target, batching and event numbering
+   */
+  constructor(dispatcher: WebhookDispatcher, options: StreamingWebhookBatcherOptions) {
+    this.dispatcher = dispatcher;
+    this.options = options;
+    this.startedAt = Date.now();
+  }
+
+  /**
+   * Number an event and queue it for delivery. Does not wait for the webhook.
+   * @param event - Event properties, spread into the payload
+   * @param success - false for error payloads
+   * @returns The event's number
+   */
+  push(event: Record<string, any>, success: boolean = true): number | undefined {
+    const eventNumber = this.options.nextEventNumber();
+
+    this.firstEventNumber = this.firstEventNumber ?? eventNumber;
+    this.lastEventNumber = eventNumber ?? this.lastEventNumber;
+    this.totalEvents++;
+
+    const payload: ChatStreamingWebhookPayload = {
+      success,
+      job_id: this.options.jobId,
+      env_id: this.options.envId,
+      event_number: eventNumber,
+      timestamp: new Date().toISOString(),
+      ...event  // Spreads: type, delta, item, usage, etc.
+    };
+
+    this.buffer.push(payload);
+    this.options.publish?.(payload);
+
+    if (this.options.windowMs <= 0 || this.buffer.length >= this.options.maxBatchSize) {
+      this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), this.options.windowMs);
+    }
+
+    return eventNumber;
+  }
+
+  /**
+   * Send buffered events, one webhook per event without a batch window
+   */
+  flush(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    const events = this.buffer;
+    this.buffer = [];
+
+    if (events.length === 0) {
+      return;
+    }
+
+    if (this.options.windowMs <= 0) {
+      for (const event of events) {
+        this.send(event, `${this.options.jobId}:${event.event_number}`);
+      }
+      return;
+    }
+
+    const first = events[0].event_number;
+    const last = events[events.length - 1].event_number;
+
+    this.send({
+      success: events.every((event) => event.success),
+      job_id: this.options.jobId,
+      env_id: this.options.envId,
+      type: 'events.batch',
+      first_event_number: first,
+      last_event_number: last,
+      timestamp: new Date().toISOString(),
+      events
+    }, `${this.options.jobId}:${first}-${last}`);
+  }
+
+  /**
+   * Flush remaining events and send the stream.completed summary.
+   * Resolves once every webhook of the stream had its first attempt.
+   * @param completion - Outcome of the turn
+   */
+  async complete(completion: StreamCompletion): Promise<void> {
+    this.flush();
+
+    const summary: ChatStreamingWebhookPayload = {
+      success: completion.success,
+      job_id: this.options.jobId,
+      env_id: this.options.envId,
+      type: 'stream.completed',
+      event_number: this.options.nextEventNumber(),
+      timestamp: new Date().toISOString(),
+      total_events: this.totalEvents,
+      first_event_number: this.firstEventNumber,
+      last_event_number: this.lastEventNumber,
+      duration_ms: Date.now() - this.startedAt,
+      usage: completion.usage,
+      commit: completion.commit,
+      changes: completion.changes,
+      structured: completion.structured,
+      error: completion.error,
+      cancelled: completion.cancelled
+    };
+
+    this.options.publish?.(summary);
+    this.send(summary, `${this.options.jobId}:completed`);
+
+    await this.sendChain;
+  }
+
+  /**
+   * Number of events pushed so far
+   */
+  getTotalEvents(): number {
+    return this.totalEvents;
+  }
+
+  /**
+   * Queue a webhook behind the previous ones of this stream
+   */
+  private send(payload: ChatStreamingWebhookPayload, idempotencyKey: string): void {
+    this.sendChain = this.sendChain.then(async () => {
+      await this.dispatcher.dispatch(this.options.url, payload, {
+        idempotencyKey,
+        orderingKey: `chat-streaming:${this.options.envId}`
+      });
+
+      logger.debug('Streaming webhook sent', {
+        envId: this.options.envId,
+        type: payload.type,
+        eventNumber: payload.event_number ?? payload.last_event_number
+      });
+    });
+  }
+}
+
+export default StreamingWebhookBatcher;
@@ -0,0 +1,68 @@
+import { outputSchemas } from '../schemas/output.schemas';
+import { OutputSchemaName } from '../types/theme.types';
+import { JsonSchema, SchemaError, validateSchema } from '../utils/json-schema';
+
+/**
+ * Final response of a turn that does not follow its output schema
+ */
+export class StructuredOutputError extends Error {
+  constructor(message: string, public readonly errors: SchemaError[] = []) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+/**
+ * Result of checking a final response: structured when it is valid, error otherwise
+ */
+export interface StructuredOutputResult {
+  structured?: Record<string, any>;
+  error?: StructuredOutputError;
+}
+
+/**
+ * JSON Schema of an output_schema request field
+ * @param value - Name of a built-in schema (see output.schemas.ts) or a JSON Schema
+ */
+export function resolveOutputSchema(value: OutputSchemaName | Record<string, any> | undefined): JsonSchema | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  return typeof value === 'string' ? outputSchemas[value] : value;
+}
+
+/**
+ * Parse a final response as JSON and validate it against its output schema
+ * @param response - Final response of the turn
+ * @param schema - Output schema of the turn
+ */
+export function checkStructuredOutput(response: string, schema: JsonSchema): StructuredOutputResult {
+  let value: unknown;
+
+  try {
+    value = JSON.parse(response);
+  } catch {
+    return { error: new StructuredOutputError('Final response is not valid JSON') };
+  }
+
+  const errors = validateSchema(schema, value);
+
+  if (errors.length > 0) {
+    const [first] = errors;
+    const more = errors.length > 1 ? ` (and ${errors.length - 1} more)` : '';
+
+    return {
+      error: new StructuredOutputError(
+        `Final response does not match the output schema: ${first.path ? `${first.path} ` : ''}${first.message}${more}`,
+        errors
+      )
+    };
+  }
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { error: new StructuredOutputError('Final response is not a JSON object') };
+  }
+
+  return { structured: value as Record<string, any> };
+}
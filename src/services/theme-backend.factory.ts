@@ -0,0 +1,25 @@
+import { config } from '../config/environment';
+import { ShopifyCliRunner } from './shopify-cli.runner';
+import { AdminApiThemeBackend } from './admin-api.backend';
+import type { ThemeBackend, ThemeBackendType } from './theme-backend';
+import type { StoreCredentials } from './store.registry';
+
+/**
+ * Create the theme backend for a store
+ * @param store - Store credentials
+ * @param type - Backend to use (default: THEME_BACKEND)
+ * @returns CLI or Admin API backend
+ */
+export function createThemeBackend(
+  store: StoreCredentials,
+  type: ThemeBackendType = config.THEME_BACKEND
+): ThemeBackend {
+  if (type === 'admin-api') {
+    return new AdminApiThemeBackend(store, {
+      apiVersion: config.SHOPIFY_ADMIN_API_VERSION,
+      baseUrl: config.SHOPIFY_ADMIN_API_URL,
+    });
+  }
+
+  return new ShopifyCliRunner(store);
+}
@@ -0,0 +1,154 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { ThemeInfo } from '../types/theme.types';
+
+export type ThemeBackendType = 'cli' | 'admin-api';
+
+// Local files that are not part of the theme
+const LOCAL_ONLY_ENTRIES = new Set(['.git', 'run-theme-dev.sh']);
+
+/**
+ * A file of a theme as listed by the store
+ */
+export interface ThemeAsset {
+  key: string; // e.g. "sections/header.liquid"
+  size?: number;
+  checksum?: string;
+  updatedAt?: string;
+}
+
+/**
+ * Whether a theme is ready to be pulled
+ */
+export interface ThemeStatus {
+  processing: boolean;  // Shopify is still creating the theme's files
+  assetCount?: number;  // Files currently in the theme, if the backend can count them cheaply
+}
+
+export interface ThemeBackendPushOptions {
+  only?: string[];   // Glob patterns of files to push
+  ignore?: string[]; // Glob patterns of files to leave out
+  publish?: boolean;
+}
+
+/**
+ * ThemeBackend: The operations the server needs from a Shopify store.
+ * Implemented on top of the Shopify CLI (ShopifyCliRunner) and the
+ * Admin API (AdminApiThemeBackend); see createThemeBackend.
+ */
+export interface ThemeBackend {
+  readonly type: ThemeBackendType;
+
+  listThemes(): Promise<ThemeInfo[]>;
+
+  /**
+   * @returns The new theme
+   */
+  duplicateTheme(themeId: string, name: string): Promise<ThemeInfo>;
+
+  getThemeStatus(themeId: string): Promise<ThemeStatus>;
+
+  /**
+   * Download all files of a theme into a directory
+   */
+  pullTheme(themeId: string, themePath: string): Promise<void>;
+
+  /**
+   * Upload files from a directory to a theme
+   * @returns ID of the pushed theme
+   */
+  pushTheme(themeId: string, themePath: string, options?: ThemeBackendPushOptions): Promise<string>;
+
+  listAssets(themeId: string): Promise<ThemeAsset[]>;
+  getAsset(themeId: string, key: string): Promise<Buffer>;
+  putAsset(themeId: string, key: string, content: Buffer | string): Promise<void>;
+  deleteAsset(themeId: string, key: string): Promise<void>;
+}
+
+/**
+ * Throw unless a value is a theme asset key that stays inside a theme directory
+ * @param key - Asset key such as "templates/index.json"
+ * @throws Error if the key is invalid
+ */
+export function assertValidAssetKey(key: unknown): asserts key is string {
+  const valid = typeof key === 'string'
+    && /^[a-z_]+\/[^\0\\]+$/.test(key)
+    && !key.split('/').some((segment) => segment === '..' || segment === '.' || segment === '');
+
+  if (!valid) {
+    throw new Error(`Invalid asset key: ${String(key).substring(0, 100)}`);
+  }
+}
+
+/**
+ * Resolve the local path of an asset inside a theme directory
+ * @param themePath - Theme directory
+ * @param key - Asset key
+ * @returns Absolute file path
+ */
+export function resolveAssetPath(themePath: string, key: string): string {
+  assertValidAssetKey(key);
+  return path.join(path.resolve(themePath), ...key.split('/'));
+}
+
+/**
+ * Match an asset key against a CLI-style glob ("sections/*.liquid", "assets/**")
+ * @param key - Asset key
+ * @param pattern - Glob pattern; `*` stays within a folder, `**` crosses folders
+ */
+export function matchesAssetPattern(key: string, pattern: string): boolean {
+  const source = pattern
+    .split(/(\*\*|\*|\?)/)
+    .map((part) => {
+      if (part === '**') return '.*';
+      if (part === '*') return '[^/]*';
+      if (part === '?') return '[^/]';
+      return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  return new RegExp(`^${source}$`).test(key);
+}
+
+/**
+ * Whether an asset is selected by push filters
+ * @param key - Asset key
+ * @param options - Push options with only/ignore patterns
+ */
+export function isAssetSelected(key: string, options: ThemeBackendPushOptions = {}): boolean {
+  const { only = [], ignore = [] } = options;
+
+  if (only.length > 0 && !only.some((pattern) => matchesAssetPattern(key, pattern))) {
+    return false;
+  }
+
+  return !ignore.some((pattern) => matchesAssetPattern(key, pattern));
+}
+
+/**
+ * List the asset keys of a local theme directory.
+ * Theme files always live in a folder, so loose top-level files are skipped.
+ * @param themePath - Theme directory
+ * @param prefix - Folder inside the theme to list (used for recursion)
+ * @returns Asset keys such as "sections/header.liquid"
+ */
+export async function listLocalAssetKeys(themePath: string, prefix: string = ''): Promise<string[]> {
+  const entries = await fs.readdir(path.join(themePath, prefix), { withFileTypes: true });
+  const keys: string[] = [];
+
+  for (const entry of entries) {
+    if (!prefix && LOCAL_ONLY_ENTRIES.has(entry.name)) {
+      continue;
+    }
+
+    const key = prefix ? `${prefix}/${entry.name}` : entry.name;
+
+    if (entry.isDirectory()) {
+      keys.push(...await listLocalAssetKeys(themePath, key));
+    } else if (entry.isFile() && prefix) {
+      keys.push(key);
+    }
+  }
+
+  return keys;
+}
@@ -0,0 +1,142 @@
+import logger from '../utils/logger';
+import type { ThemeBackend, ThemeStatus } from './theme-backend';
+
+/**
+ * Progress of a duplicated theme becoming ready
+ */
+export interface ThemeReadinessProgress {
+  themeId: string;
+  sourceThemeId: string;
+  progress: number;           // 0-100
+  processing: boolean;
+  assetCount?: number;
+  sourceAssetCount?: number;
+  attempt: number;
+  elapsedMs: number;
+  ready: boolean;
+}
+
+export interface ThemeReadinessOptions {
+  timeoutMs: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  minWaitMs: number;          // Wait at least this long when the backend cannot count files
+}
+
+/**
+ * ThemeReadinessPoller: Waits for a duplicated theme to finish processing.
+ * A theme is ready once Shopify no longer reports it as processing and,
+ * where the backend can count files, it has as many files as its source.
+ * Backends that cannot count files (the CLI) only see the theme appear in
+ * the theme list, so the copy is not considered ready before a minimum wait.
+ * Polls with exponential backoff until ready or timed out.
+ */
+export class ThemeReadinessPoller {
+  private readonly backend: ThemeBackend;
+  private readonly options: ThemeReadinessOptions;
+
+  /**
+   * @param backend - Theme backend to query
+   * @param options - Timeout and backoff delays
+   */
+  constructor(backend: ThemeBackend, options: ThemeReadinessOptions) {
+    this.backend = backend;
+    this.options = options;
+  }
+
+  /**
+   * Wait until a duplicated theme is ready
+   * @param sourceThemeId - Theme that was duplicated
+   * @param themeId - The duplicate
+   * @param onProgress - Called after every poll (optional)
+   * @returns Final progress
+   * @throws Error if the theme is not ready within the timeout
+   */
+  async waitForDuplicate(
+    sourceThemeId: string,
+    themeId: string,
+    onProgress?: (progress: ThemeReadinessProgress) => void | Promise<void>
+  ): Promise<ThemeReadinessProgress> {
+    const startedAt = Date.now();
+    const source = await this.backend.getThemeStatus(sourceThemeId);
+    let delay = this.options.initialDelayMs;
+
+    for (let attempt = 1; ; attempt++) {
+      let status: ThemeStatus | null = null;
+
+      try {
+        status = await this.backend.getThemeStatus(themeId);
+      } catch (error: any) {
+        // A freshly duplicated theme may not be queryable yet; keep polling until the timeout
+        logger.warn(`Error checking theme ${themeId} status: ${error.message}`);
+      }
+
+      if (status) {
+        const elapsedMs = Date.now() - startedAt;
+        const countable = status.assetCount !== undefined && source.assetCount !== undefined;
+        const countsMatch = countable
+          ? status.assetCount! >= source.assetCount!
+          : elapsedMs >= this.options.minWaitMs;
+        const ready = !status.processing && countsMatch;
+
+        const progress: ThemeReadinessProgress = {
+          themeId,
+          sourceThemeId,
+          progress: ready
+            ? 100
+            : countable
+              ? this.estimateProgress(status.assetCount, source.assetCount)
+              : Math.min(99, Math.floor((elapsedMs / Math.max(this.options.minWaitMs, 1)) * 100)),
+          processing: status.processing,
+          assetCount: status.assetCount,
+          sourceAssetCount: source.assetCount,
+          attempt,
+          elapsedMs,
+          ready,
+        };
+
+        logger.info(`Theme ${themeId} duplication ${progress.progress}%`, {
+          processing: status.processing,
+          assetCount: status.assetCount,
+          sourceAssetCount: source.assetCount,
+        });
+
+        if (onProgress) {
+          await onProgress(progress);
+        }
+
+        if (ready) {
+          return progress;
+        }
+      }
+
+      const remaining = this.options.timeoutMs - (Date.now() - startedAt);
+      if (remaining <= 0) {
+        const counts = status?.assetCount !== undefined && source.assetCount !== undefined
+          ? ` (${status.assetCount}/${source.assetCount} files)`
+          : '';
+        throw new Error(`Theme ${themeId} was not ready after ${Math.round(this.options.timeoutMs / 1000)}s${counts}`);
+      }
+
+      // Check again as soon as the minimum wait is over rather than after a long backoff
+      const untilMinWait = this.options.minWaitMs - (Date.now() - startedAt);
+      const nextDelay = untilMinWait > 0 ? Math.min(delay, untilMinWait) : delay;
+
+      await new Promise((resolve) => setTimeout(resolve, Math.min(nextDelay, remaining)));
+      delay = Math.min(delay * 2, this.options.maxDelayMs);
+    }
+  }
+
+  /**
+   * Share of the source's files already present, capped below 100 until ready
+   */
+  private estimateProgress(assetCount?: number, sourceAssetCount?: number): number {
+    if (assetCount === undefined || !sourceAssetCount) {
+      return 0;
+    }
+
+    return Math.min(99, Math.floor((assetCount / sourceAssetCount) * 100));
+  }
+}
+
+export default ThemeReadinessPoller;
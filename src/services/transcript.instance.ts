@@ -0,0 +1,7 @@
+import TranscriptStore from './transcript.store';
+import { config } from '../config/environment';
+
+// Shared TranscriptStore instance: chat history of every environment.
+const transcriptStore = new TranscriptStore(config.TRANSCRIPT_STORE_PATH);
+
+export default transcriptStore;
@@ -0,0 +1,258 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import logger from '../utils/logger';
+
+export type TranscriptTurnStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type TranscriptTurnMode = 'chat' | 'chat.streaming';
+
+/**
+ * One prompt sent to an environment and what came back
+ */
+export interface TranscriptTurn {
+  turnId: string;         // Job ID of the chat request
+  envId: string;
+  mode: TranscriptTurnMode;
+  prompt: string;
+  model?: string;
+  status: TranscriptTurnStatus;
+  finalResponse?: string;
+  items?: any[];          // Completed Codex items (messages, commands, file changes, ...)
+  usage?: any;
+  error?: string;
+  commit?: string;        // Theme snapshot after the turn
+  createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+export interface TranscriptPage {
+  turns: TranscriptTurn[];
+  total: number;
+}
+
+interface TranscriptData {
+  envId: string;
+  turns: TranscriptTurn[];
+}
+
+interface TranscriptFile {
+  dataPromise: Promise<TranscriptData>;
+  writeChain: Promise<void>;
+}
+
+/**
+ * TranscriptStore: Chat history per environment, one JSON file each,
+ * so a UI can show earlier turns after a reload or server restart.
+ * Writes are serialized per file and go through a temporary file.
+ */
+export class TranscriptStore {
+  private readonly directory: string;
+  private files: Map<string, TranscriptFile>;
+
+  /**
+   * @param directory - Directory holding one <envId>.json file per environment
+   */
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+    this.files = new Map();
+  }
+
+  private getFilePath(envId: string): string {
+    return path.join(this.directory, `${encodeURIComponent(envId)}.json`);
+  }
+
+  private async load(envId: string): Promise<TranscriptData> {
+    const filePath = this.getFilePath(envId);
+
+    let content: string;
+
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return { envId, turns: [] };
+      }
+      // Starting empty would overwrite the transcript with the next turn
+      throw new Error(`Error reading transcript ${filePath}: ${error.message}`);
+    }
+
+    try {
+      const parsed = JSON.parse(content);
+      return { envId, turns: parsed.turns || [] };
+    } catch (error: any) {
+      const backupPath = `${filePath}.corrupt-${Date.now()}`;
+      await fs.rename(filePath, backupPath);
+
+      logger.error(`Transcript ${filePath} is unreadable (${error.message}); moved it to ${backupPath} and started empty`);
+      return { envId, turns: [] };
+    }
+  }
+
+  private getFile(envId: string): TranscriptFile {
+    let file = this.files.get(envId);
+
+    if (!file) {
+      const created: TranscriptFile = {
+        dataPromise: this.load(envId).catch((error) => {
+          // Try again on the next call
+          if (this.files.get(envId) === created) {
+            this.files.delete(envId);
+          }
+          throw error;
+        }),
+        writeChain: Promise.resolve()
+      };
+      file = created;
+      this.files.set(envId, file);
+    }
+    return file;
+  }
+
+  private persist(envId: string): Promise<void> {
+    const file = this.getFile(envId);
+    const filePath = this.getFilePath(envId);
+
+    file.writeChain = file.writeChain.then(async () => {
+      const tmpPath = `${filePath}.tmp`;
+
+      try {
+        const data = await file.dataPromise;
+        await fs.mkdir(this.directory, { recursive: true });
+        await fs.writeFile(tmpPath, JSON.stringify(data), 'utf-8');
+        await fs.rename(tmpPath, filePath);
+      } catch (error: any) {
+        logger.error(`Error writing transcript ${filePath}: ${error.message}`);
+      }
+    });
+
+    return file.writeChain;
+  }
+
+  /**
+   * Record a new turn, usually while it is still queued
+   * @param turn - Turn without timestamps
+   * @returns The stored turn
+   */
+  async addTurn(turn: Omit<TranscriptTurn, 'createdAt'>): Promise<TranscriptTurn> {
+    const data = await this.getFile(turn.envId).dataPromise;
+    const record: TranscriptTurn = { ...turn, createdAt: new Date().toISOString() };
+
+    data.turns.push(record);
+    await this.persist(turn.envId);
+    return record;
+  }
+
+  /**
+   * Update a recorded turn. Finished statuses also set completedAt,
+   * running sets startedAt.
+   * @param envId - Environment ID
+   * @param turnId - Turn ID
+   * @param update - Fields to change
+   * @returns The updated turn, or undefined if not found
+   */
+  async updateTurn(
+    envId: string,
+    turnId: string,
+    update: Partial<Omit<TranscriptTurn, 'turnId' | 'envId' | 'createdAt'>>
+  ): Promise<TranscriptTurn | undefined> {
+    const data = await this.getFile(envId).dataPromise;
+    const turn = data.turns.find((entry) => entry.turnId === turnId);
+
+    if (!turn) {
+      return undefined;
+    }
+
+    Object.assign(turn, update);
+
+    if (update.status === 'running' && !turn.startedAt) {
+      turn.startedAt = new Date().toISOString();
+    } else if (update.status && update.status !== 'queued' && update.status !== 'running' && !turn.completedAt) {
+      turn.completedAt = new Date().toISOString();
+    }
+
+    await this.persist(envId);
+    return turn;
+  }
+
+  /**
+   * Turns of an environment, oldest first
+   * @param envId - Environment ID
+   * @param options - Page offset and size (default: all turns)
+   */
+  async listTurns(envId: string, options: { offset?: number; limit?: number } = {}): Promise<TranscriptPage> {
+    const data = await this.getFile(envId).dataPromise;
+    const offset = options.offset || 0;
+    const end = options.limit !== undefined ? offset + options.limit : undefined;
+
+    return {
+      turns: data.turns.slice(offset, end),
+      total: data.turns.length,
+    };
+  }
+}
+
+/**
+ * Render turns as a Markdown document
+ * @param envId - Environment ID (used as title)
+ * @param turns - Turns, oldest first
+ */
+export function formatTranscriptMarkdown(envId: string, turns: TranscriptTurn[]): string {
+  const lines: string[] = [`# Transcript: ${envId}`, ''];
+
+  turns.forEach((turn, index) => {
+    lines.push(`## Turn ${index + 1} (${turn.status})`, '');
+    lines.push(`- Sent: ${turn.createdAt}`);
+    if (turn.startedAt) {
+      lines.push(`- Started: ${turn.startedAt}`);
+    }
+    if (turn.completedAt) {
+      lines.push(`- Completed: ${turn.completedAt}`);
+    }
+    if (turn.model) {
+      lines.push(`- Model: ${turn.model}`);
+    }
+    if (turn.commit) {
+      lines.push(`- Commit: ${turn.commit}`);
+    }
+    if (turn.usage) {
+      lines.push(`- Tokens: ${turn.usage.input_tokens ?? 0} in, ${turn.usage.output_tokens ?? 0} out`);
+    }
+    lines.push('', '### Prompt', '', ...turn.prompt.split('\n').map((line) => `> ${line}`), '');
+
+    const actions = (turn.items || [])
+      .map((item) => {
+        switch (item?.type) {
+          case 'command_execution':
+            return `- Ran \`${item.command}\`${item.exit_code !== undefined ? ` (exit ${item.exit_code})` : ''}`;
+          case 'file_change':
+            return (item.changes || []).map((change: any) => `- ${change.kind}: \`${change.path}\``).join('\n');
+          case 'web_search':
+            return `- Searched: ${item.query}`;
+          case 'mcp_tool_call':
+            return `- Called ${item.server}/${item.tool}`;
+          case 'error':
+            return `- Error: ${item.message}`;
+          default:
+            return '';
+        }
+      })
+      .filter(Boolean);
+
+    if (actions.length > 0) {
+      lines.push('### Actions', '', ...actions, '');
+    }
+
+    if (turn.finalResponse) {
+      lines.push('### Response', '', turn.finalResponse, '');
+    }
+
+    if (turn.error) {
+      lines.push('### Error', '', turn.error, '');
+    }
+  });
+
+  return lines.join('\n');
+}
+
+export default TranscriptStore;
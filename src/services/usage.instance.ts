@@ -0,0 +1,14 @@
+import UsageTracker, { loadModelPrices } from './usage.tracker';
+import { config } from '../config/environment';
+
+// Shared UsageTracker instance: token usage, costs and session budgets of all chats.
+const usageTracker = new UsageTracker({
+  storePath: config.USAGE_STORE_PATH,
+  prices: config.MODEL_PRICES_PATH ? loadModelPrices(config.MODEL_PRICES_PATH) : {},
+  defaultBudget: {
+    maxCostUsd: config.SESSION_BUDGET_USD,
+    maxTokens: config.SESSION_BUDGET_TOKENS,
+  },
+});
+
+export default usageTracker;
@@ -0,0 +1,375 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { readFileSync } from 'fs';
+import logger from '../utils/logger';
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  cachedInput?: number; // Defaults to the input price
+  output: number;
+}
+
+/**
+ * Token usage as reported by Codex for a turn
+ */
+export interface CodexUsage {
+  input_tokens?: number;
+  cached_input_tokens?: number; // Part of input_tokens served from the cache
+  output_tokens?: number;
+}
+
+/**
+ * Usage of one completed turn
+ */
+export interface UsageRecord {
+  turnId: string;
+  envId: string;
+  sessionId: string;
+  model: string;
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+  costUsd: number | null; // null when the model has no price
+  recordedAt: string;
+}
+
+export interface UsageTotals {
+  turns: number;
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  unpricedTurns: number; // Turns whose model has no price (not included in costUsd)
+}
+
+export interface UsageFilter {
+  envId?: string;
+  sessionId?: string;
+  model?: string;
+  since?: Date;
+}
+
+export interface UsageSummary {
+  totals: UsageTotals;
+  byEnv: Record<string, UsageTotals>;
+  bySession: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+}
+
+/**
+ * Spending limit of a session; a limit that is not set is not enforced
+ */
+export interface SessionBudget {
+  maxCostUsd?: number;
+  maxTokens?: number;
+}
+
+export interface SessionBudgetStatus {
+  sessionId: string;
+  budget: SessionBudget;
+  custom: boolean; // Set for this session rather than the default budget
+  spentCostUsd: number;
+  spentTokens: number;
+  exceeded: boolean;
+}
+
+/**
+ * Thrown when a session has used up its budget
+ */
+export class BudgetExceededError extends Error {
+  constructor(public readonly status: SessionBudgetStatus) {
+    super(`Budget of session ${status.sessionId} is exceeded`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export interface UsageTrackerOptions {
+  storePath: string;
+  prices: Record<string, ModelPrice>;
+  defaultBudget: SessionBudget;
+}
+
+interface UsageData {
+  turns: UsageRecord[];
+  budgets: Record<string, SessionBudget>; // sessionId -> budget overriding the default
+}
+
+/**
+ * Read a price table file: {"<model>": {"input": 1.25, "cached_input": 0.125, "output": 10}}
+ * @param pricesPath - JSON file
+ * @returns Prices by model
+ * @throws Error if the file is invalid
+ */
+export function loadModelPrices(pricesPath: string): Record<string, ModelPrice> {
+  const filePath = path.resolve(pricesPath);
+  const entries = JSON.parse(readFileSync(filePath, 'utf-8'));
+  const prices: Record<string, ModelPrice> = {};
+
+  if (typeof entries !== 'object' || entries === null || Array.isArray(entries)) {
+    throw new Error(`${filePath} must contain an object of model prices`);
+  }
+
+  for (const [model, entry] of Object.entries<any>(entries)) {
+    if (typeof entry?.input !== 'number' || typeof entry?.output !== 'number') {
+      throw new Error(`Invalid price for ${model} in ${filePath}: input and output are required`);
+    }
+
+    prices[model] = {
+      input: entry.input,
+      cachedInput: typeof entry.cached_input === 'number' ? entry.cached_input : undefined,
+      output: entry.output,
+    };
+  }
+
+  return prices;
+}
+
+function emptyTotals(): UsageTotals {
+  return { turns: 0, inputTokens: 0, cachedInputTokens: 0, outputTokens: 0, totalTokens: 0, costUsd: 0, unpricedTurns: 0 };
+}
+
+function addToTotals(totals: UsageTotals, record: UsageRecord): void {
+  totals.turns++;
+  totals.inputTokens += record.inputTokens;
+  totals.cachedInputTokens += record.cachedInputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.totalTokens += record.inputTokens + record.outputTokens;
+
+  if (record.costUsd === null) {
+    totals.unpricedTurns++;
+  } else {
+    totals.costUsd += record.costUsd;
+  }
+}
+
+/**
+ * UsageTracker: Records the token usage of every chat turn with its cost
+ * from a per-model price table, aggregates it per environment, session and
+ * model, and enforces optional per-session budgets.
+ * Usage and budget overrides are kept in a JSON file; an unreadable file is
+ * moved aside rather than overwritten.
+ */
+export class UsageTracker {
+  private readonly filePath: string;
+  private readonly prices: Record<string, ModelPrice>;
+  private readonly defaultBudget: SessionBudget;
+  private dataPromise?: Promise<UsageData>;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  /**
+   * @param options - Store file, price table and default session budget
+   */
+  constructor(options: UsageTrackerOptions) {
+    this.filePath = path.resolve(options.storePath);
+    this.prices = options.prices;
+    this.defaultBudget = options.defaultBudget;
+  }
+
+  private async load(): Promise<UsageData> {
+    let content: string;
+
+    try {
+      content = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return { turns: [], budgets: {} };
+      }
+      // Starting empty would overwrite the recorded usage with the next turn
+      throw new Error(`Error reading usage store ${this.filePath}: ${error.message}`);
+    }
+
+    try {
+      const parsed = JSON.parse(content);
+      return { turns: parsed.turns || [], budgets: parsed.budgets || {} };
+    } catch (error: any) {
+      const backupPath = `${this.filePath}.corrupt-${Date.now()}`;
+      await fs.rename(this.filePath, backupPath);
+
+      logger.error(`Usage store ${this.filePath} is unreadable (${error.message}); moved it to ${backupPath} and started empty`);
+      return { turns: [], budgets: {} };
+    }
+  }
+
+  private getData(): Promise<UsageData> {
+    if (!this.dataPromise) {
+      this.dataPromise = this.load().catch((error) => {
+        // Try again on the next call
+        this.dataPromise = undefined;
+        throw error;
+      });
+    }
+    return this.dataPromise;
+  }
+
+  private persist(): Promise<void> {
+    this.writeChain = this.writeChain.then(async () => {
+      const tmpPath = `${this.filePath}.tmp`;
+
+      try {
+        const data = await this.getData();
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(tmpPath, JSON.stringify(data), 'utf-8');
+        await fs.rename(tmpPath, this.filePath);
+      } catch (error: any) {
+        logger.error(`Error writing usage store ${this.filePath}: ${error.message}`);
+      }
+    });
+
+    return this.writeChain;
+  }
+
+  /**
+   * Cost of a turn in USD. Cached input tokens are billed at the cached price.
+   * @param model - Model the turn ran on
+   * @param usage - Codex usage
+   * @returns Cost, or null if the model has no price
+   */
+  getCost(model: string, usage: CodexUsage): number | null {
+    const price = this.prices[model];
+
+    if (!price) {
+      return null;
+    }
+
+    const input = usage.input_tokens || 0;
+    const cached = Math.min(usage.cached_input_tokens || 0, input);
+    const cost = (input - cached) * price.input
+      + cached * (price.cachedInput ?? price.input)
+      + (usage.output_tokens || 0) * price.output;
+
+    return cost / 1_000_000;
+  }
+
+  /**
+   * Record the usage of a completed turn
+   * @param turn - Turn, session and model
+   * @param usage - Codex usage
+   * @returns The stored record
+   */
+  async record(
+    turn: { turnId: string; envId: string; sessionId: string; model: string },
+    usage: CodexUsage
+  ): Promise<UsageRecord> {
+    const data = await this.getData();
+    const record: UsageRecord = {
+      ...turn,
+      inputTokens: usage.input_tokens || 0,
+      cachedInputTokens: usage.cached_input_tokens || 0,
+      outputTokens: usage.output_tokens || 0,
+      costUsd: this.getCost(turn.model, usage),
+      recordedAt: new Date().toISOString(),
+    };
+
+    data.turns.push(record);
+    await this.persist();
+
+    logger.info('Recorded turn usage', {
+      envId: turn.envId,
+      sessionId: turn.sessionId,
+      model: turn.model,
+      tokens: record.inputTokens + record.outputTokens,
+      costUsd: record.costUsd,
+    });
+    return record;
+  }
+
+  private matches(record: UsageRecord, filter: UsageFilter): boolean {
+    return (!filter.envId || record.envId === filter.envId)
+      && (!filter.sessionId || record.sessionId === filter.sessionId)
+      && (!filter.model || record.model === filter.model)
+      && (!filter.since || Date.parse(record.recordedAt) >= filter.since.getTime());
+  }
+
+  /**
+   * Usage records matching a filter, newest first
+   * @param filter - Environment, session, model and start time (all optional)
+   * @param limit - Maximum number of records
+   */
+  async listTurns(filter: UsageFilter = {}, limit: number = 50): Promise<UsageRecord[]> {
+    const data = await this.getData();
+    return data.turns.filter((record) => this.matches(record, filter)).reverse().slice(0, limit);
+  }
+
+  /**
+   * Totals matching a filter, overall and per environment, session and model
+   * @param filter - Environment, session, model and start time (all optional)
+   */
+  async summarize(filter: UsageFilter = {}): Promise<UsageSummary> {
+    const data = await this.getData();
+    const summary: UsageSummary = { totals: emptyTotals(), byEnv: {}, bySession: {}, byModel: {} };
+
+    for (const record of data.turns) {
+      if (!this.matches(record, filter)) {
+        continue;
+      }
+
+      addToTotals(summary.totals, record);
+      addToTotals(summary.byEnv[record.envId] ??= emptyTotals(), record);
+      addToTotals(summary.bySession[record.sessionId] ??= emptyTotals(), record);
+      addToTotals(summary.byModel[record.model] ??= emptyTotals(), record);
+    }
+
+    return summary;
+  }
+
+  /**
+   * Budget of a session and how much of it is spent
+   * @param sessionId - Session ID
+   */
+  async getBudgetStatus(sessionId: string): Promise<SessionBudgetStatus> {
+    const data = await this.getData();
+    const custom = data.budgets[sessionId];
+    const budget = custom || this.defaultBudget;
+    const { totals } = await this.summarize({ sessionId });
+
+    const exceeded = (budget.maxCostUsd !== undefined && totals.costUsd >= budget.maxCostUsd)
+      || (budget.maxTokens !== undefined && totals.totalTokens >= budget.maxTokens);
+
+    return {
+      sessionId,
+      budget,
+      custom: custom !== undefined,
+      spentCostUsd: totals.costUsd,
+      spentTokens: totals.totalTokens,
+      exceeded,
+    };
+  }
+
+  /**
+   * Check a session's budget right before a turn runs. Turns queued behind
+   * others were accepted on the spending at that time, so they are checked again.
+   * @param sessionId - Session ID
+   * @throws BudgetExceededError if the budget is used up
+   */
+  async assertWithinBudget(sessionId: string): Promise<void> {
+    const status = await this.getBudgetStatus(sessionId);
+
+    if (status.exceeded) {
+      throw new BudgetExceededError(status);
+    }
+  }
+
+  /**
+   * Set a session's budget, or go back to the default budget
+   * @param sessionId - Session ID
+   * @param budget - New limits, or null to remove the session's own budget
+   */
+  async setBudget(sessionId: string, budget: SessionBudget | null): Promise<SessionBudgetStatus> {
+    const data = await this.getData();
+
+    if (budget) {
+      data.budgets[sessionId] = budget;
+    } else {
+      delete data.budgets[sessionId];
+    }
+
+    await this.persist();
+    return this.getBudgetStatus(sessionId);
+  }
+}
+
+export default UsageTracker;
@@ -0,0 +1,15 @@
+import WebhookDispatcher from './webhook.dispatcher';
+import { config } from '../config/environment';
+
+// Shared WebhookDispatcher instance so all webhooks go through one outbox.
+const webhookDispatcher = new WebhookDispatcher({
+  outboxPath: config.WEBHOOK_OUTBOX_PATH,
+  signingSecret: config.WEBHOOK_SIGNING_SECRET,
+  maxAttempts: config.WEBHOOK_MAX_ATTEMPTS,
+  retryBaseDelayMs: config.WEBHOOK_RETRY_BASE_SECONDS * 1000,
+  retryMaxDelayMs: config.WEBHOOK_RETRY_MAX_SECONDS * 1000,
+  maxDeadLetters: config.WEBHOOK_DEAD_LETTER_MAX,
+  deadLetterTtlMs: config.WEBHOOK_DEAD_LETTER_TTL_DAYS * 24 * 60 * 60 * 1000,
+});
+
+export default webhookDispatcher;
@@ -0,0 +1,451 @@
+import axios from 'axios';
+import { createHmac, randomUUID } from 'crypto';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import logger from '../utils/logger';
+import { BasicAuthService } from './auth.service';
+
+const REQUEST_TIMEOUT_MS = 10000;
+const COMPACT_MIN_RECORDS = 1000; // Rewrite the outbox once it holds this many records and twice as many as live deliveries
+
+/**
+ * A webhook waiting for delivery, or given up on (dead letter)
+ */
+export interface WebhookDelivery {
+  id: string;
+  url: string;
+  payload: unknown;
+  idempotencyKey: string;
+  orderingKey?: string;   // Deliveries sharing a key are sent one after another, in dispatch order
+  attempts: number;
+  createdAt: string;
+  nextAttemptAt?: string; // Pending deliveries only
+  lastAttemptAt?: string;
+  lastStatus?: number;    // HTTP status of the last attempt, if the receiver answered
+  lastError?: string;
+  deadAt?: string;        // Dead letters only
+}
+
+export interface WebhookDispatchOptions {
+  idempotencyKey?: string; // Stable key so receivers can drop duplicates (default: the delivery ID)
+  orderingKey?: string;    // Hold this delivery until earlier ones with the same key are delivered or dead
+}
+
+export interface WebhookDispatcherOptions {
+  outboxPath: string;
+  signingSecret: string;
+  maxAttempts: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  maxDeadLetters: number;   // Oldest dead letters beyond this are dropped
+  deadLetterTtlMs: number;  // Dead letters older than this are dropped
+}
+
+interface OutboxData {
+  pending: Record<string, WebhookDelivery>;
+  deadLetter: Record<string, WebhookDelivery>;
+}
+
+/**
+ * One line of the outbox file: the current state of a delivery, or its removal
+ */
+type OutboxRecord =
+  | { op: 'pending' | 'dead'; delivery: WebhookDelivery }
+  | { op: 'remove'; id: string };
+
+/**
+ * WebhookDispatcher: Delivers webhooks at least once.
+ * Every webhook is written to an on-disk outbox before it is sent and
+ * retried with exponential backoff until the receiver accepts it; after
+ * the last attempt (or a non-retryable 4xx) it moves to the dead-letter
+ * list, from where it can be replayed until it expires or is pushed out by
+ * newer ones. The outbox is an append-only JSON Lines file with one record
+ * per change, compacted once it is mostly stale. Requests carry Basic Auth plus an
+ * HMAC-SHA256 signature over "<timestamp>.<body>" and an idempotency key.
+ * Deliveries with an ordering key are sent strictly in sequence, so a
+ * retried webhook never arrives after a later one.
+ */
+export class WebhookDispatcher {
+  private readonly authService: BasicAuthService;
+  private readonly options: WebhookDispatcherOptions;
+  private readonly filePath: string;
+  private dataPromise?: Promise<OutboxData>;
+  private writeChain: Promise<void> = Promise.resolve();
+  private recordCount = 0; // Lines in the outbox file
+  private timers: Map<string, NodeJS.Timeout>;
+  private orderedQueues: Map<string, WebhookDelivery[]>; // orderingKey -> deliveries, head is in flight
+
+  /**
+   * @param options - Outbox file, signing secret and retry policy
+   */
+  constructor(options: WebhookDispatcherOptions) {
+    this.authService = new BasicAuthService();
+    this.options = options;
+    this.filePath = path.resolve(options.outboxPath);
+    this.timers = new Map();
+    this.orderedQueues = new Map();
+  }
+
+  private async load(): Promise<OutboxData> {
+    const data: OutboxData = { pending: {}, deadLetter: {} };
+    let content: string;
+
+    try {
+      content = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        logger.error(`Error reading webhook outbox ${this.filePath}: ${error.message}`);
+      }
+      return data;
+    }
+
+    const lines = content.split('\n').filter((line) => line.trim());
+
+    for (const [index, line] of lines.entries()) {
+      let record: any;
+
+      try {
+        record = JSON.parse(line);
+      } catch {
+        // Usually the last line, cut short by a crash while appending
+        logger.warn(`Skipping unreadable line ${index + 1} of webhook outbox ${this.filePath}`);
+        continue;
+      }
+
+      if (record.op === 'pending' || record.op === 'dead') {
+        const [target, other] = record.op === 'pending' ? [data.pending, data.deadLetter] : [data.deadLetter, data.pending];
+        delete other[record.delivery.id];
+        target[record.delivery.id] = record.delivery;
+      } else if (record.op === 'remove') {
+        delete data.pending[record.id];
+        delete data.deadLetter[record.id];
+      } else if (record.pending || record.deadLetter) {
+        // Snapshot written by earlier versions, which rewrote the whole outbox
+        Object.assign(data.pending, record.pending);
+        Object.assign(data.deadLetter, record.deadLetter);
+      }
+    }
+
+    this.recordCount = lines.length;
+    return data;
+  }
+
+  private getData(): Promise<OutboxData> {
+    if (!this.dataPromise) {
+      this.dataPromise = this.load().then((data) => {
+        this.pruneDeadLetters(data);
+        return data;
+      });
+    }
+    return this.dataPromise;
+  }
+
+  /**
+   * Append records to the outbox, compacting it when most records are stale
+   */
+  private record(...records: OutboxRecord[]): Promise<void> {
+    // Serialized now, as deliveries keep changing while the write waits its turn
+    const lines = records.map((record) => `${JSON.stringify(record)}\n`).join('');
+
+    this.writeChain = this.writeChain.then(async () => {
+      try {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.appendFile(this.filePath, lines, 'utf-8');
+        this.recordCount += records.length;
+
+        const data = await this.getData();
+        const live = Object.keys(data.pending).length + Object.keys(data.deadLetter).length;
+
+        if (this.recordCount >= COMPACT_MIN_RECORDS && this.recordCount >= live * 2) {
+          await this.compact(data);
+        }
+      } catch (error: any) {
+        logger.error(`Error writing webhook outbox ${this.filePath}: ${error.message}`);
+      }
+    });
+
+    return this.writeChain;
+  }
+
+  /**
+   * Rewrite the outbox with one record per live delivery
+   */
+  private async compact(data: OutboxData): Promise<void> {
+    const records: OutboxRecord[] = [
+      ...Object.values(data.pending).map((delivery) => ({ op: 'pending' as const, delivery })),
+      ...Object.values(data.deadLetter).map((delivery) => ({ op: 'dead' as const, delivery })),
+    ];
+    const tmpPath = `${this.filePath}.tmp`;
+
+    await fs.writeFile(tmpPath, records.map((record) => `${JSON.stringify(record)}\n`).join(''), 'utf-8');
+    await fs.rename(tmpPath, this.filePath);
+    this.recordCount = records.length;
+  }
+
+  /**
+   * Drop expired dead letters and the oldest ones beyond the cap
+   */
+  private pruneDeadLetters(data: OutboxData): Promise<void> {
+    const cutoff = new Date(Date.now() - this.options.deadLetterTtlMs).toISOString();
+    const newestFirst = Object.values(data.deadLetter).sort((a, b) => (b.deadAt || '').localeCompare(a.deadAt || ''));
+    const dropped = newestFirst.filter(
+      (delivery, index) => index >= this.options.maxDeadLetters || (delivery.deadAt || '') < cutoff
+    );
+
+    if (dropped.length === 0) {
+      return Promise.resolve();
+    }
+
+    for (const delivery of dropped) {
+      delete data.deadLetter[delivery.id];
+    }
+    logger.info(`Dropped ${dropped.length} expired or excess dead-letter webhooks`);
+
+    return this.record(...dropped.map((delivery) => ({ op: 'remove' as const, id: delivery.id })));
+  }
+
+  /**
+   * Schedule the deliveries left in the outbox by a previous run
+   * @returns Number of pending deliveries
+   */
+  async restore(): Promise<number> {
+    const data = await this.getData();
+    const pending = Object.values(data.pending);
+
+    // Outbox entries keep their insertion (= dispatch) order
+    for (const delivery of pending) {
+      this.enqueueOrdered(delivery);
+    }
+
+    for (const delivery of pending) {
+      const delay = delivery.nextAttemptAt ? Date.parse(delivery.nextAttemptAt) - Date.now() : 0;
+      this.schedule(delivery, Math.max(delay, 0));
+    }
+
+    if (pending.length > 0) {
+      logger.info(`Restored ${pending.length} pending webhook deliveries`);
+    }
+    return pending.length;
+  }
+
+  /**
+   * Send a webhook. The first attempt is awaited (unless an earlier delivery
+   * with the same ordering key is still pending); failures are retried in
+   * the background, so this never throws for delivery errors.
+   * @param url - Receiver URL
+   * @param payload - JSON payload
+   * @param options - Idempotency and ordering keys (optional)
+   * @returns The delivery, with attempts/lastStatus of the first attempt
+   */
+  async dispatch(url: string, payload: unknown, options: WebhookDispatchOptions = {}): Promise<WebhookDelivery> {
+    const id = randomUUID();
+    const delivery: WebhookDelivery = {
+      id,
+      url,
+      payload,
+      idempotencyKey: options.idempotencyKey || id,
+      orderingKey: options.orderingKey,
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+      nextAttemptAt: new Date().toISOString(),
+    };
+
+    const data = await this.getData();
+    data.pending[id] = delivery;
+    this.enqueueOrdered(delivery);
+    await this.record({ op: 'pending', delivery });
+
+    await this.attempt(delivery);
+    return delivery;
+  }
+
+  /**
+   * List deliveries that were given up on, newest first
+   */
+  async listDeadLetters(): Promise<WebhookDelivery[]> {
+    const data = await this.getData();
+    return Object.values(data.deadLetter).sort((a, b) => (b.deadAt || '').localeCompare(a.deadAt || ''));
+  }
+
+  /**
+   * List deliveries still waiting for a (re)try, oldest first
+   */
+  async listPending(): Promise<WebhookDelivery[]> {
+    const data = await this.getData();
+    return Object.values(data.pending).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Move a dead letter back into the outbox and send it again with a fresh retry budget.
+   * The idempotency key is kept so receivers can recognise a replayed webhook.
+   * @param id - Delivery ID
+   * @returns The delivery after the first replay attempt, or undefined if not found
+   */
+  async replay(id: string): Promise<WebhookDelivery | undefined> {
+    const data = await this.getData();
+    const delivery = data.deadLetter[id];
+
+    if (!delivery) {
+      return undefined;
+    }
+
+    delete data.deadLetter[id];
+    delivery.attempts = 0;
+    delivery.deadAt = undefined;
+    delivery.nextAttemptAt = new Date().toISOString();
+    data.pending[id] = delivery;
+    this.enqueueOrdered(delivery);
+    await this.record({ op: 'pending', delivery });
+
+    logger.info('Replaying dead-letter webhook', { id, url: delivery.url });
+
+    await this.attempt(delivery);
+    return delivery;
+  }
+
+  /**
+   * Headers for a delivery: Basic Auth, idempotency key and signature
+   */
+  private buildHeaders(delivery: WebhookDelivery, body: string): Record<string, string> {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const signature = createHmac('sha256', this.options.signingSecret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+
+    return {
+      ...this.authService.getAuthHeaders(),
+      'Content-Type': 'application/json',
+      'Idempotency-Key': delivery.idempotencyKey,
+      'X-Webhook-Id': delivery.id,
+      'X-Webhook-Attempt': String(delivery.attempts),
+      'X-Webhook-Timestamp': timestamp,
+      'X-Webhook-Signature': `sha256=${signature}`,
+    };
+  }
+
+  private async attempt(delivery: WebhookDelivery): Promise<void> {
+    const data = await this.getData();
+
+    // Replayed or already delivered by a concurrent attempt
+    if (data.pending[delivery.id] !== delivery) {
+      return;
+    }
+
+    // Waits for earlier deliveries with the same ordering key; sent by finishOrdered
+    if (delivery.orderingKey && this.orderedQueues.get(delivery.orderingKey)?.[0] !== delivery) {
+      return;
+    }
+
+    delivery.attempts++;
+    delivery.lastAttemptAt = new Date().toISOString();
+
+    const body = JSON.stringify(delivery.payload);
+
+    try {
+      const response = await axios.post(delivery.url, body, {
+        timeout: REQUEST_TIMEOUT_MS,
+        headers: this.buildHeaders(delivery, body),
+        // Send the exact string that was signed
+        transformRequest: [(requestBody) => requestBody],
+      });
+
+      delete data.pending[delivery.id];
+      delivery.lastStatus = response.status;
+      delivery.lastError = undefined;
+      delivery.nextAttemptAt = undefined;
+      await this.record({ op: 'remove', id: delivery.id });
+      this.finishOrdered(delivery);
+      return;
+    } catch (error: any) {
+      const status: number | undefined = error.response?.status;
+      delivery.lastStatus = status;
+      delivery.lastError = error.message;
+
+      // The receiver rejected the webhook itself; retrying will not help
+      const retryable = !status || status >= 500 || status === 408 || status === 429;
+
+      if (!retryable || delivery.attempts >= this.options.maxAttempts) {
+        delete data.pending[delivery.id];
+        delivery.nextAttemptAt = undefined;
+        delivery.deadAt = new Date().toISOString();
+        data.deadLetter[delivery.id] = delivery;
+        await this.record({ op: 'dead', delivery });
+        await this.pruneDeadLetters(data);
+        this.finishOrdered(delivery);
+
+        logger.error('Webhook moved to dead letter', {
+          id: delivery.id,
+          url: delivery.url,
+          attempts: delivery.attempts,
+          status,
+          error: error.message,
+        });
+        return;
+      }
+
+      const delay = Math.min(
+        this.options.retryBaseDelayMs * 2 ** (delivery.attempts - 1),
+        this.options.retryMaxDelayMs
+      );
+      delivery.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+      await this.record({ op: 'pending', delivery });
+
+      logger.warn('Webhook delivery failed, retrying', {
+        id: delivery.id,
+        url: delivery.url,
+        attempt: delivery.attempts,
+        retryInMs: delay,
+        status,
+        error: error.message,
+      });
+
+      this.schedule(delivery, delay);
+    }
+  }
+
+  private enqueueOrdered(delivery: WebhookDelivery): void {
+    if (!delivery.orderingKey) {
+      return;
+    }
+
+    const queue = this.orderedQueues.get(delivery.orderingKey) || [];
+    queue.push(delivery);
+    this.orderedQueues.set(delivery.orderingKey, queue);
+  }
+
+  /**
+   * Remove a delivered or dead delivery from its ordering queue and send the next one
+   */
+  private finishOrdered(delivery: WebhookDelivery): void {
+    if (!delivery.orderingKey) {
+      return;
+    }
+
+    const queue = (this.orderedQueues.get(delivery.orderingKey) || []).filter((entry) => entry !== delivery);
+
+    if (queue.length === 0) {
+      this.orderedQueues.delete(delivery.orderingKey);
+      return;
+    }
+
+    this.orderedQueues.set(delivery.orderingKey, queue);
+    this.schedule(queue[0], 0);
+  }
+
+  private schedule(delivery: WebhookDelivery, delayMs: number): void {
+    clearTimeout(this.timers.get(delivery.id));
+
+    const timer = setTimeout(() => {
+      this.timers.delete(delivery.id);
+      this.attempt(delivery).catch((error) => {
+        logger.error('Unexpected webhook delivery error', { id: delivery.id, error: error.message });
+      });
+    }, delayMs);
+
+    // Pending retries must not keep short-lived scripts (e.g. bootstrap) alive
+    timer.unref();
+    this.timers.set(delivery.id, timer);
+  }
+}
+
+export default WebhookDispatcher;
@@ -1,53 +1,48 @@
-import axios from 'axios';
 import logger from '../utils/logger';
 import { config } from '../config/environment';
 import { ShopifyService } from './shopify.service';
-import { BasicAuthService } from './auth.service';
+import webhookDispatcher from './webhook-dispatcher.instance';
+import storeRegistry from './store.instance';
+import { StoreContext } from './store.registry';
 import { ThemeListWebhookPayload } from '../types/theme.types';
 
 export class WebhookService {
-  private readonly shopifyService: ShopifyService;
-  private readonly authService: BasicAuthService;
-
-  constructor() {
-    this.shopifyService = new ShopifyService();
-    this.authService = new BasicAuthService();
+  /**
+   * Send the theme list of every configured store to its session's webhook
+   */
+  async sendThemeList(): Promise<void> {
+    for (const store of storeRegistry.listStores()) {
+      await this.sendStoreThemeList(storeRegistry.resolve({ storeId: store.storeId }));
+    }
   }
 
-  async sendThemeList(): Promise<void> {
+  private async sendStoreThemeList(context: StoreContext): Promise<void> {
+    const shopifyService = new ShopifyService(context.store);
+    const fullWebhookUrl = `${config.WEBHOOK_URL}/theme/${encodeURIComponent(context.sessionId)}`;
+
     try {
-      const themes = await this.shopifyService.listThemes();
+      const themes = await shopifyService.listThemes();
 
       const payload: ThemeListWebhookPayload = {
         success: true,
+        store_id: context.store.storeId,
         themes
       };
 
-      const fullWebhookUrl = `${config.WEBHOOK_URL}/theme/${config.SESSION_ID}`;
-      await axios.post(fullWebhookUrl, payload, {
-        timeout: 10000,
-        headers: this.authService.getAuthHeaders()
-      });
-      logger.info(`Sent ${themes.length} themes to webhook`);
+      await webhookDispatcher.dispatch(fullWebhookUrl, payload);
+      logger.info(`Sent ${themes.length} themes of store ${context.store.storeId} to webhook`);
 
     } catch (error: any) {
       logger.error(`Error fetching themes: ${error.message}`);
 
       const errorPayload: ThemeListWebhookPayload = {
         success: false,
+        store_id: context.store.storeId,
         themes: [],
         error: error.message
       };
 
-      try {
-        const fullWebhookUrl = `${config.WEBHOOK_URL}/theme/${config.SESSION_ID}`;
-        await axios.post(fullWebhookUrl, errorPayload, {
-          timeout: 10000,
-          headers: this.authService.getAuthHeaders()
-        });
-      } catch (webhookError: any) {
-        logger.error(`Webhook error: ${webhookError.message}`);
-      }
+      await webhookDispatcher.dispatch(fullWebhookUrl, errorPayload);
     }
   }
 }
@@ -1,13 +1,366 @@
+import type { ApprovalMode, SandboxMode } from '@openai/codex-sdk';
+
+// Store Types
+export interface StoreConfigEntry {
+  store_id: string;
+  store_url: string;
+  theme_password: string;
+  admin_access_token?: string;  // Admin API access token, required by the admin-api backend
+  session_id?: string;  // Default session for webhooks about this store
+}
+
 // Request Types
 export interface ThemeDownloadRequest {
   theme_id: string;
+  store_id?: string;    // Defaults to the session's store, then the default store
+  session_id?: string;  // Defaults to the store's session, then SESSION_ID
+}
+
+export interface ThemePushRequest {
+  env_id?: string;
+  store_id?: string;    // Ignored when env_id is given (the environment's store is used)
+  session_id?: string;
+  only?: string[];
+  ignore?: string[];
+  publish?: boolean;
+}
+
+export interface RollbackRequest {
+  commit?: string;      // Snapshot to restore
+  steps?: number;       // Or: number of snapshots to go back (default 1, i.e. undo the last change)
+}
+
+export interface SessionBudgetRequest {
+  max_cost_usd?: number; // A limit that is left out is not enforced for the session
+  max_tokens?: number;
+}
+
+// Codex Types (bodies of /api/codex/* requests, camelCase like the Codex SDK)
+export type CodexApprovalMode = ApprovalMode;
+export type CodexSandboxMode = SandboxMode;
+
+export interface CodexThreadRequest {
+  workingDirectory?: string;  // Must be a folder inside THEME_DOWNLOAD_PATH
+  skipGitRepoCheck?: boolean;
+  model?: string;
+  yoloMode?: boolean;
+  approvalMode?: CodexApprovalMode;
+  sandboxMode?: CodexSandboxMode;
+}
+
+export interface CodexResumeRequest extends CodexThreadRequest {
+  sessionId: string;          // Codex thread ID to resume
+}
+
+export interface CodexRunRequest {
+  threadId: string;
+  prompt: string;
+  model?: string;
+  outputSchema?: Record<string, any>; // JSON Schema for the final response
+}
+
+export interface CodexStreamRequest {
+  threadId: string;
+  prompt: string;
+  model?: string;
+}
+
+export interface CodexQuickRunRequest {
+  prompt: string;
+  workingDirectory?: string;
+  skipGitRepoCheck?: boolean;
+  model?: string;
+  yoloMode?: boolean;
+  outputSchema?: Record<string, any>;
+}
+
+export interface CodexEnvironmentRunRequest {
+  prompt: string;
+  model?: string;
+  rejectIfBusy?: boolean;
 }
 
 // Response Types
-export interface StandardAPIResponse {
+export interface StandardAPIResponse<T = Record<string, any>> {
   success: boolean;
   message: string;
-  data?: Record<string, any>;
+  data?: T;
+}
+
+// Data of theme, chat, job, environment, usage and webhook responses (see schemas/response.schemas.ts)
+
+export interface ThemeJobData {
+  job_id: string;
+  store_id: string;
+  session_id: string;
+}
+
+export interface ChatAcceptedData {
+  job_id: string;       // Also the turn ID, for /chat/:envId/cancel
+  queue_position: number; // Turns ahead of this one (0 = starts immediately)
+  session_id: string;
+}
+
+export interface ChatQueuedTurn {
+  turn_id: string;
+  position: number;     // 0 = running, 1 = next in line, ...
+  status: 'running' | 'queued';
+  prompt?: string;
+  enqueued_at: string;
+  started_at?: string;
+}
+
+export interface ChatQueueData {
+  env_id: string;
+  queue_depth: number;
+  turns: ChatQueuedTurn[];
+}
+
+export interface ChatCancelData {
+  env_id: string;
+  turn_id?: string;
+  status: 'running' | 'queued'; // State of the turn when it was cancelled
+}
+
+export interface ChatQueuedTurnCancelData {
+  env_id: string;
+  turn_id: string;
+}
+
+export interface JobListData {
+  jobs: JobInfo[];
+  count: number;
+}
+
+export interface EnvSnapshot {
+  commit: string;
+  message: string;
+  created_at: string;
+}
+
+export interface EnvHistoryData {
+  env_id: string;
+  snapshots: EnvSnapshot[];
+}
+
+export interface EnvDiffData {
+  env_id: string;
+  from: string;
+  to: string;           // Commit, or "working-tree" for the current theme files
+  totals: { files: number; added: number; removed: number };
+  files: FileChangeSummary[];
+  diff?: string;        // Unified diff, left out with summary=true
+}
+
+export interface EnvRollbackData {
+  env_id: string;
+  restored: string;     // Snapshot whose files were restored
+  commit: string | null; // Snapshot recording the rollback, null if the theme already matched
+}
+
+export interface DevServerData {
+  env_id: string;
+  theme_id: string;
+  status: 'running' | 'restarting' | 'stopped' | 'crashed';
+  running: boolean;
+  pid?: number;
+  port: number;
+  uptime_seconds?: number;
+  started_at: string;
+  restarts: number;     // Automatic restarts since the last manual start
+  last_exit_code?: number | null;
+  last_exit_signal?: string | null;
+  last_exit_at?: string;
+  next_restart_at?: string;
+}
+
+export interface DevServerLogsData {
+  env_id: string;
+  lines: { stream: 'stdout' | 'stderr'; line: string; at: string }[];
+}
+
+export interface TranscriptTurnData {
+  turn_id: string;
+  mode: 'chat' | 'chat.streaming';
+  prompt: string;
+  model?: string;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  final_response?: string;
+  items?: any[];
+  usage?: any;
+  error?: string;
+  commit?: string;
+  created_at: string;
+  started_at?: string;
+  completed_at?: string;
+}
+
+export interface TranscriptPageData {
+  env_id: string;
+  total: number;
+  offset: number;
+  limit: number;
+  turns: TranscriptTurnData[];
+}
+
+export interface UsageTotalsData {
+  turns: number;
+  input_tokens: number;
+  cached_input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  cost_usd: number;
+  unpriced_turns: number; // Turns whose model has no price (not included in cost_usd)
+}
+
+export interface UsageRecordData {
+  turn_id: string;
+  env_id: string;
+  session_id: string;
+  model: string;
+  input_tokens: number;
+  cached_input_tokens: number;
+  output_tokens: number;
+  cost_usd: number | null;
+  recorded_at: string;
+}
+
+export interface SessionBudgetData {
+  session_id: string;
+  max_cost_usd?: number;
+  max_tokens?: number;
+  custom: boolean;      // Set for this session rather than the default budget
+  spent_cost_usd: number;
+  spent_tokens: number;
+  exceeded: boolean;
+}
+
+export interface UsageSummaryData {
+  totals: UsageTotalsData;
+  by_env: Record<string, UsageTotalsData>;
+  by_session: Record<string, UsageTotalsData>;
+  by_model: Record<string, UsageTotalsData>;
+  turns: UsageRecordData[]; // Most recent first
+  budget?: SessionBudgetData; // With the session_id filter
+}
+
+export interface DeadLetterDelivery {
+  id: string;
+  url: string;
+  idempotency_key: string;
+  attempts: number;
+  created_at: string;
+  last_attempt_at?: string;
+  next_attempt_at?: string;
+  last_status?: number;
+  last_error?: string;
+  dead_at?: string;
+  payload: unknown;
+}
+
+export interface DeadLetterListData {
+  deliveries: DeadLetterDelivery[];
+  count: number;
+}
+
+export interface DeadLetterReplayData {
+  delivered: boolean;
+  delivery: DeadLetterDelivery;
+}
+
+export interface HealthResponse {
+  status: string;
+}
+
+// Responses of the /api/codex routes
+
+export interface CodexMessageResponse {
+  success: boolean;
+  message: string;
+}
+
+export interface CodexThreadResponse {
+  success: boolean;
+  threadId: string;
+  config: CodexThreadRequest;
+}
+
+export interface CodexResumeResponse {
+  success: boolean;
+  threadId: string;
+  sessionId: string;
+}
+
+export interface CodexRunResponse {
+  success: boolean;
+  threadId: string;
+  response: string;
+  items: any[];
+}
+
+export interface CodexEnvironmentRunResponse {
+  success: boolean;
+  envId: string;
+  response: string;
+  items: any[];
+}
+
+export interface CodexQuickRunResponse {
+  success: boolean;
+  response: string;
+  items: any[];
+}
+
+export interface CodexThreadListResponse {
+  success: boolean;
+  threads: string[];
+  count: number;
+}
+
+export interface CodexEnvironmentInfo {
+  envId: string;
+  workingDirectory: string;
+  model: string;
+  storeId?: string;
+  sessionId?: string;
+  createdAt: string;
+}
+
+export interface CodexEnvironmentResponse {
+  success: boolean;
+  environment: CodexEnvironmentInfo;
+}
+
+export interface CodexEnvironmentListResponse {
+  success: boolean;
+  environments: CodexEnvironmentInfo[];
+  count: number;
+}
+
+/**
+ * Event of /api/codex/stream (a ThreadEvent of @openai/codex-sdk)
+ */
+export interface CodexStreamEvent {
+  type: string;
+  [key: string]: any;
+}
+
+// Job Types
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export type JobType = 'theme.download' | 'theme.push' | 'chat' | 'chat.streaming';
+
+export interface JobInfo {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  env_id?: string;
+  theme_id?: string;
+  created_at: string;
+  started_at?: string;
+  finished_at?: string;
+  result?: Record<string, any>;
+  error?: string;
 }
 
 export interface ThemeInfo {
@@ -19,14 +372,61 @@ export interface ThemeInfo {
 // Webhook Payload Types
 export interface ThemeListWebhookPayload {
   success: boolean;
+  store_id?: string;
   themes: ThemeInfo[];
   error?: string;
 }
 
 export interface ThemeDownloadWebhookPayload {
   success: boolean;
+  job_id?: string;
+  store_id?: string;
+  theme_id?: string;
+  env_id?: string;
+  dev_server_port?: number;
+  preview_path?: string; // Path on the preview proxy that serves this environment's dev server
+  error?: string;
+}
+
+export type ThemeProgressEventType =
+  | 'duplicate.started'
+  | 'duplicate.progress'   // Readiness poll of the duplicate, e.g. to show "duplicating... 40%"
+  | 'duplicate.completed'
+  | 'pull.attempt'
+  | 'pull.completed'
+  | 'codex.ready'
+  | 'dev.started';
+
+/**
+ * Sent to the theme webhook at each stage of the download workflow,
+ * before the final ThemeDownloadWebhookPayload
+ */
+export interface ThemeProgressWebhookPayload {
+  type: ThemeProgressEventType;
+  job_id?: string;
+  store_id?: string;
+  source_theme_id: string;
+  theme_id?: string;          // The duplicate, once created
+  env_id?: string;            // From codex.ready on
+  elapsed_ms: number;         // Since the download started
+  duration_ms?: number;       // Of the finished stage (duplicate.completed, pull.completed, codex.ready, dev.started)
+  attempt?: number;           // pull.attempt
+  max_attempts?: number;      // pull.attempt
+  progress?: number;          // duplicate.progress, 0-100
+  processing?: boolean;       // duplicate.progress
+  asset_count?: number;       // duplicate.progress
+  source_asset_count?: number; // duplicate.progress
+  file_count?: number;        // pull.completed
+  dev_server_port?: number;   // dev.started
+}
+
+export interface ThemePushWebhookPayload {
+  success: boolean;
+  job_id?: string;
+  store_id?: string;
   theme_id?: string;
   env_id?: string;
+  published?: boolean;
   error?: string;
 }
 
@@ -35,32 +435,202 @@ export interface ChatRequest {
   env_id: string;
   prompt: string;
   model?: string;
+  session_id?: string;  // Defaults to the session the environment was created for
+  reject_if_busy?: boolean; // Respond 409 instead of queueing when a turn is already running
+  output_schema?: OutputSchemaName | Record<string, any>; // Built-in or JSON Schema the final response must follow
 }
 
 export interface ChatStreamingRequest {
   env_id: string;
   prompt: string;
   model?: string;
+  session_id?: string;  // Defaults to the session the environment was created for
+  reject_if_busy?: boolean; // Respond 409 instead of queueing when a turn is already running
+  batch_window_ms?: number; // Send events arriving within this window as one events.batch webhook (0 = one per event)
+  events?: ChatStreamingEventFilter; // Which events are forwarded; unset lists use the server defaults
+  output_schema?: OutputSchemaName | Record<string, any>; // Built-in or JSON Schema the final response must follow
+}
+
+export interface ChatCancelRequest {
+  turn_id?: string;     // Defaults to the running turn
+}
+
+/**
+ * Selects streaming events by event type (e.g. "item.completed") and, for
+ * item.* events, by item type (e.g. "command_execution"). "*" matches any type.
+ */
+export interface ChatStreamingEventSelector {
+  types?: string[];
+  item_types?: string[];
+}
+
+/**
+ * An event is forwarded when it matches `include` and does not match `exclude`
+ */
+export interface ChatStreamingEventFilter {
+  include?: ChatStreamingEventSelector;
+  exclude?: ChatStreamingEventSelector;
 }
 
 export interface ChatWebhookPayload {
   success: boolean;
+  job_id?: string;
   env_id?: string;
   response?: string;
   items?: any[];
   error?: string;
+  cancelled?: boolean;
+  commit?: string;      // Snapshot of the theme after the turn, usable with /env/:envId/rollback
+  changes?: FileChangeSummary[]; // Files changed by the turn
+  usage?: ChatUsage;
+  structured?: Record<string, any>; // Final response parsed as JSON, when output_schema was given
+}
+
+/**
+ * Token usage of a turn with its cost (null when the model has no configured price)
+ */
+export interface ChatUsage {
+  input_tokens: number;
+  cached_input_tokens: number;
+  output_tokens: number;
+  cost_usd: number | null;
 }
 
+export interface FileChangeSummary {
+  path: string;
+  status: 'added' | 'modified' | 'deleted';
+  added: number;
+  removed: number;
+  binary?: boolean;
+}
+
+// Structured output
+
+export type OutputSchemaName = 'change_summary' | 'section_plan' | 'theme_audit';
+
+/**
+ * Final response of a turn run with the change_summary output schema
+ */
+export interface ChangeSummaryOutput {
+  summary: string;
+  changes: { path: string; description: string }[];
+  follow_ups: string[]; // Suggested next steps
+}
+
+/**
+ * Final response of a turn run with the section_plan output schema
+ */
+export interface SectionPlanOutput {
+  sections: {
+    name: string;
+    file: string;       // e.g. sections/newsletter-signup.liquid
+    purpose: string;
+    settings: string[]; // IDs of the section's settings
+    blocks: string[];   // Block types
+  }[];
+  templates: string[];  // Templates the sections are added to
+  notes: string;
+}
+
+/**
+ * Final response of a turn run with the theme_audit output schema
+ */
+export interface ThemeAuditOutput {
+  summary: string;
+  issues: {
+    path: string;
+    severity: 'low' | 'medium' | 'high';
+    category: 'performance' | 'accessibility' | 'seo' | 'code';
+    description: string;
+    suggestion: string;
+  }[];
+}
+
+// Items of item.* streaming events (mirrors ThreadItem of @openai/codex-sdk)
+export interface AgentMessageItem {
+  id: string;
+  type: 'agent_message';
+  text: string;         // Natural-language text, or JSON when structured output is requested
+}
+
+export interface ReasoningItem {
+  id: string;
+  type: 'reasoning';
+  text: string;         // Reasoning summary
+}
+
+export interface CommandExecutionItem {
+  id: string;
+  type: 'command_execution';
+  command: string;
+  aggregated_output: string; // stdout and stderr captured so far
+  exit_code?: number;   // Set once the command has exited
+  status: 'in_progress' | 'completed' | 'failed';
+}
+
+export interface FileChangeItem {
+  id: string;
+  type: 'file_change';
+  changes: { path: string; kind: 'add' | 'delete' | 'update' }[];
+  status: 'completed' | 'failed';
+}
+
+export interface McpToolCallItem {
+  id: string;
+  type: 'mcp_tool_call';
+  server: string;
+  tool: string;
+  arguments: unknown;
+  result?: { content: unknown[]; structured_content: unknown };
+  error?: { message: string };
+  status: 'in_progress' | 'completed' | 'failed';
+}
+
+export interface WebSearchItem {
+  id: string;
+  type: 'web_search';
+  query: string;
+}
+
+export interface TodoListItem {
+  id: string;
+  type: 'todo_list';
+  items: { text: string; completed: boolean }[]; // Updated as steps are done; completed when the turn ends
+}
+
+export interface ErrorItem {
+  id: string;
+  type: 'error';
+  message: string;      // Non-fatal error
+}
+
+export type ChatStreamingItem =
+  | AgentMessageItem
+  | ReasoningItem
+  | CommandExecutionItem
+  | FileChangeItem
+  | McpToolCallItem
+  | WebSearchItem
+  | TodoListItem
+  | ErrorItem;
+
 export interface ChatStreamingWebhookPayload {
   success: boolean;
+  job_id?: string;
   env_id?: string;
   event_number?: number;
   timestamp?: string;
-  type?: string;        // Event type: thread.started, turn.started, item.updated, etc.
+  type?: string;        // Event type: thread.started, item.updated, turn.cancelled, events.batch, stream.completed, etc.
   thread_id?: string;   // For thread.started events
-  item?: any;           // For item.* events (item.started, item.updated, item.completed)
-  usage?: any;          // For turn.completed events
+  item?: ChatStreamingItem; // For item.* events (item.started, item.updated, item.completed)
+  usage?: any;          // For turn.completed events; ChatUsage for stream.completed
   error?: any;          // For turn.failed and error events
   message?: string;     // For error events
+  events?: ChatStreamingWebhookPayload[]; // For events.batch
+  first_event_number?: number; // For events.batch and stream.completed
+  last_event_number?: number;  // For events.batch and stream.completed
+  total_events?: number;       // For stream.completed
+  duration_ms?: number;        // For stream.completed
+  structured?: Record<string, any>; // For stream.completed, when output_schema was given
   [key: string]: any;   // Other dynamic event properties
 }
@@ -0,0 +1,241 @@
+/**
+ * JSON Schema subset used for request validation and the OpenAPI document
+ * (type, enum, string/number/array/object bounds, pattern, properties,
+ * required, additionalProperties, items, anyOf, and format "date-time").
+ * $ref is only used in the OpenAPI document and is not resolved by
+ * validateSchema.
+ */
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  enum?: unknown[];
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;      // Documentation only, except "date-time": the string must parse as a date
+  minimum?: number;
+  maximum?: number;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  minProperties?: number;
+  additionalProperties?: boolean | JsonSchema;
+  anyOf?: JsonSchema[];
+  $ref?: string;
+  example?: unknown;
+}
+
+// Declared keys of T, without index signatures
+type KnownKeys<T> = keyof { [K in keyof T as string extends K ? never : number extends K ? never : K]: T[K] };
+
+type RequiredKeys<T> = { [K in KnownKeys<T>]-?: {} extends Pick<T, K> ? never : K }[KnownKeys<T>];
+
+/**
+ * Schema of an object type: every property of T needs a schema of the
+ * matching kind, and only required properties may be listed as required
+ */
+export interface ObjectSchemaFor<T> extends JsonSchema {
+  type: 'object';
+  properties: { [K in KnownKeys<T>]-?: unknown extends T[K] ? JsonSchema : SchemaFor<NonNullable<T[K]>> };
+  required?: Extract<RequiredKeys<T>, string>[];
+}
+
+// A scalar type, optionally nullable: "number" or ["number", "null"]
+type ScalarType<K extends JsonSchemaType> = K | [K, 'null'];
+
+// Unions of object types (e.g. ChatStreamingItem) are described with anyOf
+type AnyOfSchema = JsonSchema & { anyOf: JsonSchema[] };
+
+type SchemaForType<T> =
+  unknown extends T ? JsonSchema
+    : T extends string ? JsonSchema & { type: ScalarType<'string'> }
+    : T extends number ? JsonSchema & { type: ScalarType<'number'> | ScalarType<'integer'> }
+    : T extends boolean ? JsonSchema & { type: ScalarType<'boolean'> }
+    : T extends (infer U)[] ? JsonSchema & { type: 'array'; items: SchemaFor<U> }
+    : T extends object ? (string extends keyof T ? JsonSchema & { type: 'object' } : ObjectSchemaFor<T>)
+    : JsonSchema;
+
+/**
+ * Schema matching a TypeScript type, so schemas are checked against the request types
+ */
+export type SchemaFor<T> = AnyOfSchema | SchemaForType<T>;
+
+/**
+ * A value that does not match its schema
+ */
+export interface SchemaError {
+  path: string;         // e.g. "events.include.types[0]", "" for the value itself
+  message: string;
+}
+
+function typeOf(value: unknown): JsonSchemaType | 'undefined' {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return typeof value as JsonSchemaType | 'undefined';
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Validate a value against a schema
+ * @param schema - JSON Schema (subset, see above)
+ * @param value - Value to check
+ * @param path - Path of the value, prefixed to error paths
+ * @returns Every mismatch found, empty if the value is valid
+ */
+export function validateSchema(schema: JsonSchema, value: unknown, path: string = ''): SchemaError[] {
+  const errors: SchemaError[] = [];
+  const fail = (message: string) => errors.push({ path, message });
+
+  if (schema.anyOf) {
+    const results = schema.anyOf.map((option) => validateSchema(option, value, path));
+
+    if (results.some((result) => result.length === 0)) {
+      return errors;
+    }
+
+    // When only one option accepts the value's type, its errors say more than "no match"
+    const candidates = schema.anyOf
+      .map((option, index) => ({ option, index }))
+      .filter(({ option }) => !option.type || validateSchema({ type: option.type }, value).length === 0);
+
+    if (candidates.length === 1) {
+      return results[candidates[0].index];
+    }
+
+    fail('does not match any of the allowed schemas');
+    return errors;
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+
+    if (!types.some((type) => matchesType(value, type))) {
+      fail(`must be ${types.join(' or ')}`);
+      return errors;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((option) => option === value)) {
+    fail(`must be one of: ${schema.enum.join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail(schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail(`must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      fail(`must match ${schema.pattern}`);
+    }
+    if (schema.format === 'date-time' && isNaN(Date.parse(value))) {
+      fail('must be an ISO date');
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail(`must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail(`must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail(`must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateSchema(schema.items!, item, joinPath(path, index))));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties || {};
+    const defined = Object.values(object).filter((propertyValue) => propertyValue !== undefined).length;
+
+    if (schema.minProperties !== undefined && defined < schema.minProperties) {
+      fail(schema.minProperties === 1 ? 'must not be empty' : `must have at least ${schema.minProperties} properties`);
+    }
+
+    for (const key of schema.required || []) {
+      if (object[key] === undefined) {
+        errors.push({ path: joinPath(path, key), message: 'is required' });
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(object)) {
+      if (propertyValue === undefined) {
+        continue;
+      }
+
+      if (properties[key]) {
+        errors.push(...validateSchema(properties[key], propertyValue, joinPath(path, key)));
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: joinPath(path, key.substring(0, 50)), message: 'is not allowed' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateSchema(schema.additionalProperties, propertyValue, joinPath(path, key)));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Convert query string or path parameter values to the types their schema
+ * expects ("5" to 5, "true" to true). Values that do not convert are kept,
+ * so validation reports them.
+ * @param schema - Object schema of the parameters
+ * @param values - Parsed query or params
+ * @returns Converted copy
+ */
+export function coerceParameters(schema: JsonSchema, values: Record<string, unknown>): Record<string, unknown> {
+  const coerced: Record<string, unknown> = { ...values };
+
+  for (const [key, value] of Object.entries(values)) {
+    const propertySchema = schema.properties?.[key];
+    const types = Array.isArray(propertySchema?.type) ? propertySchema!.type : [propertySchema?.type];
+
+    if (typeof value !== 'string') {
+      continue;
+    }
+
+    if ((types.includes('number') || types.includes('integer')) && value.trim() !== '' && !isNaN(Number(value))) {
+      coerced[key] = Number(value);
+    } else if (types.includes('boolean') && (value === 'true' || value === 'false')) {
+      coerced[key] = value === 'true';
+    }
+  }
+
+  return coerced;
+}